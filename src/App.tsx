@@ -1,26 +1,33 @@
 import React, { useState, useEffect } from 'react'
-import { AudioTrack, MusicCacheService, MusicLibraryEntry } from './services/musicCacheService'
-import ProgressPopover from './components/ProgressPopover'
+import { AudioTrack, MusicCacheService, MusicLibraryEntry, getAlbumArtist } from './services/musicCacheService'
+import ProgressPopover, { ScanSummary } from './components/ProgressPopover'
 import FolderSelectView from './components/FolderSelectView'
 import MainView from './components/MainView'
 import AlbumDetailView from './components/AlbumDetailView'
 import ArtistDetailView from './components/ArtistDetailView'
 import RadioStationDetailView from './components/RadioStationDetailView'
+import LibraryView from './components/LibraryView'
+import DuplicateReviewView from './components/DuplicateReviewView'
+import LibraryProblemsView from './components/LibraryProblemsView'
+import PlaylistsView from './components/PlaylistsView'
+import HistoryView from './components/HistoryView'
 import PlaybackControls from './components/PlaybackControls'
 import './index.css'
 import './components/ProgressPopover.css'
-import { tryUseCachedFolder } from './utils/fileHelpers'
+import { libraryRootService } from './services/libraryRootService'
+import { ScanProgress } from './services/scanJob'
 import { playbackService, PlaybackState } from './services/playbackService'
 import { RadioStation, radioStationService } from './services/radioStationService'
+import { Playlist } from './services/playlistService'
+import { settingsService } from './services/settingsService'
+import { audioAnalysisService } from './services/audioAnalysisService'
 
 const cacheService = MusicCacheService.getInstance();
 
 const App: React.FC = () => {
-  const [currentView, setCurrentView] = useState<'folderSelect' | 'radioStations' | 'albumDetail' | 'artistDetail' | 'stationDetail'>('folderSelect')
-  const [isProcessing, setIsProcessing] = useState(false)
-  const [progress, setProgress] = useState(0)
-  const [currentFile, setCurrentFile] = useState(0)
-  const [totalFiles, setTotalFiles] = useState(0)
+  const [currentView, setCurrentView] = useState<'folderSelect' | 'radioStations' | 'albumDetail' | 'artistDetail' | 'stationDetail' | 'library' | 'duplicates' | 'problems' | 'playlists' | 'history'>('folderSelect')
+  const [scanProgress, setScanProgress] = useState<ScanProgress | null>(null)
+  const [scanSummary, setScanSummary] = useState<ScanSummary | null>(null)
 
   // Playback controls state managed by PlaybackService
   const [playbackState, setPlaybackState] = useState<PlaybackState>({
@@ -69,15 +76,28 @@ const App: React.FC = () => {
     }
   };
 
+  // Analyze tracks scans left without loudness, tempo or key data, unless turned off
+  const startAudioAnalysis = async () => {
+    const settings = await settingsService.getSettings();
+    if (settings.analyzeAudio) {
+      audioAnalysisService.start();
+    }
+  };
+
   // Set up progress tracking - pass a callback function that updates our local state
-  cacheService.setOnProgress((current, total) => {
-    let progress = ((current + 1) / total) * 100;
-    setProgress(progress);
-    setCurrentFile(current);
-    setTotalFiles(total);
-    setIsProcessing(current < total);
+  cacheService.setOnProgress(setScanProgress);
+  cacheService.setOnScanComplete((report, root) => {
+    setScanSummary({ rootName: root.name, report });
+    startAudioAnalysis();
   });
 
+  // A clean scan's summary goes away by itself; one with problems stays until closed
+  useEffect(() => {
+    if (!scanSummary || scanSummary.report.issues > 0 || scanSummary.report.unresolvedPlaylistEntries > 0) return;
+    const timeout = setTimeout(() => setScanSummary(null), 8000);
+    return () => clearTimeout(timeout);
+  }, [scanSummary]);
+
   // Handle track playback using PlaybackService
   const handlePlayTrack = async (entry: MusicLibraryEntry) => {
     if (entry) {
@@ -96,11 +116,69 @@ const App: React.FC = () => {
     playbackService.playStation(station, leadTrack);
   }
 
+  // Play an album in sequence, then continue with a station built from it
+  const handlePlayAlbum = async (tracks: MusicLibraryEntry[]) => {
+    const first = tracks[0];
+    if (!first) return;
+    try {
+      const station = await radioStationService.createAlbumStation(getAlbumArtist(first), first.album, tracks);
+      await playbackService.playInOrder(tracks, station);
+    } catch (error) {
+      console.error('Error playing album:', error);
+    }
+  };
+
+  // Play a playlist in its own order, then continue with a station built from it
+  const handlePlayPlaylist = async (playlist: Playlist, tracks: MusicLibraryEntry[]) => {
+    try {
+      const station = await radioStationService.createStationFromTracks(playlist.name, tracks, undefined, true);
+      await playbackService.playInOrder(tracks, station);
+    } catch (error) {
+      console.error('Error playing playlist:', error);
+    }
+  };
+
+  // Keep a station built from a playlist and open it
+  const handleCreatePlaylistStation = async (playlist: Playlist, tracks: MusicLibraryEntry[]) => {
+    try {
+      const station = await radioStationService.createStationFromTracks(playlist.name, tracks);
+      setCurrentStationId(station.id);
+      setCurrentView('stationDetail');
+    } catch (error) {
+      console.error('Error creating station from playlist:', error);
+    }
+  };
+
+  // Start a temporary station from a track in the listening history
+  const handleStartHistoryStation = async (track: MusicLibraryEntry) => {
+    try {
+      const station = await radioStationService.createStationFromTracks(`Station from ${track.artist} - ${track.title}`, [track], { album: 0.5 }, true);
+      await playbackService.playStation(station, track);
+    } catch (error) {
+      console.error('Error starting station from history:', error);
+    }
+  };
+
+  // Keep a station built from part of the listening history and open it
+  const handleBuildHistoryStation = async (name: string, tracks: MusicLibraryEntry[]) => {
+    try {
+      const station = await radioStationService.createStationFromTracks(name, tracks);
+      setCurrentStationId(station.id);
+      setCurrentView('stationDetail');
+    } catch (error) {
+      console.error('Error building station from history:', error);
+    }
+  };
+
   const loadHandler = (async () => {
-    const folder = await tryUseCachedFolder();
-    if (folder) {
-      // If we have a saved folder, skip to radio stations view
-      await cacheService.loadFromFolder(folder);
+    const roots = await libraryRootService.getRoots();
+    if (roots.length > 0) {
+      // If we have saved folders, rescan the readable ones and skip to radio stations view
+      await cacheService.initDB();
+      // Temporary stations only last a session
+      await radioStationService.discardTemporaryStations();
+      await cacheService.loadAllRoots();
+      startAudioAnalysis();
       setCurrentView('radioStations');
     }
   });
@@ -170,6 +248,7 @@ const App: React.FC = () => {
                 album={currentAlbumDetail}
                 onBack={() => setCurrentView('radioStations')}
                 onPlayTrack={handlePlayTrack}
+                onPlayAlbum={handlePlayAlbum}
               />
             ) : currentView === 'artistDetail' ? (
               <ArtistDetailView
@@ -182,6 +261,35 @@ const App: React.FC = () => {
                 }}
                 onPlayStation={handlePlayStation}
               />
+            ) : currentView === 'library' ? (
+              <LibraryView
+                onBack={() => setCurrentView('radioStations')}
+                onOpenDuplicates={() => setCurrentView('duplicates')}
+                onOpenProblems={() => setCurrentView('problems')}
+              />
+            ) : currentView === 'problems' ? (
+              <LibraryProblemsView
+                onBack={() => setCurrentView('library')}
+              />
+            ) : currentView === 'playlists' ? (
+              <PlaylistsView
+                onBack={() => setCurrentView('radioStations')}
+                onPlayTrack={handlePlayTrack}
+                onPlayPlaylist={handlePlayPlaylist}
+                onCreateStation={handleCreatePlaylistStation}
+              />
+            ) : currentView === 'history' ? (
+              <HistoryView
+                onBack={() => setCurrentView('radioStations')}
+                onPlayTrack={handlePlayTrack}
+                onStartStation={handleStartHistoryStation}
+                onBuildStation={handleBuildHistoryStation}
+              />
+            ) : currentView === 'duplicates' ? (
+              <DuplicateReviewView
+                onBack={() => setCurrentView('library')}
+                onPlayTrack={handlePlayTrack}
+              />
             ) : currentView === 'stationDetail' ? (
               <RadioStationDetailView
                 stationId={currentStationId}
@@ -208,6 +316,9 @@ const App: React.FC = () => {
                   // Create a temporary station and navigate to it
                   createCustomStation();
                 }}
+                onOpenLibrary={() => setCurrentView('library')}
+                onOpenPlaylists={() => setCurrentView('playlists')}
+                onOpenHistory={() => setCurrentView('history')}
               />
             )}
           </div>
@@ -235,14 +346,25 @@ const App: React.FC = () => {
               setCurrentStationId(stationId);
               setCurrentView('stationDetail');
             }}
+            onFeedback={(vote) => playbackService.giveFeedback(vote).catch(error => {
+              console.error('Error saving feedback:', error);
+            })}
           />
         </div>
       )}
       <ProgressPopover
-        isVisible={isProcessing}
-        progress={progress}
-        current={currentFile}
-        total={totalFiles}
+        progress={scanProgress}
+        summary={scanSummary}
+        onCancel={() => cacheService.cancelScan()}
+        onDismissSummary={() => setScanSummary(null)}
+        onViewProblems={() => {
+          setScanSummary(null);
+          setCurrentView('problems');
+        }}
+        onViewPlaylists={() => {
+          setScanSummary(null);
+          setCurrentView('playlists');
+        }}
       />
     </div>
   )
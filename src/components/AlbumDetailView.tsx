@@ -1,26 +1,38 @@
 import React, { useState, useEffect } from 'react';
-import { MusicCacheService, MusicLibraryEntry } from '../services/musicCacheService';
+import { MusicCacheService, MusicLibraryEntry, sortAlbumTracks } from '../services/musicCacheService';
+import { artworkCache } from '../services/artworkCacheService';
+import TagEditor from './TagEditor';
+import StarRating from './StarRating';
 import './AlbumDetailView.css';
 
 interface AlbumDetailViewProps {
   album: any;
   onBack: () => void;
   onPlayTrack?: (track: MusicLibraryEntry) => void;
+  onPlayAlbum?: (tracks: MusicLibraryEntry[]) => void;
 }
 
-const AlbumDetailView: React.FC<AlbumDetailViewProps> = ({ album, onBack, onPlayTrack }) => {
+const AlbumDetailView: React.FC<AlbumDetailViewProps> = ({ album, onBack, onPlayTrack, onPlayAlbum }) => {
   const [albumArt, setAlbumArt] = useState<string | null>(null);
+  const [tracks, setTracks] = useState<MusicLibraryEntry[]>(sortAlbumTracks(album?.tracks || []));
+  const [editingTracks, setEditingTracks] = useState<MusicLibraryEntry[] | null>(null);
   const cacheService = MusicCacheService.getInstance();
 
   useEffect(() => {
+    let acquired: string | null = null;
+    let cancelled = false;
+
     // Fetch album art for the album
     const fetchAlbumArt = async () => {
-      if (album && album.albumArt) {
-        setAlbumArt(album.albumArt);
-      } else if (album && album.tracks && album.tracks.length > 0) {
+      if (album && album.tracks && album.tracks.length > 0) {
         try {
           const firstTrack = album.tracks[0];
-          const artUrl = await cacheService.getAlbumArtUrl(firstTrack);
+          const artUrl = await cacheService.getAlbumArtUrl(firstTrack, 'medium');
+          if (cancelled) {
+            artworkCache.release(artUrl);
+            return;
+          }
+          acquired = artUrl;
           setAlbumArt(artUrl);
         } catch (error) {
           console.error('Error fetching album art:', error);
@@ -28,16 +40,43 @@ const AlbumDetailView: React.FC<AlbumDetailViewProps> = ({ album, onBack, onPlay
       }
     };
 
+    // Show the art the previous view passed along until our own copy loads
+    if (album && album.albumArt) {
+      setAlbumArt(album.albumArt);
+    }
     fetchAlbumArt();
+
+    return () => {
+      cancelled = true;
+      artworkCache.release(acquired);
+    };
   }, [album, cacheService]);
 
+  useEffect(() => {
+    setTracks(sortAlbumTracks(album?.tracks || []));
+  }, [album]);
+
   const handlePlayAlbum = () => {
-    if (album && album.tracks && album.tracks.length > 0) {
+    if (tracks.length === 0) return;
+    if (onPlayAlbum) {
+      onPlayAlbum(tracks);
+    } else {
       // Play the first track of the album
-      onPlayTrack?.(album.tracks[0]);
+      onPlayTrack?.(tracks[0]!);
     }
   };
 
+  const handleTagsSaved = (updated: MusicLibraryEntry[]) => {
+    const byId = new Map(updated.map(track => [track.id, track]));
+    setTracks(prev => sortAlbumTracks(prev.map(track => byId.get(track.id) ?? track)));
+  };
+
+  // Tracks cut from one file by a CUE sheet get their tags from the sheet, not the file
+  const editableTracks = tracks.filter(track => track.cueKey === undefined);
+
+  // Disc headers are only worth showing for multi-disc albums
+  const hasMultipleDiscs = new Set(tracks.map(track => track.discNumber || 1)).size > 1;
+
   return (
     <div className="album-detail-view">
       <div className="album-header">
@@ -61,39 +100,72 @@ const AlbumDetailView: React.FC<AlbumDetailViewProps> = ({ album, onBack, onPlay
           </div>
           
           <div className="album-stats">
-            <p>{album.trackCount} tracks</p>
+            <p>{tracks.length} tracks</p>
           </div>
           
           <button className="play-button" onClick={handlePlayAlbum}>
             ▶ Play Album
           </button>
+          {editableTracks.length > 0 && (
+            <button className="edit-tags-button" onClick={() => setEditingTracks(editableTracks)}>
+              Edit Album Tags
+            </button>
+          )}
         </div>
 
         <div className="track-list-column">
           <div className="track-list">
             <h2>Track List</h2>
-            {album.tracks && album.tracks.map((track: MusicLibraryEntry, index: number) => (
-              <div key={track.id} className="track-item">
-                <div className="track-number">{index + 1}</div>
-                <div className="track-info">
-                  <h4>{track.title}</h4>
-                  <p className="track-artist">{track.artist}</p>
-                </div>
-                <div className="track-duration">{track.duration ? formatDuration(track.duration) : '0:00'}</div>
-                {onPlayTrack && (
-                  <button
-                    className="play-track-btn"
-                    onClick={() => onPlayTrack(track)}
-                    title="Play track"
-                  >
-                    ▶
-                  </button>
-                )}
-              </div>
-            ))}
+            {tracks.map((track: MusicLibraryEntry, index: number) => {
+              const disc = track.discNumber || 1;
+              const startsDisc = hasMultipleDiscs && (index === 0 || disc !== (tracks[index - 1]!.discNumber || 1));
+              return (
+                <React.Fragment key={track.id}>
+                  {startsDisc && <h3 className="disc-header">Disc {disc}</h3>}
+                  <div className="track-item">
+                    <div className="track-number">{track.trackNumber || index + 1}</div>
+                    <div className="track-info">
+                      <h4>{track.title}</h4>
+                      <p className="track-artist">{track.artist}</p>
+                    </div>
+                    <StarRating
+                      track={track}
+                      onRated={(updated) => setTracks(previous => previous.map(t => t.id === updated.id ? updated : t))}
+                    />
+                    <div className="track-duration">{track.duration ? formatDuration(track.duration) : '0:00'}</div>
+                    {track.cueKey === undefined && (
+                      <button
+                        className="edit-track-btn"
+                        onClick={() => setEditingTracks([track])}
+                        title="Edit tags"
+                      >
+                        ✎
+                      </button>
+                    )}
+                    {onPlayTrack && (
+                      <button
+                        className="play-track-btn"
+                        onClick={() => onPlayTrack(track)}
+                        title="Play track"
+                      >
+                        ▶
+                      </button>
+                    )}
+                  </div>
+                </React.Fragment>
+              );
+            })}
           </div>
         </div>
       </div>
+
+      {editingTracks && (
+        <TagEditor
+          tracks={editingTracks}
+          onClose={() => setEditingTracks(null)}
+          onSaved={handleTagsSaved}
+        />
+      )}
     </div>
   );
 };
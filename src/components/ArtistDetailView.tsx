@@ -1,5 +1,8 @@
 import React, { useState, useEffect } from 'react';
-import { MusicCacheService, MusicLibraryEntry } from '../services/musicCacheService';
+import { MusicCacheService, MusicLibraryEntry, getAlbumArtist, sortAlbumTracks } from '../services/musicCacheService';
+import { artworkCache } from '../services/artworkCacheService';
+import TagEditor from './TagEditor';
+import StarRating from './StarRating';
 import './AlbumDetailView.css';
 import { RadioStation, radioStationService } from '../services/radioStationService';
 
@@ -13,33 +16,21 @@ interface ArtistDetailViewProps {
 
 const ArtistDetailView: React.FC<ArtistDetailViewProps> = ({ artistName, onBack, onPlayTrack, onAlbumSelected, onPlayStation }) => {
   const [albums, setAlbums] = useState<any[]>([]);
+  const [tracks, setTracks] = useState<MusicLibraryEntry[]>([]);
+  const [editingTrack, setEditingTrack] = useState<MusicLibraryEntry | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const cacheService = MusicCacheService.getInstance();
 
   useEffect(() => {
     const fetchArtistAlbums = async () => {
       try {
-        // Get all entries for this artist
-        const allEntries = await cacheService.getAllCachedEntries();
-        const artistEntries = allEntries.filter(entry =>
-          entry.artist.toLowerCase() === artistName.toLowerCase()
-        );
-
-        // Group by album
-        const albumMap = new Map<string, MusicLibraryEntry[]>();
-
-        artistEntries.forEach(entry => {
-          const key = entry.album;
-          if (!albumMap.has(key)) {
-            albumMap.set(key, []);
-          }
-          albumMap.get(key)!.push(entry);
-        });
+        // Albums grouped by album artist, so compilations the artist appears on are listed once
+        const albumMap = await cacheService.getAlbumsByArtist(artistName);
 
         // Convert to array of albums
-        const albumList = Array.from(albumMap.entries()).map(([albumName, tracks]) => ({
-          albumName,
-          artistName,
+        const albumList = Array.from(albumMap.values()).map(tracks => ({
+          albumName: tracks[0]!.album,
+          artistName: getAlbumArtist(tracks[0]!),
           trackCount: tracks.length,
           tracks,
           albumArt: null // Will be set later with individual fetch
@@ -51,7 +42,7 @@ const ArtistDetailView: React.FC<ArtistDetailViewProps> = ({ artistName, onBack,
             try {
               const firstTrack = album.tracks[0];
               if (firstTrack) {
-                const albumArt = await cacheService.getAlbumArtUrl(firstTrack);
+                const albumArt = await cacheService.getAlbumArtUrl(firstTrack, 'medium');
                 return { ...album, albumArt };
               }
               return { ...album, albumArt: null };
@@ -65,6 +56,9 @@ const ArtistDetailView: React.FC<ArtistDetailViewProps> = ({ artistName, onBack,
 
         const albumsWithArt = await Promise.all(albumsPromises);
         setAlbums(albumsWithArt);
+        // The artist's own tracks, album by album
+        setTracks(sortAlbumTracks(await cacheService.getTracksByArtist(artistName))
+          .sort((a, b) => a.album.localeCompare(b.album)));
       } catch (error) {
         console.error('Error fetching artist albums:', error);
       } finally {
@@ -75,6 +69,9 @@ const ArtistDetailView: React.FC<ArtistDetailViewProps> = ({ artistName, onBack,
     fetchArtistAlbums();
   }, [artistName, cacheService]);
 
+  // Release the album artwork when the albums are replaced or the view closes
+  useEffect(() => () => albums.forEach(album => artworkCache.release(album.albumArt)), [albums]);
+
   const handlePlayAlbum = (album: any) => {
     if (album && album.tracks && album.tracks.length > 0) {
       // Play the first track of the album
@@ -82,6 +79,11 @@ const ArtistDetailView: React.FC<ArtistDetailViewProps> = ({ artistName, onBack,
     }
   };
 
+  const handleTagsSaved = (updated: MusicLibraryEntry[]) => {
+    const byId = new Map(updated.map(track => [track.id, track]));
+    setTracks(previous => previous.map(track => byId.get(track.id) ?? track));
+  };
+
   const handleViewAlbum = (album: any) => {
     // Call the onAlbumSelected prop to navigate to AlbumDetailView
     if (onAlbumSelected) {
@@ -121,10 +123,7 @@ const ArtistDetailView: React.FC<ArtistDetailViewProps> = ({ artistName, onBack,
               className="play-button"
               onClick={async (e) => {
                 e.stopPropagation(); // Prevents the artist card click from firing
-                const allEntries = await cacheService.getAllCachedEntries();
-                const artistEntries = allEntries.filter(entry =>
-                  entry.artist.toLowerCase() === artistName.toLowerCase()
-                );
+                const artistEntries = await cacheService.getTracksByArtist(artistName);
                 let station = await radioStationService
                   .createArtistStation(artistName, artistEntries);
                 const randomIndex = Math.floor(Math.random() * artistEntries.length);
@@ -155,15 +154,62 @@ const ArtistDetailView: React.FC<ArtistDetailViewProps> = ({ artistName, onBack,
                   <div className="track-number">{index + 1}</div>
                   <div className="track-info">
                     <h4>{album.albumName}</h4>
-                    <p className="track-artist">{album.trackCount} tracks</p>
+                    <p className="track-artist">
+                      {album.artistName !== artistName && `${album.artistName} · `}{album.trackCount} tracks
+                    </p>
                   </div>
                   <div className="track-duration"></div>
                 </div>
               ))
             )}
           </div>
+
+          {tracks.length > 0 && (
+            <div className="track-list">
+              <h2>Tracks</h2>
+              {tracks.map((track, index) => (
+                <div key={track.id} className="track-item">
+                  <div className="track-number">{index + 1}</div>
+                  <div className="track-info">
+                    <h4>{track.title}</h4>
+                    <p className="track-artist">{track.album}</p>
+                  </div>
+                  <StarRating
+                    track={track}
+                    onRated={(updated) => setTracks(previous => previous.map(t => t.id === updated.id ? updated : t))}
+                  />
+                  {track.cueKey === undefined && (
+                    <button
+                      className="edit-track-btn"
+                      onClick={() => setEditingTrack(track)}
+                      title="Edit tags"
+                    >
+                      ✎
+                    </button>
+                  )}
+                  {onPlayTrack && (
+                    <button
+                      className="play-track-btn"
+                      onClick={() => onPlayTrack(track)}
+                      title="Play track"
+                    >
+                      ▶
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       </div>
+
+      {editingTrack && (
+        <TagEditor
+          tracks={[editingTrack]}
+          onClose={() => setEditingTrack(null)}
+          onSaved={handleTagsSaved}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,49 @@
+import React, { useState, useEffect } from 'react';
+import { artworkCache } from '../services/artworkCacheService';
+import { ArtworkSize } from '../utils/imageHelpers';
+
+interface ArtworkImageProps {
+  artId?: string | undefined;
+  size?: ArtworkSize;
+  // Shown when there is no artwork record, e.g. a bundled station image
+  fallbackSrc?: string | undefined;
+  alt: string;
+  className?: string;
+  placeholder?: React.ReactNode;
+}
+
+/**
+ * Image for a stored artwork record, holding a reference to its URL while mounted
+ */
+const ArtworkImage: React.FC<ArtworkImageProps> = ({ artId, size = 'medium', fallbackSrc, alt, className, placeholder = null }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!artId) {
+      setUrl(null);
+      return;
+    }
+
+    let acquired: string | null = null;
+    let cancelled = false;
+    artworkCache.acquire(artId, size).then(artUrl => {
+      if (cancelled) {
+        artworkCache.release(artUrl);
+      } else {
+        acquired = artUrl;
+        setUrl(artUrl);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      artworkCache.release(acquired);
+    };
+  }, [artId, size]);
+
+  const src = url ?? fallbackSrc;
+  if (!src) return <>{placeholder}</>;
+  return <img src={src} alt={alt} className={className} />;
+};
+
+export default ArtworkImage;
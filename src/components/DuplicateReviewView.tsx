@@ -0,0 +1,139 @@
+import React, { useState, useEffect } from 'react';
+import { MusicCacheService, MusicLibraryEntry } from '../services/musicCacheService';
+import { DuplicateGroup, DuplicateGroupDetails, duplicateService } from '../services/duplicateService';
+import './LibraryView.css';
+import './DuplicateReviewView.css';
+
+interface DuplicateReviewViewProps {
+  onBack: () => void;
+  onPlayTrack?: (track: MusicLibraryEntry) => void;
+}
+
+const formatDuration = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs < 10 ? '0' : ''}${secs}`;
+};
+
+const getFormat = (track: MusicLibraryEntry): string =>
+  track.filePath.substring(track.filePath.lastIndexOf('.') + 1).toUpperCase();
+
+const getBitrate = (track: MusicLibraryEntry): string =>
+  track.fileSize && track.duration > 0 ? `${Math.round(track.fileSize * 8 / track.duration / 1000)} kbps` : '';
+
+const DuplicateReviewView: React.FC<DuplicateReviewViewProps> = ({ onBack, onPlayTrack }) => {
+  const [groups, setGroups] = useState<DuplicateGroupDetails[]>([]);
+  const [isScanning, setIsScanning] = useState(true);
+
+  const findDuplicates = async () => {
+    setIsScanning(true);
+    try {
+      await MusicCacheService.getInstance().initDB();
+      await duplicateService.detectDuplicates();
+      const details = await duplicateService.getGroupDetails();
+      // Groups still waiting for a decision come first
+      details.sort((a, b) => Number(a.group.reviewed) - Number(b.group.reviewed)
+        || a.tracks[0]!.title.localeCompare(b.tracks[0]!.title));
+      setGroups(details);
+    } catch (error) {
+      console.error('Error finding duplicates:', error);
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  useEffect(() => {
+    findDuplicates();
+  }, []);
+
+  const replaceGroup = (updated: DuplicateGroup) => {
+    setGroups(prev => prev.map(details => details.group.id === updated.id ? { ...details, group: updated } : details));
+  };
+
+  const unreviewedCount = groups.filter(({ group }) => !group.reviewed).length;
+
+  return (
+    <div className="library-view">
+      <div className="library-header">
+        <button className="back-button" onClick={onBack}>
+          ← Back
+        </button>
+        <h1>Duplicates</h1>
+        <p className="library-subtitle">Pick the copy stations should play</p>
+      </div>
+
+      <div className="library-section">
+        <div className="library-section-header">
+          <h2>{isScanning ? 'Finding duplicates...' : `${groups.length} songs with several copies`}</h2>
+          <button className="library-action-button" onClick={findDuplicates} disabled={isScanning}>
+            Scan Again
+          </button>
+        </div>
+        {!isScanning && groups.length === 0 && <p>No duplicates found.</p>}
+        {!isScanning && unreviewedCount > 0 && <p className="library-stat">{unreviewedCount} waiting for review</p>}
+
+        {groups.map(({ group, tracks }) => (
+          <div key={group.id} className={`duplicate-group ${group.dismissed ? 'dismissed' : ''}`}>
+            <div className="duplicate-group-header">
+              <div>
+                <h4>{tracks[0]!.title}</h4>
+                <p className="library-stat">
+                  {tracks[0]!.artist} · matched by {group.matchedBy === 'recording' ? 'MusicBrainz recording' : 'title, artist and length'}
+                  {!group.reviewed && <span className="duplicate-new"> · new</span>}
+                </p>
+              </div>
+              <div className="library-root-actions">
+                {!group.reviewed && !group.dismissed && (
+                  <button
+                    className="library-action-button"
+                    onClick={async () => replaceGroup(await duplicateService.setPreferredCopy(group, group.preferredId))}
+                  >
+                    Keep Choice
+                  </button>
+                )}
+                <button
+                  className="library-action-button danger"
+                  onClick={async () => replaceGroup(await duplicateService.setDismissed(group, !group.dismissed))}
+                >
+                  {group.dismissed ? 'Treat as Duplicates' : 'Not Duplicates'}
+                </button>
+              </div>
+            </div>
+
+            {tracks.map(track => (
+              <label key={track.id} className="duplicate-copy">
+                <input
+                  type="radio"
+                  name={group.id}
+                  checked={track.id === group.preferredId}
+                  disabled={group.dismissed}
+                  onChange={async () => replaceGroup(await duplicateService.setPreferredCopy(group, track.id))}
+                />
+                <div className="duplicate-copy-info">
+                  <span>{track.album}</span>
+                  <span className="duplicate-copy-path" title={track.filePath}>{track.filePath}</span>
+                </div>
+                <span className="library-stat">{getFormat(track)} {getBitrate(track)}</span>
+                <span className="library-stat">{formatDuration(track.duration)}</span>
+                {onPlayTrack && (
+                  <button
+                    className="play-track-btn"
+                    onClick={(e) => {
+                      e.preventDefault();
+                      onPlayTrack(track);
+                    }}
+                    title="Play this copy"
+                  >
+                    ▶
+                  </button>
+                )}
+              </label>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DuplicateReviewView;
@@ -1,6 +1,7 @@
 import React from 'react';
-import { set } from 'idb-keyval';
 import { MusicCacheService } from '../services/musicCacheService';
+import { libraryRootService } from '../services/libraryRootService';
+import { pickDirectory } from '../utils/fileHelpers';
 import './FolderSelectView.css';
 
 interface FolderSelectViewProps {
@@ -24,25 +25,17 @@ const FolderSelectView: React.FC<FolderSelectViewProps> = ({ onFolderSelected })
 // Helper function - will be moved to a utilities file later
 async function doSelectFolder(onFolderSelected: () => void) {
   try {
-    // Check if the File System Access API is supported
-    if (typeof window.showDirectoryPicker === 'undefined') {
-      alert('Your browser does not support the File System Access API. Please use a modern browser like Chrome, Edge, or Opera.')
-      return
-    }
-
     // Open directory picker
-    const folder = await window.showDirectoryPicker({
-      mode: 'read'
-    })
+    const folder = await pickDirectory();
     if(!folder) return;
 
-    saveDirectoryHandle(folder);
+    const root = await libraryRootService.addRoot(folder);
     
     // Initialize cache with the selected directory
     const cacheService = MusicCacheService.getInstance();
     console.log('Initializing cache for folder:', folder.name)
     
-    await cacheService.loadFromFolder(folder);
+    await cacheService.loadFromRoot(root);
 
     // Proceed to radio stations view
     onFolderSelected()
@@ -52,9 +45,4 @@ async function doSelectFolder(onFolderSelected: () => void) {
   }
 }
 
-// Helper function - will be moved to a utilities file later
-async function saveDirectoryHandle(handle: FileSystemDirectoryHandle) {
-  await set("savedDirHandle", handle);
-}
-
-export default FolderSelectView;
\ No newline at end of file
+export default FolderSelectView;
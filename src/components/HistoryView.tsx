@@ -0,0 +1,293 @@
+import React, { useState, useEffect } from 'react';
+import { MusicCacheService, MusicLibraryEntry } from '../services/musicCacheService';
+import { ListenOutcome, ListeningEvent, ListeningSession, groupHistory, listeningHistoryService } from '../services/listeningHistoryService';
+import { ScrobbleFormat, scrobbleExportService } from '../services/scrobbleExportService';
+import './LibraryView.css';
+import './HistoryView.css';
+
+interface HistoryViewProps {
+  onBack: () => void;
+  onPlayTrack?: (track: MusicLibraryEntry) => void;
+  onStartStation?: (track: MusicLibraryEntry) => void;
+  onBuildStation?: (name: string, tracks: MusicLibraryEntry[]) => void;
+}
+
+// Events loaded at a time
+const PAGE_SIZE = 200;
+
+const OUTCOME_LABELS: Record<ListenOutcome, string | null> = {
+  completed: null,
+  skipped: 'Skipped',
+  interrupted: 'Stopped',
+};
+
+const formatTime = (timestamp: number): string =>
+  new Date(timestamp).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+
+const formatDay = (date: number): string => {
+  const today = new Date().setHours(0, 0, 0, 0);
+  if (date === today) return 'Today';
+  // Noon on the previous day, so a daylight saving change doesn't matter
+  if (date === new Date(today - 12 * 60 * 60 * 1000).setHours(0, 0, 0, 0)) return 'Yesterday';
+  return new Date(date).toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
+};
+
+// Value for a date input, in local time
+const toDateInput = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Midnight at the start of a date input's day, or a number of days after it, local time
+const fromDateInput = (value: string, addDays = 0): number => {
+  const [year = 0, month = 1, day = 1] = value.split('-').map(Number);
+  return new Date(year, month - 1, day + addDays).getTime();
+};
+
+const HistoryView: React.FC<HistoryViewProps> = ({ onBack, onPlayTrack, onStartStation, onBuildStation }) => {
+  const [events, setEvents] = useState<ListeningEvent[]>([]);
+  const [tracks, setTracks] = useState<Map<string, MusicLibraryEntry>>(new Map());
+  const [hasMore, setHasMore] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [anchorId, setAnchorId] = useState<number | null>(null);
+  const [exportFrom, setExportFrom] = useState(() => toDateInput(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)));
+  const [exportTo, setExportTo] = useState(() => toDateInput(new Date()));
+  const [exportFormat, setExportFormat] = useState<ScrobbleFormat>('scrobblerLog');
+  const [exportStatus, setExportStatus] = useState<string | null>(null);
+
+  const loadEvents = async (before?: number) => {
+    try {
+      const musicCache = MusicCacheService.getInstance();
+      await musicCache.initDB();
+      const page = await listeningHistoryService.getRecentEvents(PAGE_SIZE, before);
+      const trackIds = Array.from(new Set(page.map(event => event.trackId)));
+      const entries = await Promise.all(trackIds.map(id => musicCache.getEntryById(id)));
+      setTracks(previous => {
+        const next = new Map(previous);
+        entries.forEach(entry => entry && next.set(entry.id, entry));
+        return next;
+      });
+      setEvents(previous => [...previous, ...page]);
+      setHasMore(page.length === PAGE_SIZE);
+    } catch (error) {
+      console.error('Error fetching listening history:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadEvents();
+  }, []);
+
+  const days = groupHistory(events);
+  // Events in the order they're shown, for selecting a range
+  const shownEvents = days.flatMap(day => day.sessions.flatMap(session => [...session.events].reverse()));
+
+  const handleSelect = (event: ListeningEvent, extendRange: boolean) => {
+    const next = new Set(selectedIds);
+    const anchorIndex = anchorId !== null ? shownEvents.findIndex(shown => shown.id === anchorId) : -1;
+    if (extendRange && anchorIndex >= 0) {
+      const index = shownEvents.findIndex(shown => shown.id === event.id);
+      const [start, end] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex];
+      shownEvents.slice(start, end + 1).forEach(shown => next.add(shown.id));
+    } else if (next.has(event.id)) {
+      next.delete(event.id);
+    } else {
+      next.add(event.id);
+    }
+    setSelectedIds(next);
+    setAnchorId(event.id);
+  };
+
+  const handleSelectSession = (session: ListeningSession) => {
+    setSelectedIds(new Set([...selectedIds, ...session.events.map(event => event.id)]));
+  };
+
+  const handleBuildStation = () => {
+    const selected = shownEvents.filter(event => selectedIds.has(event.id)).reverse();
+    const selectedTracks = Array.from(new Map(selected
+      .map(event => tracks.get(event.trackId))
+      .filter((track): track is MusicLibraryEntry => track !== undefined)
+      .map(track => [track.id, track])).values());
+    const first = selected[0];
+    if (!first || selectedTracks.length === 0) return;
+    onBuildStation?.(`Listening from ${formatDay(new Date(first.startedAt).setHours(0, 0, 0, 0))}, ${formatTime(first.startedAt)}`, selectedTracks);
+  };
+
+  const handleExport = async () => {
+    if (!exportFrom || !exportTo) return;
+    try {
+      // The range takes in the whole of its last day
+      const result = await scrobbleExportService.exportScrobbles(exportFormat, fromDateInput(exportFrom), fromDateInput(exportTo, 1) - 1);
+      if (result.scrobbles === 0) {
+        setExportStatus('No scrobbles in that range.');
+        return;
+      }
+      const url = URL.createObjectURL(result.blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = result.fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+      setExportStatus(`Exported ${result.scrobbles} scrobbles.${result.skipped > 0 ? ` ${result.skipped} shorter or untagged listens left out.` : ''}`);
+    } catch (error) {
+      console.error('Error exporting scrobbles:', error);
+      setExportStatus('Failed to export scrobbles.');
+    }
+  };
+
+  return (
+    <div className="library-view history-view">
+      <div className="library-header">
+        <button className="back-button" onClick={onBack}>
+          ← Back
+        </button>
+        <h1>History</h1>
+        <p className="library-subtitle">What you've listened to, by day and session</p>
+      </div>
+
+      <div className="library-section">
+        <div className="library-section-header">
+          <h2>Export Scrobbles</h2>
+        </div>
+        <div className="library-setting">
+          <span>Tracks played past half their length or four minutes, for Last.fm or ListenBrainz</span>
+          <div className="library-root-actions">
+            <input
+              type="date"
+              value={exportFrom}
+              max={exportTo}
+              onChange={(e) => setExportFrom(e.target.value)}
+              className="library-setting-input history-date-input"
+            />
+            <input
+              type="date"
+              value={exportTo}
+              min={exportFrom}
+              onChange={(e) => setExportTo(e.target.value)}
+              className="library-setting-input history-date-input"
+            />
+            <select
+              value={exportFormat}
+              onChange={(e) => setExportFormat(e.target.value as ScrobbleFormat)}
+              className="library-setting-input history-date-input"
+            >
+              <option value="scrobblerLog">.scrobbler.log</option>
+              <option value="listenBrainz">ListenBrainz JSON</option>
+            </select>
+            <button className="library-action-button" onClick={handleExport} disabled={!exportFrom || !exportTo}>
+              Export
+            </button>
+          </div>
+        </div>
+        {exportStatus && <p className="library-stat">{exportStatus}</p>}
+      </div>
+
+      {selectedIds.size > 0 && (
+        <div className="history-selection-bar">
+          <span>{selectedIds.size} selected · shift-click to select a range</span>
+          <div className="library-root-actions">
+            <button className="library-action-button" onClick={handleBuildStation}>
+              Build Station
+            </button>
+            <button className="library-action-button" onClick={() => setSelectedIds(new Set())}>
+              Clear Selection
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="library-section">
+          <p>Loading history...</p>
+        </div>
+      ) : days.length === 0 ? (
+        <div className="library-section">
+          <p>Nothing played yet. Tracks show up here as you listen.</p>
+        </div>
+      ) : (
+        days.map(day => (
+          <div key={day.date} className="library-section">
+            <div className="library-section-header">
+              <h2>{formatDay(day.date)}</h2>
+            </div>
+            {day.sessions.map(session => (
+              <div key={session.startedAt} className="history-session">
+                <div className="history-session-header">
+                  <span>
+                    {formatTime(session.startedAt)} – {formatTime(session.endedAt)} · {session.events.length} tracks
+                  </span>
+                  <button className="history-session-select" onClick={() => handleSelectSession(session)}>
+                    Select
+                  </button>
+                </div>
+                {[...session.events].reverse().map(event => {
+                  const track = tracks.get(event.trackId);
+                  const outcome = OUTCOME_LABELS[event.outcome];
+                  return (
+                    <div key={event.id} className={`track-item history-event ${selectedIds.has(event.id) ? 'selected' : ''}`}>
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(event.id)}
+                        readOnly
+                        onClick={(e) => handleSelect(event, e.shiftKey)}
+                        className="history-event-checkbox"
+                      />
+                      <div className="history-event-time">{formatTime(event.startedAt)}</div>
+                      <div className="track-info">
+                        <h4>
+                          {event.title}
+                          {outcome && <span className={`history-outcome ${event.outcome}`}>{outcome}</span>}
+                        </h4>
+                        <p className="track-artist">
+                          {event.artist}
+                          {event.stationName && <span className="history-station"> · {event.stationName}</span>}
+                          {!track && <span className="history-missing"> · No longer in the library</span>}
+                        </p>
+                      </div>
+                      <div className="library-root-actions">
+                        {onStartStation && (
+                          <button
+                            className="library-action-button"
+                            onClick={() => track && onStartStation(track)}
+                            disabled={!track}
+                            title="Start a station from this track"
+                          >
+                            Station
+                          </button>
+                        )}
+                        {onPlayTrack && (
+                          <button
+                            className="play-track-btn"
+                            onClick={() => track && onPlayTrack(track)}
+                            disabled={!track}
+                            title="Play track"
+                          >
+                            ▶
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        ))
+      )}
+
+      {hasMore && (
+        <div className="library-section">
+          <button
+            className="library-action-button"
+            onClick={() => loadEvents(events[events.length - 1]?.startedAt)}
+          >
+            Show Earlier
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryView;
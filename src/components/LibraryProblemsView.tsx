@@ -0,0 +1,118 @@
+import React, { useState, useEffect } from 'react';
+import { MusicCacheService } from '../services/musicCacheService';
+import { ScanIssue, ScanIssueReason, scanIssueService } from '../services/scanIssueService';
+import { LibraryRoot, libraryRootService } from '../services/libraryRootService';
+import './LibraryView.css';
+import './LibraryProblemsView.css';
+
+interface LibraryProblemsViewProps {
+  onBack: () => void;
+}
+
+const REASON_LABELS: Record<ScanIssueReason, string> = {
+  corrupt: 'Damaged or unreadable header',
+  unsupported: 'Unsupported format or codec',
+  permission: 'Permission denied',
+  unreadable: 'File could not be opened',
+};
+
+const LibraryProblemsView: React.FC<LibraryProblemsViewProps> = ({ onBack }) => {
+  const [issues, setIssues] = useState<ScanIssue[]>([]);
+  const [roots, setRoots] = useState<Map<string, LibraryRoot>>(new Map());
+  const [showIgnored, setShowIgnored] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyIssueId, setBusyIssueId] = useState<string | null>(null);
+
+  const fetchIssues = async () => {
+    try {
+      await MusicCacheService.getInstance().initDB();
+      setIssues(await scanIssueService.getIssues());
+      setRoots(new Map((await libraryRootService.getRoots()).map(root => [root.id, root])));
+    } catch (error) {
+      console.error('Error fetching library problems:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchIssues();
+  }, []);
+
+  const handleRetry = async (issue: ScanIssue) => {
+    setBusyIssueId(issue.id);
+    try {
+      const remaining = await MusicCacheService.getInstance().retryScanIssue(issue);
+      setIssues(prev => remaining
+        ? prev.map(existing => existing.id === issue.id ? remaining : existing)
+        : prev.filter(existing => existing.id !== issue.id));
+    } finally {
+      setBusyIssueId(null);
+    }
+  };
+
+  const handleIgnore = async (issue: ScanIssue) => {
+    const updated = await scanIssueService.setIgnored(issue, !issue.ignored);
+    setIssues(prev => prev.map(existing => existing.id === issue.id ? updated : existing));
+  };
+
+  const ignoredCount = issues.filter(issue => issue.ignored).length;
+  const visible = showIgnored ? issues : issues.filter(issue => !issue.ignored);
+
+  return (
+    <div className="library-view">
+      <div className="library-header">
+        <button className="back-button" onClick={onBack}>
+          ← Back
+        </button>
+        <h1>Library Problems</h1>
+        <p className="library-subtitle">Files that couldn't be added to the library</p>
+      </div>
+
+      <div className="library-section">
+        <div className="library-section-header">
+          <h2>{issues.length - ignoredCount} problems</h2>
+          {ignoredCount > 0 && (
+            <label className="library-stat">
+              <input type="checkbox" checked={showIgnored} onChange={(e) => setShowIgnored(e.target.checked)} />
+              {' '}Show {ignoredCount} ignored
+            </label>
+          )}
+        </div>
+        {isLoading ? (
+          <p>Loading problems...</p>
+        ) : visible.length === 0 ? (
+          <p>Every file scanned cleanly.</p>
+        ) : (
+          visible.map(issue => (
+            <div key={issue.id} className={`library-root-item scan-issue ${issue.ignored ? 'ignored' : ''}`}>
+              <div className="library-root-info">
+                <h4 className="scan-issue-path" title={issue.filePath}>{issue.filePath}</h4>
+                <p className="library-root-details">
+                  <span className="scan-issue-reason">{REASON_LABELS[issue.reason]}</span>
+                  {' · '}{roots.get(issue.rootId)?.name ?? 'Unknown folder'}
+                  {' · '}last seen {issue.lastSeen.toLocaleString()}
+                </p>
+                <p className="scan-issue-message">{issue.message}</p>
+              </div>
+              {busyIssueId === issue.id ? (
+                <span className="library-root-busy">Retrying...</span>
+              ) : (
+                <div className="library-root-actions">
+                  <button className="library-action-button" onClick={() => handleRetry(issue)} disabled={busyIssueId !== null}>
+                    Retry
+                  </button>
+                  <button className="library-action-button danger" onClick={() => handleIgnore(issue)}>
+                    {issue.ignored ? 'Unignore' : 'Ignore'}
+                  </button>
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LibraryProblemsView;
@@ -0,0 +1,512 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ArtworkStorageStats, MusicCacheService } from '../services/musicCacheService';
+import { LibraryRoot, libraryRootService, RootPermissionState } from '../services/libraryRootService';
+import { AppSettings, settingsService } from '../services/settingsService';
+import { backupService, RestoreMode } from '../services/backupService';
+import { scanIssueService } from '../services/scanIssueService';
+import { AnalysisProgress, audioAnalysisService } from '../services/audioAnalysisService';
+import { pickDirectory } from '../utils/fileHelpers';
+import './LibraryView.css';
+
+interface LibraryViewProps {
+  onBack: () => void;
+  onOpenDuplicates?: () => void;
+  onOpenProblems?: () => void;
+}
+
+interface RootRow {
+  root: LibraryRoot;
+  permission: RootPermissionState;
+  trackCount: number;
+}
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+const LibraryView: React.FC<LibraryViewProps> = ({ onBack, onOpenDuplicates, onOpenProblems }) => {
+  const [rows, setRows] = useState<RootRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyRootId, setBusyRootId] = useState<string | null>(null);
+  const [editingRootId, setEditingRootId] = useState<string | null>(null);
+  const [editedName, setEditedName] = useState('');
+  const [settings, setSettings] = useState<AppSettings | null>(null);
+  const [coverFileNames, setCoverFileNames] = useState('');
+  const [artworkStats, setArtworkStats] = useState<ArtworkStorageStats | null>(null);
+  const [storageEstimate, setStorageEstimate] = useState<StorageEstimate | null>(null);
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>('merge');
+  const [backupStatus, setBackupStatus] = useState<string | null>(null);
+  const [issueCount, setIssueCount] = useState(0);
+  const [analysis, setAnalysis] = useState<AnalysisProgress | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(audioAnalysisService.isRunning);
+  const restoreInputRef = useRef<HTMLInputElement>(null);
+  const cacheService = MusicCacheService.getInstance();
+
+  const fetchRoots = async () => {
+    try {
+      const roots = await libraryRootService.getRoots();
+      const rootRows = await Promise.all(roots.map(async (root) => ({
+        root,
+        permission: await libraryRootService.queryPermission(root),
+        trackCount: await cacheService.countEntriesForRoot(root.id)
+      })));
+      setRows(rootRows);
+      await fetchStorage();
+    } catch (error) {
+      console.error('Error fetching library roots:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const fetchStorage = async () => {
+    try {
+      await cacheService.initDB();
+      setArtworkStats(await cacheService.getArtworkStorageStats());
+      setIssueCount(await scanIssueService.countIssues());
+      setAnalysis(await audioAnalysisService.getStatus());
+      if (navigator.storage?.estimate) {
+        setStorageEstimate(await navigator.storage.estimate());
+      }
+    } catch (error) {
+      console.error('Error fetching storage usage:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchRoots();
+    settingsService.getSettings().then(saved => {
+      setSettings(saved);
+      setCoverFileNames(saved.coverFileNames.join(', '));
+    });
+
+    audioAnalysisService.setOnProgress(async (progress) => {
+      setIsAnalyzing(audioAnalysisService.isRunning);
+      setAnalysis(progress ?? await audioAnalysisService.getStatus());
+    });
+    return () => audioAnalysisService.setOnProgress(null);
+  }, []);
+
+  const handleSettingChange = async (updates: Partial<AppSettings>) => {
+    setSettings(await settingsService.updateSettings(updates));
+  };
+
+  const handleSaveCoverFileNames = async () => {
+    const names = coverFileNames.split(',').map(name => name.trim()).filter(name => name.length > 0);
+    await handleSettingChange({ coverFileNames: names });
+    setCoverFileNames(names.join(', '));
+  };
+
+  const handleToggleAudioAnalysis = async (enabled: boolean) => {
+    await handleSettingChange({ analyzeAudio: enabled });
+    if (enabled) {
+      audioAnalysisService.start();
+    } else {
+      audioAnalysisService.stop();
+    }
+  };
+
+  const handleExportBackup = async () => {
+    try {
+      const blob = await backupService.exportBackup();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `radio-backup-${new Date().toISOString().slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+      setBackupStatus('Backup exported.');
+    } catch (error) {
+      console.error('Error exporting backup:', error);
+      setBackupStatus('Failed to export backup.');
+    }
+  };
+
+  const handleRestoreBackup = async (file: File) => {
+    try {
+      const backup = await backupService.readBackup(file);
+      if (restoreMode === 'replace' && !confirm('Replace all stations and settings with the backup?')) return;
+      const report = await backupService.restoreBackup(backup, restoreMode);
+      setBackupStatus(`Restored ${report.stations} stations. ${report.tracksMatched} of ${report.tracksMatched + report.tracksUnmatched} tracks found in this library.`);
+      setSettings(await settingsService.getSettings());
+    } catch (error) {
+      console.error('Error restoring backup:', error);
+      setBackupStatus(error instanceof Error ? error.message : 'Failed to restore backup.');
+    }
+  };
+
+  const handleAddRoot = async () => {
+    try {
+      const folder = await pickDirectory();
+      if (!folder) return;
+      const root = await libraryRootService.addRoot(folder);
+      setBusyRootId(root.id);
+      await fetchRoots();
+      await cacheService.loadFromRoot(root);
+    } catch (error) {
+      console.error('Error adding library folder:', error);
+      alert('Failed to add folder. Please try again.');
+    } finally {
+      setBusyRootId(null);
+      await fetchRoots();
+    }
+  };
+
+  const handleRescan = async (root: LibraryRoot) => {
+    setBusyRootId(root.id);
+    try {
+      if (await libraryRootService.requestPermission(root)) {
+        await cacheService.loadFromRoot(root);
+      }
+    } catch (error) {
+      console.error(`Error rescanning ${root.name}:`, error);
+    } finally {
+      setBusyRootId(null);
+      await fetchRoots();
+    }
+  };
+
+  const handleGrant = async (root: LibraryRoot) => {
+    try {
+      await libraryRootService.requestPermission(root);
+    } catch (error) {
+      console.error(`Error requesting permission for ${root.name}:`, error);
+    }
+    await fetchRoots();
+  };
+
+  const handleRemove = async (root: LibraryRoot) => {
+    if (!confirm(`Remove "${root.name}" and its tracks from the library? Files on disk are not touched.`)) return;
+    setBusyRootId(root.id);
+    try {
+      await libraryRootService.removeRoot(root.id);
+    } catch (error) {
+      console.error(`Error removing ${root.name}:`, error);
+    } finally {
+      setBusyRootId(null);
+      await fetchRoots();
+    }
+  };
+
+  const handleSaveName = async (root: LibraryRoot) => {
+    if (editedName.trim() !== '' && editedName !== root.name) {
+      await libraryRootService.renameRoot(root.id, editedName.trim());
+    }
+    setEditingRootId(null);
+    await fetchRoots();
+  };
+
+  return (
+    <div className="library-view">
+      <div className="library-header">
+        <button className="back-button" onClick={onBack}>
+          ← Back
+        </button>
+        <h1>Library</h1>
+        <p className="library-subtitle">Music folders</p>
+      </div>
+
+      <div className="library-section">
+        <div className="library-section-header">
+          <h2>Folders</h2>
+          <button className="library-action-button" onClick={handleAddRoot} disabled={busyRootId !== null}>
+            + Add Folder
+          </button>
+        </div>
+        {isLoading ? (
+          <p>Loading folders...</p>
+        ) : rows.length === 0 ? (
+          <p>No music folders have been added.</p>
+        ) : (
+          rows.map(({ root, permission, trackCount }) => (
+            <div key={root.id} className="library-root-item">
+              <div className="library-root-info">
+                {editingRootId === root.id ? (
+                  <input
+                    type="text"
+                    value={editedName}
+                    onChange={(e) => setEditedName(e.target.value)}
+                    onBlur={() => handleSaveName(root)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        handleSaveName(root);
+                      }
+                    }}
+                    className="library-root-name-input"
+                    autoFocus
+                  />
+                ) : (
+                  <h4
+                    className="library-root-name"
+                    title="Click to rename"
+                    onClick={() => {
+                      setEditingRootId(root.id);
+                      setEditedName(root.name);
+                    }}
+                  >
+                    {root.name}
+                  </h4>
+                )}
+                <p className="library-root-details">
+                  {trackCount} tracks · {root.lastScanned ? `scanned ${root.lastScanned.toLocaleString()}` : 'never scanned'}
+                  {permission !== 'granted' && <span className="library-root-warning"> · access needed</span>}
+                </p>
+              </div>
+              {busyRootId === root.id ? (
+                <span className="library-root-busy">Working...</span>
+              ) : (
+                <div className="library-root-actions">
+                  {permission !== 'granted' && (
+                    <button className="library-action-button" onClick={() => handleGrant(root)}>
+                      Grant Access
+                    </button>
+                  )}
+                  <button className="library-action-button" onClick={() => handleRescan(root)} disabled={busyRootId !== null}>
+                    Rescan
+                  </button>
+                  <button className="library-action-button danger" onClick={() => handleRemove(root)} disabled={busyRootId !== null}>
+                    Remove
+                  </button>
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+
+      {artworkStats && (
+        <div className="library-section">
+          <div className="library-section-header">
+            <h2>Storage</h2>
+          </div>
+          <div className="library-setting">
+            <span>Artwork</span>
+            <span className="library-stat">
+              {artworkStats.artworkCount} covers · {formatBytes(artworkStats.storedBytes)}
+            </span>
+          </div>
+          <div className="library-setting">
+            <span>Saved by sharing identical covers</span>
+            <span className="library-stat">{formatBytes(artworkStats.savedBytes)}</span>
+          </div>
+          {storageEstimate?.usage !== undefined && (
+            <div className="library-setting">
+              <span>Total used by this app</span>
+              <span className="library-stat">
+                {formatBytes(storageEstimate.usage)}
+                {storageEstimate.quota !== undefined && ` of ${formatBytes(storageEstimate.quota)}`}
+              </span>
+            </div>
+          )}
+        </div>
+      )}
+
+      {onOpenProblems && (
+        <div className="library-section">
+          <div className="library-section-header">
+            <h2>Problems</h2>
+          </div>
+          <div className="library-setting">
+            <span>
+              {issueCount === 0 ? 'Every file scanned cleanly' : `${issueCount} files couldn't be added to the library`}
+            </span>
+            <button className="library-action-button" onClick={onOpenProblems}>
+              Review
+            </button>
+          </div>
+        </div>
+      )}
+
+      {onOpenDuplicates && (
+        <div className="library-section">
+          <div className="library-section-header">
+            <h2>Duplicates</h2>
+          </div>
+          <div className="library-setting">
+            <span>Songs kept in several copies play as one, using the copy you prefer</span>
+            <button className="library-action-button" onClick={onOpenDuplicates}>
+              Review
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="library-section">
+        <div className="library-section-header">
+          <h2>Backup</h2>
+        </div>
+        <div className="library-setting">
+          <span>Stations, favorites, settings and library entries</span>
+          <button className="library-action-button" onClick={handleExportBackup}>
+            Export
+          </button>
+        </div>
+        <div className="library-setting">
+          <span>Restore from a backup file</span>
+          <div className="library-root-actions">
+            <select
+              value={restoreMode}
+              onChange={(e) => setRestoreMode(e.target.value as RestoreMode)}
+              className="library-setting-input"
+            >
+              <option value="merge">Merge</option>
+              <option value="replace">Replace</option>
+            </select>
+            <button className="library-action-button" onClick={() => restoreInputRef.current?.click()}>
+              Import
+            </button>
+            <input
+              ref={restoreInputRef}
+              type="file"
+              accept="application/json,.json"
+              style={{ display: 'none' }}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) {
+                  handleRestoreBackup(file);
+                }
+              }}
+            />
+          </div>
+        </div>
+        {backupStatus && <p className="library-stat">{backupStatus}</p>}
+      </div>
+
+      {settings && (
+        <div className="library-section">
+          <div className="library-section-header">
+            <h2>Scanning</h2>
+          </div>
+          <label className="library-setting">
+            <span>Parallel metadata workers</span>
+            <input
+              type="number"
+              min="1"
+              max="16"
+              value={settings.scanConcurrency}
+              onChange={(e) => {
+                const value = parseInt(e.target.value);
+                if (value > 0) {
+                  handleSettingChange({ scanConcurrency: value });
+                }
+              }}
+              className="library-setting-input"
+            />
+          </label>
+          <label className="library-setting">
+            <span>Folder images used as album art, in priority order</span>
+            <input
+              type="text"
+              value={coverFileNames}
+              onChange={(e) => setCoverFileNames(e.target.value)}
+              onBlur={handleSaveCoverFileNames}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  handleSaveCoverFileNames();
+                }
+              }}
+              className="library-setting-input wide"
+            />
+          </label>
+        </div>
+      )}
+
+      {settings && (
+        <div className="library-section">
+          <div className="library-section-header">
+            <h2>Listening</h2>
+          </div>
+          <div className="library-setting">
+            <span>Count a track as played after this much of it, or this many seconds, whichever comes first</span>
+            <div className="library-root-actions library-threshold">
+              <input
+                type="number"
+                min="1"
+                max="100"
+                value={settings.playThresholdPercent}
+                onChange={(e) => {
+                  const value = parseInt(e.target.value);
+                  if (value > 0 && value <= 100) {
+                    handleSettingChange({ playThresholdPercent: value });
+                  }
+                }}
+                className="library-setting-input"
+                title="Percent of the track"
+              />
+              <span>%</span>
+              <input
+                type="number"
+                min="1"
+                value={settings.playThresholdSeconds}
+                onChange={(e) => {
+                  const value = parseInt(e.target.value);
+                  if (value > 0) {
+                    handleSettingChange({ playThresholdSeconds: value });
+                  }
+                }}
+                className="library-setting-input"
+                title="Seconds"
+              />
+              <span>s</span>
+            </div>
+          </div>
+          <div className="library-setting">
+            <span>How much star ratings favor or hold back tracks on stations</span>
+            <div className="library-root-actions library-threshold">
+              <input
+                type="number"
+                min="0"
+                max="100"
+                value={settings.ratingInfluence}
+                onChange={(e) => {
+                  const value = parseInt(e.target.value);
+                  if (value >= 0 && value <= 100) {
+                    handleSettingChange({ ratingInfluence: value });
+                  }
+                }}
+                className="library-setting-input"
+                title="Percent"
+              />
+              <span>%</span>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {settings && analysis && (
+        <div className="library-section">
+          <div className="library-section-header">
+            <h2>Audio Analysis</h2>
+          </div>
+          <div className="library-setting">
+            <span>
+              {analysis.analyzed} of {analysis.total} tracks analyzed
+              {analysis.currentTrack && <span className="library-stat"> · {analysis.currentTrack}</span>}
+            </span>
+            <button
+              className="library-action-button"
+              onClick={() => isAnalyzing ? audioAnalysisService.stop() : audioAnalysisService.start()}
+              disabled={analysis.analyzed >= analysis.total && !isAnalyzing}
+            >
+              {isAnalyzing ? 'Pause' : 'Start'}
+            </button>
+          </div>
+          <label className="library-setting">
+            <span>Measure loudness, tempo and key of new tracks in the background after each scan</span>
+            <input
+              type="checkbox"
+              checked={settings.analyzeAudio}
+              onChange={(e) => handleToggleAudioAnalysis(e.target.checked)}
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LibraryView;
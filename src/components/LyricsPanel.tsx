@@ -0,0 +1,87 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { AudioTrack } from '../services/musicCacheService';
+import { TrackLyrics, lyricsService } from '../services/lyricsService';
+import { playbackService } from '../services/playbackService';
+import { findCurrentLine } from '../utils/lyricsHelpers';
+import './LyricsPanel.css';
+
+interface LyricsPanelProps {
+  track: AudioTrack | null;
+  onClose: () => void;
+}
+
+const LyricsPanel: React.FC<LyricsPanelProps> = ({ track, onClose }) => {
+  const [lyrics, setLyrics] = useState<TrackLyrics | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [currentLine, setCurrentLine] = useState(-1);
+  const lineRefs = useRef<(HTMLDivElement | null)[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLyrics(null);
+    setCurrentLine(-1);
+    if (!track) return;
+
+    setIsLoading(true);
+    lyricsService.getLyrics(track.id)
+      .then(result => {
+        if (!cancelled) setLyrics(result);
+      })
+      .catch(error => console.error('Error loading lyrics:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [track?.id]);
+
+  // Follow the audio element every frame rather than waiting for timeupdate, which only fires a few times a second
+  useEffect(() => {
+    if (!lyrics?.synced) return;
+    let frame = 0;
+    const follow = () => {
+      setCurrentLine(findCurrentLine(lyrics.lines, playbackService.getProgress()));
+      frame = requestAnimationFrame(follow);
+    };
+    frame = requestAnimationFrame(follow);
+    return () => cancelAnimationFrame(frame);
+  }, [lyrics]);
+
+  useEffect(() => {
+    lineRefs.current[currentLine]?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [currentLine]);
+
+  return (
+    <div className="lyrics-panel">
+      <div className="lyrics-header">
+        <span className="lyrics-title">{track ? track.title : 'Lyrics'}</span>
+        <button className="lyrics-close" onClick={onClose} title="Close lyrics">
+          ✕
+        </button>
+      </div>
+      <div className="lyrics-body">
+        {!track ? (
+          <p className="lyrics-empty">Nothing is playing.</p>
+        ) : isLoading ? (
+          <p className="lyrics-empty">Loading lyrics...</p>
+        ) : !lyrics ? (
+          <p className="lyrics-empty">No lyrics for this track. Add them to its tags or put an .lrc file beside it.</p>
+        ) : (
+          lyrics.lines.map((line, index) => (
+            <div
+              key={index}
+              ref={element => { lineRefs.current[index] = element; }}
+              className={`lyrics-line ${lyrics.synced ? 'synced' : ''} ${index === currentLine ? 'current' : ''}`}
+              onClick={() => line.time !== null && playbackService.seek(line.time)}
+            >
+              {line.text || ' '}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LyricsPanel;
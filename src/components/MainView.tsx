@@ -3,7 +3,8 @@ import SearchView from './SearchView';
 import { AudioTrack, MusicCacheService, MusicLibraryEntry, SearchResult } from '../services/musicCacheService';
 import './MainView.css';
 import { RadioStation, radioStationService } from '../services/radioStationService';
-import { performSearch } from '../services/searchService';
+import { performSearch, releaseSearchResultArt } from '../services/searchService';
+import ArtworkImage from './ArtworkImage';
 
 const cacheService = MusicCacheService.getInstance();
 
@@ -14,9 +15,12 @@ interface MainViewProps {
   onArtistSelected?: (artistName: string) => void;
   onStationSelected?: (stationId: string) => void;
   onCreateNewStation?: () => void;
+  onOpenLibrary?: () => void;
+  onOpenPlaylists?: () => void;
+  onOpenHistory?: () => void;
 }
 
-const MainView: React.FC<MainViewProps> = ({ onPlayTrack, onPlayStation, onAlbumSelected, onArtistSelected, onStationSelected, onCreateNewStation }) => {
+const MainView: React.FC<MainViewProps> = ({ onPlayTrack, onPlayStation, onAlbumSelected, onArtistSelected, onStationSelected, onCreateNewStation, onOpenLibrary, onOpenPlaylists, onOpenHistory }) => {
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
   const [isSearching, setIsSearching] = useState(false);
@@ -89,6 +93,9 @@ const MainView: React.FC<MainViewProps> = ({ onPlayTrack, onPlayStation, onAlbum
     return () => clearTimeout(timeoutId);
   }, [searchQuery]);
 
+  // Release the previous results' artwork when they're replaced or the view closes
+  useEffect(() => () => releaseSearchResultArt(searchResults), [searchResults]);
+
 
   return (
     <div className="radio-stations-view">
@@ -103,6 +110,9 @@ const MainView: React.FC<MainViewProps> = ({ onPlayTrack, onPlayStation, onAlbum
         onArtistSelected={onArtistSelected}
         onStationSelected={onStationSelected}
         onCreateNewStation={onCreateNewStation}
+        onOpenLibrary={onOpenLibrary}
+        onOpenPlaylists={onOpenPlaylists}
+        onOpenHistory={onOpenHistory}
       />
 
       {searchQuery.trim() === '' && !isLoadingSuggestions && <RenderStationTiles suggestedStations={suggestedStations} recentStations={recentStations} favoritedStations={favoritedStations} onPlayStation={onPlayStation} onStationSelected={onStationSelected} />}
@@ -242,9 +252,7 @@ const ScrollableContainer: React.FC<{
             className="radio-station-card"
             onClick={() => onPlayStation && onPlayStation(station)}
           >
-            {station.imagePath && (
-              <img src={station.imagePath} alt={station.name} className="station-image" />
-            )}
+            <ArtworkImage artId={station.imageArtId} fallbackSrc={station.imagePath} alt={station.name} className="station-image" />
             <div className="station-label">{station.name.toUpperCase()}</div>
             <button
               className="station-detail-arrow"
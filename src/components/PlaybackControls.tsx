@@ -1,8 +1,11 @@
-import React from 'react';
-import { AudioTrack } from '../services/musicCacheService';
+import React, { useState } from 'react';
+import { AudioTrack, getRating } from '../services/musicCacheService';
 import { playbackService } from '../services/playbackService';
 import './PlaybackControls.css';
 import { RadioStation } from '../services/radioStationService';
+import { FeedbackVote } from '../services/stationFeedbackService';
+import LyricsPanel from './LyricsPanel';
+import StarRating from './StarRating';
 
 type PlaybackControlsProps = {
   currentTrack: AudioTrack | null;
@@ -16,6 +19,7 @@ type PlaybackControlsProps = {
   onNext: () => void;
   onVolumeChange: (volume: number) => void;
   onStationSelected?: (stationId: string) => void;
+  onFeedback?: (vote: FeedbackVote) => void;
 };
 
 const PlaybackControls: React.FC<PlaybackControlsProps> = ({
@@ -30,7 +34,19 @@ const PlaybackControls: React.FC<PlaybackControlsProps> = ({
   onNext,
   onVolumeChange,
   onStationSelected,
+  onFeedback,
 }) => {
+  const [showLyrics, setShowLyrics] = useState(false);
+  // The thumbs up given to the playing track on the playing station; a thumbs down moves on at once
+  const [likedKey, setLikedKey] = useState<string | null>(null);
+  const feedbackKey = currentTrack && selectedStation ? `${selectedStation.id}/${currentTrack.id}` : null;
+
+  const handleFeedback = (vote: FeedbackVote) => {
+    if (!feedbackKey || !onFeedback) return;
+    setLikedKey(vote === 'up' ? feedbackKey : null);
+    onFeedback(vote);
+  };
+
   // Format time for display
   const formatTime = (seconds: number): string => {
     if (!seconds || seconds < 0) return '0:00';
@@ -61,6 +77,16 @@ const PlaybackControls: React.FC<PlaybackControlsProps> = ({
       const decade = Math.floor(track.year / 10) * 10;
       attributes.push(`Decade: ${decade}s`);
     }
+    if (track.bpm) {
+      attributes.push(`Tempo: ${track.bpm} BPM`);
+    }
+    if (track.musicalKey) {
+      attributes.push(`Key: ${track.musicalKey}`);
+    }
+    const rating = getRating(track);
+    if (rating) {
+      attributes.push(`Rating: ${rating} of 5`);
+    }
 
     return attributes.join('\n');
   };
@@ -96,6 +122,7 @@ const PlaybackControls: React.FC<PlaybackControlsProps> = ({
                 )}
               </div>
             )}
+            {currentTrack && <StarRating track={currentTrack} />}
             {selectedStation && (
               <div
                 className="station-line"
@@ -132,6 +159,32 @@ const PlaybackControls: React.FC<PlaybackControlsProps> = ({
           <button className="control-btn" onClick={onNext}>
             ⏭
           </button>
+          {onFeedback && feedbackKey && (
+            <>
+              <button
+                className={`feedback-btn ${likedKey === feedbackKey ? 'active' : ''}`}
+                onClick={() => handleFeedback('up')}
+                disabled={likedKey === feedbackKey}
+                title="More like this on this station"
+              >
+                👍
+              </button>
+              <button
+                className="feedback-btn"
+                onClick={() => handleFeedback('down')}
+                title="Never play this on this station again"
+              >
+                👎
+              </button>
+            </>
+          )}
+          <button
+            className={`lyrics-toggle ${showLyrics ? 'active' : ''}`}
+            onClick={() => setShowLyrics(!showLyrics)}
+            title="Lyrics"
+          >
+            Lyrics
+          </button>
         </div>
       </div>
       <div className="progress-bar">
@@ -144,6 +197,9 @@ const PlaybackControls: React.FC<PlaybackControlsProps> = ({
         </div>
         <span>{formatTime(duration)}</span>
       </div>
+      {showLyrics && (
+        <LyricsPanel track={currentTrack} onClose={() => setShowLyrics(false)} />
+      )}
     </div>
   );
 };
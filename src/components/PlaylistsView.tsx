@@ -0,0 +1,170 @@
+import React, { useState, useEffect } from 'react';
+import { MusicCacheService, MusicLibraryEntry } from '../services/musicCacheService';
+import { Playlist, UnresolvedReason, playlistService } from '../services/playlistService';
+import StarRating from './StarRating';
+import TagEditor from './TagEditor';
+import './LibraryView.css';
+import './PlaylistsView.css';
+
+interface PlaylistsViewProps {
+  onBack: () => void;
+  onPlayTrack?: (track: MusicLibraryEntry) => void;
+  onPlayPlaylist?: (playlist: Playlist, tracks: MusicLibraryEntry[]) => void;
+  onCreateStation?: (playlist: Playlist, tracks: MusicLibraryEntry[]) => void;
+}
+
+const UNRESOLVED_LABELS: Record<UnresolvedReason, string> = {
+  missing: 'Not in library',
+  ambiguous: 'Matches more than one track',
+  stream: 'Internet stream',
+};
+
+const PlaylistsView: React.FC<PlaylistsViewProps> = ({ onBack, onPlayTrack, onPlayPlaylist, onCreateStation }) => {
+  const [playlists, setPlaylists] = useState<Playlist[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [expandedTracks, setExpandedTracks] = useState<MusicLibraryEntry[]>([]);
+  const [editingTrack, setEditingTrack] = useState<MusicLibraryEntry | null>(null);
+
+  useEffect(() => {
+    const fetchPlaylists = async () => {
+      try {
+        await MusicCacheService.getInstance().initDB();
+        setPlaylists(await playlistService.getPlaylists());
+      } catch (error) {
+        console.error('Error fetching playlists:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchPlaylists();
+  }, []);
+
+  const handleToggle = async (playlist: Playlist) => {
+    if (expandedId === playlist.id) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(playlist.id);
+    setExpandedTracks(await playlistService.getPlaylistTracks(playlist));
+  };
+
+  const handleTagsSaved = (updated: MusicLibraryEntry[]) => {
+    const byId = new Map(updated.map(track => [track.id, track]));
+    setExpandedTracks(previous => previous.map(track => byId.get(track.id) ?? track));
+  };
+
+  const withTracks = async (playlist: Playlist, action?: (playlist: Playlist, tracks: MusicLibraryEntry[]) => void) => {
+    const tracks = await playlistService.getPlaylistTracks(playlist);
+    if (tracks.length > 0) {
+      action?.(playlist, tracks);
+    }
+  };
+
+  return (
+    <div className="library-view">
+      <div className="library-header">
+        <button className="back-button" onClick={onBack}>
+          ← Back
+        </button>
+        <h1>Playlists</h1>
+        <p className="library-subtitle">M3U and PLS playlists found in your library folders</p>
+      </div>
+
+      <div className="library-section">
+        <div className="library-section-header">
+          <h2>{playlists.length} playlists</h2>
+        </div>
+        {isLoading ? (
+          <p>Loading playlists...</p>
+        ) : playlists.length === 0 ? (
+          <p>No playlist files were found. Add .m3u, .m3u8 or .pls files to a library folder and rescan it.</p>
+        ) : (
+          playlists.map(playlist => (
+            <div key={playlist.id} className="playlist-item">
+              <div className="library-root-item">
+                <div className="library-root-info" onClick={() => handleToggle(playlist)}>
+                  <h4 className="playlist-name">{expandedId === playlist.id ? '▾' : '▸'} {playlist.name}</h4>
+                  <p className="library-root-details">
+                    {playlist.trackIds.length} tracks
+                    {playlist.unresolved.length > 0 && (
+                      <span className="playlist-unresolved-count"> · {playlist.unresolved.length} not found</span>
+                    )}
+                    {' · '}{playlist.filePath}
+                  </p>
+                </div>
+                <div className="library-root-actions">
+                  <button
+                    className="library-action-button"
+                    onClick={() => withTracks(playlist, onPlayPlaylist)}
+                    disabled={playlist.trackIds.length === 0}
+                  >
+                    ▶ Play
+                  </button>
+                  <button
+                    className="library-action-button"
+                    onClick={() => withTracks(playlist, onCreateStation)}
+                    disabled={playlist.trackIds.length === 0}
+                  >
+                    Make Station
+                  </button>
+                </div>
+              </div>
+
+              {expandedId === playlist.id && (
+                <div className="playlist-tracks">
+                  {expandedTracks.map((track, index) => (
+                    <div key={`${track.id}-${index}`} className="track-item">
+                      <div className="track-number">{index + 1}</div>
+                      <div className="track-info">
+                        <h4>{track.title}</h4>
+                        <p className="track-artist">{track.artist}</p>
+                      </div>
+                      <StarRating
+                        track={track}
+                        onRated={(updated) => setExpandedTracks(previous => previous.map(t => t.id === updated.id ? updated : t))}
+                      />
+                      {track.cueKey === undefined && (
+                        <button className="edit-track-btn" onClick={() => setEditingTrack(track)} title="Edit tags">
+                          ✎
+                        </button>
+                      )}
+                      {onPlayTrack && (
+                        <button className="play-track-btn" onClick={() => onPlayTrack(track)} title="Play track">
+                          ▶
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                  {playlist.unresolved.length > 0 && (
+                    <>
+                      <h3 className="playlist-unresolved-header">Not found in the library</h3>
+                      {playlist.unresolved.map(entry => (
+                        <div key={entry.position} className="playlist-unresolved-entry">
+                          <span className="playlist-unresolved-location" title={entry.location}>
+                            {entry.title ?? entry.location}
+                          </span>
+                          <span className="playlist-unresolved-reason">{UNRESOLVED_LABELS[entry.reason]}</span>
+                        </div>
+                      ))}
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+
+      {editingTrack && (
+        <TagEditor
+          tracks={[editingTrack]}
+          onClose={() => setEditingTrack(null)}
+          onSaved={handleTagsSaved}
+        />
+      )}
+    </div>
+  );
+};
+
+export default PlaylistsView;
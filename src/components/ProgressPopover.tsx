@@ -1,40 +1,122 @@
 import React from 'react';
+import { SCAN_PHASES, ScanPhase, ScanProgress } from '../services/scanJob';
+import { ScanReport } from '../services/musicCacheService';
+
+export interface ScanSummary {
+  rootName: string;
+  report: ScanReport;
+}
 
 interface ProgressPopoverProps {
-  isVisible: boolean;
-  progress: number;
-  current: number;
-  total: number;
-  message?: string;
+  progress: ScanProgress | null;
+  // Shown once a scan has ended, until dismissed
+  summary?: ScanSummary | null;
+  onCancel?: () => void;
+  onDismissSummary?: () => void;
+  onViewProblems?: () => void;
+  onViewPlaylists?: () => void;
 }
 
-const ProgressPopover: React.FC<ProgressPopoverProps> = ({ 
-  isVisible, 
-  progress, 
-  current, 
-  total,
-  message = "Processing files..."
-}) => {
-  if (!isVisible) {
-    return null;
+const PHASE_LABELS: Record<ScanPhase, string> = {
+  enumerate: 'Finding files',
+  extract: 'Reading tags',
+  art: 'Matching artwork',
+  playlists: 'Importing playlists',
+  stations: 'Building stations',
+};
+
+const formatEta = (seconds: number): string => {
+  if (seconds < 60) return 'less than a minute left';
+  const minutes = Math.round(seconds / 60);
+  return minutes === 1 ? 'about a minute left' : `about ${minutes} minutes left`;
+};
+
+const ProgressPopover: React.FC<ProgressPopoverProps> = ({ progress, summary, onCancel, onDismissSummary, onViewProblems, onViewPlaylists }) => {
+  if (!progress) {
+    if (!summary) {
+      return null;
+    }
+    const { rootName, report } = summary;
+    return (
+      <div className="progress-popover">
+        <div className="progress-content">
+          <div className="progress-message">
+            {report.cancelled ? `Scan of ${rootName} cancelled` : `Scanned ${rootName}`}
+          </div>
+          <div className="progress-text">
+            {report.added} added · {report.updated} updated · {report.relinked} moved · {report.removed} removed
+          </div>
+          <div className={`progress-text ${report.issues > 0 ? 'progress-issues' : ''}`}>
+            {report.issues === 0 ? 'No problems' : `${report.issues} files couldn't be read`}
+          </div>
+          {report.unresolvedPlaylistEntries > 0 && (
+            <div className="progress-text progress-issues">
+              {report.unresolvedPlaylistEntries} playlist entries not found in the library
+            </div>
+          )}
+          <div className="progress-actions">
+            {report.issues > 0 && onViewProblems && (
+              <button className="progress-button" onClick={onViewProblems}>
+                View Problems
+              </button>
+            )}
+            {report.unresolvedPlaylistEntries > 0 && onViewPlaylists && (
+              <button className="progress-button" onClick={onViewPlaylists}>
+                View Playlists
+              </button>
+            )}
+            {onDismissSummary && (
+              <button className="progress-button" onClick={onDismissSummary}>
+                Close
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    );
   }
 
+  const current = progress.phases[progress.phase];
+  const percent = current.total > 0 ? Math.min(100, (current.completed / current.total) * 100) : 0;
+  const phaseIndex = SCAN_PHASES.indexOf(progress.phase);
+
   return (
     <div className="progress-popover">
       <div className="progress-content">
-        <div className="progress-message">{message}</div>
+        <div className="progress-message">
+          Scanning {progress.rootName}: {PHASE_LABELS[progress.phase]}...
+        </div>
         <div className="progress-bar-container">
-          <div 
-            className="progress-bar" 
-            style={{ width: `${progress}%` }}
+          <div
+            className="progress-bar"
+            style={{ width: `${percent}%` }}
           ></div>
         </div>
         <div className="progress-text">
-          {current} of {total} files processed
+          {current.total > 0 ? `${current.completed} of ${current.total}` : `${current.completed} found`}
+          {progress.etaSeconds !== null && ` · ${formatEta(progress.etaSeconds)}`}
         </div>
+        {progress.currentFile && (
+          <div className="progress-file" title={progress.currentFile}>{progress.currentFile}</div>
+        )}
+        <ol className="progress-phases">
+          {SCAN_PHASES.map((phase, index) => (
+            <li key={phase} className={index < phaseIndex ? 'done' : index === phaseIndex ? 'active' : ''}>
+              {PHASE_LABELS[phase]}
+              {index <= phaseIndex && progress.phases[phase].total > 0 && (
+                <span> {progress.phases[phase].completed}/{progress.phases[phase].total}</span>
+              )}
+            </li>
+          ))}
+        </ol>
+        {onCancel && (
+          <button className="progress-button" onClick={onCancel}>
+            Cancel
+          </button>
+        )}
       </div>
     </div>
   );
 };
 
-export default ProgressPopover;
\ No newline at end of file
+export default ProgressPopover;
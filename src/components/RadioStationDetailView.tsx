@@ -1,9 +1,13 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { RadioStation, radioStationService, TrackScore } from '../services/radioStationService';
-import { MusicLibraryEntry } from '../services/musicCacheService';
-import { performSearch } from '../services/searchService';
+import { MANUAL_ATTRIBUTES, RadioStation, radioStationService, TrackScore } from '../services/radioStationService';
+import { MusicLibraryEntry, getRating } from '../services/musicCacheService';
+import { performSearch, releaseSearchResultArt } from '../services/searchService';
+import ArtworkImage from './ArtworkImage';
 import './RadioStationDetailView.css';
 import { SearchResult } from '../services/musicCacheService';
+import { parseBpmRange } from '../utils/tempo';
+import { formatKey, parseKey } from '../utils/musicalKey';
+import { StationFeedback, stationFeedbackService } from '../services/stationFeedbackService';
 
 interface RadioStationDetailViewProps {
   stationId: string;
@@ -20,6 +24,7 @@ const RadioStationDetailView: React.FC<RadioStationDetailViewProps> = ({ station
   const [topTracks, setTopTracks] = useState<TrackScore[]>([]);
   const [isFetchingTracks, setIsFetchingTracks] = useState(false);
   const [maxScore, setMaxScore] = useState(0);
+  const [feedback, setFeedback] = useState<StationFeedback[]>([]);
   const nameInputRef = useRef<HTMLInputElement>(null);
 
   // State for building criteria from tracks
@@ -28,6 +33,12 @@ const RadioStationDetailView: React.FC<RadioStationDetailViewProps> = ({ station
   const [isSearching, setIsSearching] = useState(false);
   const [selectedTracks, setSelectedTracks] = useState<MusicLibraryEntry[]>([]);
 
+  // State for tempo, key and rating criteria, which can't be derived from tracks
+  const [bpmValue, setBpmValue] = useState('');
+  const [keyValue, setKeyValue] = useState('');
+  const [minRating, setMinRating] = useState('');
+  const [tempoKeyError, setTempoKeyError] = useState<string | null>(null);
+
   // Get tooltip for track attributes based on station criteria
   const getTrackAttributesTooltip = (track: MusicLibraryEntry) => {
     if (!track) return '';
@@ -50,10 +61,23 @@ const RadioStationDetailView: React.FC<RadioStationDetailViewProps> = ({ station
       const decade = Math.floor(track.year / 10) * 10;
       attributes.push(`Decade: ${decade}s`);
     }
+    if (track.bpm) {
+      attributes.push(`Tempo: ${track.bpm} BPM`);
+    }
+    if (track.musicalKey) {
+      attributes.push(`Key: ${track.musicalKey}`);
+    }
+    const rating = getRating(track);
+    if (rating) {
+      attributes.push(`Rating: ${rating} of 5`);
+    }
 
     return attributes.join('\n');
   };
 
+  // Release the previous results' artwork when they're replaced or the view closes
+  useEffect(() => () => releaseSearchResultArt(searchResults), [searchResults]);
+
   // Search for results when input changes
   const handleSearchInputChange = async (value: string) => {
     setSearchQuery(value);
@@ -156,6 +180,43 @@ const RadioStationDetailView: React.FC<RadioStationDetailViewProps> = ({ station
     }
   };
 
+  // Set or clear the station's tempo, key and rating criteria; an empty field removes its criterion
+  const saveTempoKeyCriteria = async () => {
+    if (!station) return;
+
+    const bpm = bpmValue.trim();
+    const range = bpm ? parseBpmRange(bpm) : null;
+    if (bpm && !range) {
+      setTempoKeyError('Enter a tempo like 120 or a range like 120-130.');
+      return;
+    }
+    const key = keyValue.trim() ? parseKey(keyValue) : null;
+    if (keyValue.trim() && !key) {
+      setTempoKeyError('Enter a key like A minor, F#m or 8A.');
+      return;
+    }
+    setTempoKeyError(null);
+
+    const criteria = station.criteria.filter(criterion => !MANUAL_ATTRIBUTES.includes(criterion.attribute));
+    if (range) {
+      criteria.push({ attribute: 'bpm', value: range[0] === range[1] ? `${range[0]}` : `${range[0]}-${range[1]}`, weight: 1, requirement: false });
+    }
+    if (key) {
+      criteria.push({ attribute: 'key', value: formatKey(key), weight: 1, requirement: false });
+    }
+    if (minRating) {
+      criteria.push({ attribute: 'rating', value: minRating, weight: 1, requirement: true });
+    }
+
+    try {
+      const updatedStation = await radioStationService.updateStation(station, { criteria });
+      setStation(updatedStation);
+      await fetchTopTracks(updatedStation);
+    } catch (err) {
+      console.error('Error updating tempo and key criteria:', err);
+    }
+  };
+
   useEffect(() => {
     const fetchStationDetails = async () => {
       try {
@@ -163,6 +224,10 @@ const RadioStationDetailView: React.FC<RadioStationDetailViewProps> = ({ station
         if (fetchedStation) {
           setStation(fetchedStation);
           setEditedName(fetchedStation.name);
+          setBpmValue(fetchedStation.criteria.find(criterion => criterion.attribute === 'bpm')?.value ?? '');
+          setKeyValue(fetchedStation.criteria.find(criterion => criterion.attribute === 'key')?.value ?? '');
+          setMinRating(fetchedStation.criteria.find(criterion => criterion.attribute === 'rating')?.value ?? '');
+          setFeedback(await stationFeedbackService.getFeedbackForStation(fetchedStation.id));
           await fetchTopTracks(fetchedStation);
         } else {
           setError('Station not found');
@@ -198,6 +263,20 @@ const RadioStationDetailView: React.FC<RadioStationDetailViewProps> = ({ station
     fetchStationDetails();
   }, [stationId]);
 
+  // Take back feedback; undoing a thumbs down lets the track play on the station again
+  const handleUndoFeedback = async (entry: StationFeedback) => {
+    if (!station) return;
+    try {
+      await stationFeedbackService.removeFeedback(entry.id);
+      setFeedback(previous => previous.filter(other => other.id !== entry.id));
+      if (entry.vote === 'down') {
+        await fetchTopTracks(station);
+      }
+    } catch (err) {
+      console.error('Error removing feedback:', err);
+    }
+  };
+
   const handleSaveName = async () => {
     if (!station || editedName.trim() === '') return;
 
@@ -313,11 +392,14 @@ const RadioStationDetailView: React.FC<RadioStationDetailViewProps> = ({ station
         <div className="radio-station-info-column">
           <div className="radio-station-art-container">
             <div className="radio-station-art-placeholder">
-              {station.imagePath ? (
-                <img src={station.imagePath} alt={`${station.name} station`} className="radio-station-art" />
-              ) : (
-                <span className="radio-station-icon">📻</span>
-              )}
+              <ArtworkImage
+                artId={station.imageArtId}
+                size="full"
+                fallbackSrc={station.imagePath}
+                alt={`${station.name} station`}
+                className="radio-station-art"
+                placeholder={<span className="radio-station-icon">📻</span>}
+              />
             </div>
           </div>
           <button className="play-button" onClick={() => onPlayStation(station)}>
@@ -408,6 +490,41 @@ const RadioStationDetailView: React.FC<RadioStationDetailViewProps> = ({ station
               >
                 Build Station from Selected Tracks
               </button>
+
+              <div className="tempo-key-criteria">
+                <h3>Tempo, Key and Rating</h3>
+                <div className="tempo-key-inputs">
+                  <input
+                    type="text"
+                    value={bpmValue}
+                    onChange={(e) => setBpmValue(e.target.value)}
+                    placeholder="BPM, e.g. 120-130"
+                    className="criteria-input"
+                  />
+                  <input
+                    type="text"
+                    value={keyValue}
+                    onChange={(e) => setKeyValue(e.target.value)}
+                    placeholder="Key, e.g. A minor or 8A"
+                    className="criteria-input"
+                  />
+                  <select
+                    value={minRating}
+                    onChange={(e) => setMinRating(e.target.value)}
+                    className="criteria-input"
+                    title="Only play tracks rated at least this"
+                  >
+                    <option value="">Any rating</option>
+                    {[1, 2, 3, 4, 5].map(stars => (
+                      <option key={stars} value={String(stars)}>{'★'.repeat(stars)}{stars < 5 ? ' or more' : ''}</option>
+                    ))}
+                  </select>
+                  <button onClick={saveTempoKeyCriteria} className="tempo-key-button">
+                    Apply
+                  </button>
+                </div>
+                {tempoKeyError && <p className="tempo-key-error">{tempoKeyError}</p>}
+              </div>
             </div>
           )}
           
@@ -434,6 +551,34 @@ const RadioStationDetailView: React.FC<RadioStationDetailViewProps> = ({ station
             </div>
           )}
 
+          {feedback.length > 0 && (
+            <div className="radio-station-feedback">
+              <h2>Feedback</h2>
+              <ul>
+                {feedback.map(entry => (
+                  <li key={entry.id} className="feedback-item">
+                    <span className="feedback-vote" title={entry.vote === 'up' ? 'Thumbs up' : 'Thumbs down: never played on this station'}>
+                      {entry.vote === 'up' ? '👍' : '👎'}
+                    </span>
+                    <div className="feedback-track">
+                      <div>{entry.title}</div>
+                      <div className="feedback-details">
+                        {entry.artist} · {new Date(entry.createdAt).toLocaleDateString()}
+                      </div>
+                    </div>
+                    <button
+                      className="feedback-undo"
+                      onClick={() => handleUndoFeedback(entry)}
+                      title={entry.vote === 'down' ? 'Let this track play on the station again' : 'Remove this feedback'}
+                    >
+                      Undo
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Top tracks display */}
           <div className="radio-station-top-tracks">
             <h2>Top Tracks</h2>
@@ -1,6 +1,9 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
 import { MusicCacheService, MusicLibraryEntry, AudioTrack, SearchResult, TrackSearchResult, ArtistSearchResult, AlbumSearchResult, AlbumArtEntry } from '../services/musicCacheService';
 import { RadioStation, radioStationService } from '../services/radioStationService';
+import ArtworkImage from './ArtworkImage';
+import TagEditor from './TagEditor';
+import StarRating from './StarRating';
 import './SearchView.css';
 
 interface SearchViewProps {
@@ -14,6 +17,9 @@ interface SearchViewProps {
   onArtistSelected?: ((artistName: string) => void) | undefined;
   onStationSelected?: ((stationId: string) => void) | undefined;
   onCreateNewStation?: (() => void) | undefined;
+  onOpenLibrary?: (() => void) | undefined;
+  onOpenPlaylists?: (() => void) | undefined;
+  onOpenHistory?: (() => void) | undefined;
 }
 
 const SearchView: React.FC<SearchViewProps> = ({
@@ -26,8 +32,24 @@ const SearchView: React.FC<SearchViewProps> = ({
   onAlbumSelected,
   onArtistSelected,
   onStationSelected,
-  onCreateNewStation
+  onCreateNewStation,
+  onOpenLibrary,
+  onOpenPlaylists,
+  onOpenHistory
 }) => {
+  const [editingTrack, setEditingTrack] = useState<MusicLibraryEntry | null>(null);
+  // Tracks changed from here since the results came in. The results belong to the parent,
+  // so edits are laid over them until the next search
+  const [updatedTracks, setUpdatedTracks] = useState<Map<string, MusicLibraryEntry>>(new Map());
+
+  useEffect(() => {
+    setUpdatedTracks(new Map());
+  }, [searchResults]);
+
+  const handleTracksUpdated = (updated: MusicLibraryEntry[]) => {
+    setUpdatedTracks(previous => new Map([...previous, ...updated.map(track => [track.id, track] as const)]));
+  };
+
   return (
     <div className="search-wrapper">
       {/* Search bar at top middle */}
@@ -35,6 +57,15 @@ const SearchView: React.FC<SearchViewProps> = ({
         <button className="create-station-button" onClick={onCreateNewStation}>
           +Station
         </button>
+        <button className="library-button" onClick={onOpenLibrary}>
+          Library
+        </button>
+        <button className="library-button" onClick={onOpenPlaylists}>
+          Playlists
+        </button>
+        <button className="library-button" onClick={onOpenHistory}>
+          History
+        </button>
         <div className="search-input-wrapper">
           <input
             type="text"
@@ -68,25 +99,39 @@ const SearchView: React.FC<SearchViewProps> = ({
           <div className="search-results">
             {searchResults.map((result, index) => {
               switch (result.type) {
-                case 'track':
+                case 'track': {
+                  const track = { ...result, ...updatedTracks.get(result.id) };
                   return (
                     <div key={index} className="search-result-item">
                       <div className="result-image-placeholder">
-                        {result.albumArt ? (
-                          <img src={result.albumArt} alt={`${result.title} album art`} className="result-art" />
+                        {track.albumArt ? (
+                          <img src={track.albumArt} alt={`${track.title} album art`} className="result-art" />
                         ) : (
                           <span className="station-icon">🎵</span>
                         )}
                       </div>
                       <div className="station-info">
-                        <h4>{result.title}</h4>
-                        <p className="station-genre">{result.artist}</p>
-                        <p className="station-listeners">{result.album}</p>
+                        <h4>{track.title}</h4>
+                        <p className="station-genre">{track.artist}</p>
+                        <p className="station-listeners">{track.album}</p>
                       </div>
+                      <StarRating
+                        track={track}
+                        onRated={(updated) => handleTracksUpdated([updated])}
+                      />
+                      {track.cueKey === undefined && (
+                        <button
+                          className="edit-track-btn"
+                          onClick={() => setEditingTrack(track)}
+                          title="Edit tags"
+                        >
+                          ✎
+                        </button>
+                      )}
                       {onPlayTrack && (
                         <button
                           className="play-btn"
-                          onClick={() => onPlayTrack(result)}
+                          onClick={() => onPlayTrack(track)}
                           title="Play track"
                         >
                           ▶
@@ -94,6 +139,7 @@ const SearchView: React.FC<SearchViewProps> = ({
                       )}
                     </div>
                   );
+                }
 
                 case 'artist':
                   return (
@@ -174,11 +220,14 @@ const SearchView: React.FC<SearchViewProps> = ({
                       onClick={() => onStationSelected && onStationSelected(result.stationId)}
                     >
                       <div className="result-image-placeholder">
-                        {result.imagePath ? (
-                          <img src={result.imagePath} alt={`${result.imagePath} station`} className="result-art" />
-                        ) : (
-                          <span className="station-icon">📻</span>
-                        )}
+                        <ArtworkImage
+                          artId={result.imageArtId}
+                          size="small"
+                          fallbackSrc={result.imagePath}
+                          alt={`${result.stationName} station`}
+                          className="result-art"
+                          placeholder={<span className="station-icon">📻</span>}
+                        />
                       </div>
                       <div className="station-info">
                         <h4>📻 {result.stationName}</h4>
@@ -212,6 +261,14 @@ const SearchView: React.FC<SearchViewProps> = ({
           </div>
         )
       ) : null}
+
+      {editingTrack && (
+        <TagEditor
+          tracks={[editingTrack]}
+          onClose={() => setEditingTrack(null)}
+          onSaved={handleTracksUpdated}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,60 @@
+import React, { useState, useEffect } from 'react';
+import { MusicCacheService, MusicLibraryEntry, getRating } from '../services/musicCacheService';
+import './StarRating.css';
+
+interface StarRatingProps {
+  track: MusicLibraryEntry;
+  onRated?: (track: MusicLibraryEntry) => void;
+}
+
+const STARS = [1, 2, 3, 4, 5];
+
+/**
+ * Five clickable stars rating a track. Clicking the track's own rating again clears it, falling
+ * back to the rating in its tags, which is shown dimmed
+ */
+const StarRating: React.FC<StarRatingProps> = ({ track, onRated }) => {
+  const [userRating, setUserRating] = useState(track.userRating);
+  const [hovered, setHovered] = useState(0);
+
+  useEffect(() => {
+    setUserRating(track.userRating);
+  }, [track.id, track.userRating]);
+
+  const handleRate = async (stars: number) => {
+    const rating = stars === userRating ? null : stars;
+    setUserRating(rating ?? undefined);
+    try {
+      const updated = await MusicCacheService.getInstance().setUserRating(track.id, rating);
+      if (updated) onRated?.(updated);
+    } catch (error) {
+      console.error('Error saving rating:', error);
+      setUserRating(track.userRating);
+    }
+  };
+
+  const rating = hovered || getRating({ tagRating: track.tagRating, userRating });
+  return (
+    <div
+      className={`star-rating ${userRating === undefined && !hovered ? 'from-tags' : ''}`}
+      onMouseLeave={() => setHovered(0)}
+      title={userRating !== undefined ? `Rated ${userRating} of 5` : track.tagRating ? `Rated ${track.tagRating} of 5 in the file's tags` : 'Rate this track'}
+    >
+      {STARS.map(stars => (
+        <button
+          key={stars}
+          className={`star ${stars <= rating ? 'filled' : ''}`}
+          onMouseEnter={() => setHovered(stars)}
+          onClick={(e) => {
+            e.stopPropagation();
+            handleRate(stars);
+          }}
+        >
+          {stars <= rating ? '★' : '☆'}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default StarRating;
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { MusicLibraryEntry } from '../services/musicCacheService';
+import { TagEdits, TagWriteReport, tagWriterService } from '../services/tagWriterService';
+import './TagEditor.css';
+
+interface TagEditorProps {
+  tracks: MusicLibraryEntry[];
+  onClose: () => void;
+  onSaved?: (updated: MusicLibraryEntry[]) => void;
+}
+
+type EditableField = 'title' | 'artist' | 'album' | 'genre' | 'year' | 'mood';
+
+const FIELD_LABELS: Record<EditableField, string> = {
+  title: 'Title',
+  artist: 'Artist',
+  album: 'Album',
+  genre: 'Genre',
+  year: 'Year',
+  mood: 'Mood',
+};
+
+// The value shared by every track, or null when they differ
+const getCommonValue = (tracks: MusicLibraryEntry[], field: EditableField): string | null => {
+  const values = new Set(tracks.map(track => field === 'year' ? (track.year ? String(track.year) : '') : track[field]));
+  return values.size === 1 ? values.values().next().value ?? '' : null;
+};
+
+const TagEditor: React.FC<TagEditorProps> = ({ tracks, onClose, onSaved }) => {
+  const editable = tracks.filter(track => tagWriterService.canEdit(track));
+  // Title is per track, so it is only offered when editing a single file
+  const fields: EditableField[] = editable.length === 1
+    ? ['title', 'artist', 'album', 'genre', 'year', 'mood']
+    : ['artist', 'album', 'genre', 'year', 'mood'];
+
+  const [values, setValues] = useState<Partial<Record<EditableField, string>>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [report, setReport] = useState<TagWriteReport | null>(null);
+
+  const handleSave = async () => {
+    const edits: TagEdits = {};
+    for (const [field, value] of Object.entries(values) as [EditableField, string][]) {
+      if (field === 'year') {
+        edits.year = parseInt(value) || 0;
+      } else {
+        edits[field] = value;
+      }
+    }
+    if (Object.keys(edits).length === 0) {
+      onClose();
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (!(await tagWriterService.requestWriteAccess(editable))) {
+        alert('Write access to the music folder is needed to save tags.');
+        return;
+      }
+      const result = await tagWriterService.writeTags(editable, edits);
+      if (result.updated.length > 0) {
+        onSaved?.(result.updated);
+      }
+      if (result.failed.length === 0) {
+        onClose();
+      } else {
+        setReport(result);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="tag-editor-overlay" onClick={onClose}>
+      <div className="tag-editor" onClick={(e) => e.stopPropagation()}>
+        <h2>Edit Tags</h2>
+        <p className="tag-editor-subtitle">
+          {editable.length === 1 ? editable[0]!.fileName : `${editable.length} tracks`}
+          {editable.length < tracks.length && ` · ${tracks.length - editable.length} can't be edited`}
+        </p>
+
+        {fields.map(field => {
+          const common = getCommonValue(editable, field);
+          return (
+            <label key={field} className="tag-editor-field">
+              <span>{FIELD_LABELS[field]}</span>
+              <input
+                type={field === 'year' ? 'number' : 'text'}
+                value={values[field] ?? common ?? ''}
+                placeholder={common === null ? 'Multiple values' : ''}
+                onChange={(e) => setValues(prev => ({ ...prev, [field]: e.target.value }))}
+                className={values[field] !== undefined ? 'edited' : ''}
+              />
+            </label>
+          );
+        })}
+
+        {report && (
+          <div className="tag-editor-errors">
+            <p>Saved {report.updated.length} tracks. {report.failed.length} failed:</p>
+            {report.failed.map(({ track, error }) => (
+              <p key={track.id} className="tag-editor-error">{track.fileName}: {error}</p>
+            ))}
+          </div>
+        )}
+
+        <div className="tag-editor-actions">
+          <button className="tag-editor-cancel" onClick={onClose} disabled={isSaving}>
+            {report ? 'Close' : 'Cancel'}
+          </button>
+          {!report && (
+            <button className="tag-editor-save" onClick={handleSave} disabled={isSaving || editable.length === 0}>
+              {isSaving ? 'Saving...' : 'Save to Files'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TagEditor;
@@ -0,0 +1,105 @@
+import { MusicCacheService } from './musicCacheService';
+import { ArtworkSize } from '../utils/imageHelpers';
+
+// How long an unused URL is kept before revoking, so a view handing artwork to the next one
+// (search result -> album page) doesn't see it revoked in between
+const REVOKE_DELAY_MS = 10000;
+
+interface CachedUrl {
+  key: string;
+  url: string;
+  refs: number;
+  revokeTimer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Hands out one shared object URL per artwork and size, counting references so the URL
+ * is revoked once no view uses it. Every acquire() or retain() must be paired with a release()
+ */
+export class ArtworkCacheService {
+  private byKey = new Map<string, CachedUrl>();
+  private byUrl = new Map<string, CachedUrl>();
+  private pending = new Map<string, Promise<CachedUrl | null>>();
+
+  constructor() {
+  }
+
+  /**
+   * Get a URL for an artwork record at the given size, taking a reference to it
+   */
+  public async acquire(artId: string, size: ArtworkSize = 'full'): Promise<string | null> {
+    const key = `${artId}:${size}`;
+    let cached = this.byKey.get(key) ?? null;
+
+    if (!cached) {
+      // Concurrent requests for the same artwork share a single load
+      let load = this.pending.get(key);
+      if (!load) {
+        load = this.load(key, artId, size).finally(() => this.pending.delete(key));
+        this.pending.set(key, load);
+      }
+      cached = await load;
+    }
+    if (!cached) return null;
+
+    this.take(cached);
+    return cached.url;
+  }
+
+  /**
+   * Take another reference to a URL handed out by acquire(), e.g. when passing it to another view.
+   * URLs this cache didn't create are ignored
+   */
+  public retain(url: string | null | undefined): void {
+    const cached = url ? this.byUrl.get(url) : undefined;
+    if (cached) {
+      this.take(cached);
+    }
+  }
+
+  /**
+   * Drop a reference taken by acquire() or retain(). URLs this cache didn't create are ignored
+   */
+  public release(url: string | null | undefined): void {
+    const cached = url ? this.byUrl.get(url) : undefined;
+    if (!cached || cached.refs === 0) return;
+
+    cached.refs--;
+    if (cached.refs === 0) {
+      cached.revokeTimer = setTimeout(() => this.revoke(cached), REVOKE_DELAY_MS);
+    }
+  }
+
+  private async load(key: string, artId: string, size: ArtworkSize): Promise<CachedUrl | null> {
+    try {
+      const blob = await MusicCacheService.getInstance().getArtworkBlob(artId, size);
+      if (!blob) return null;
+
+      const cached: CachedUrl = { key, url: URL.createObjectURL(blob), refs: 0, revokeTimer: null };
+      this.byKey.set(key, cached);
+      this.byUrl.set(cached.url, cached);
+      return cached;
+    } catch (error) {
+      console.error(`Error loading artwork ${artId}:`, error);
+      return null;
+    }
+  }
+
+  private take(cached: CachedUrl): void {
+    cached.refs++;
+    if (cached.revokeTimer) {
+      clearTimeout(cached.revokeTimer);
+      cached.revokeTimer = null;
+    }
+  }
+
+  private revoke(cached: CachedUrl): void {
+    if (cached.refs > 0) return;
+    URL.revokeObjectURL(cached.url);
+    this.byKey.delete(cached.key);
+    this.byUrl.delete(cached.url);
+  }
+}
+
+// Singleton instance
+export const artworkCache = new ArtworkCacheService();
@@ -0,0 +1,236 @@
+import { MusicCacheService, MusicLibraryEntry, TrackLoudness } from './musicCacheService';
+import { loadAudioFileFromTrack } from '../utils/fileHelpers';
+import { REPLAYGAIN_REFERENCE_LUFS, combineLoudness } from '../utils/loudness';
+import { formatKey } from '../utils/musicalKey';
+import type { AudioAnalysisRequest, AudioAnalysisResponse, AudioAnalysisResult } from '../workers/audioAnalysisWorker';
+
+export interface AnalysisProgress {
+  analyzed: number;
+  total: number;
+  currentTrack: string | null;
+}
+
+// Decoding happens at the rate the BS.1770 filters were specified for
+const ANALYSIS_SAMPLE_RATE = 48000;
+// A decoded hour of stereo is over a gigabyte, so longer files are left alone. That includes
+// the big files behind CUE sheets, whose tracks would each need the whole file decoded
+const MAX_ANALYSIS_SECONDS = 20 * 60;
+// Rest between tracks so analysis stays in the background
+const TRACK_INTERVAL_MS = 2000;
+// How often to check whether a library scan has finished
+const SCAN_WAIT_MS = 5000;
+
+const toDb = (amplitude: number): number | null => amplitude > 0 ? 20 * Math.log10(amplitude) : null;
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const needsLoudness = (entry: MusicLibraryEntry) => !entry.loudness;
+// Tempo and key are only estimated when the tags don't give both
+const needsTempoKey = (entry: MusicLibraryEntry) =>
+  entry.tempoKeyAnalyzedAt === undefined && (entry.bpm === undefined || entry.musicalKey === undefined);
+const needsAnalysis = (entry: MusicLibraryEntry) => needsLoudness(entry) || needsTempoKey(entry);
+
+/**
+ * Background job measuring loudness and estimating tempo and key for tracks that need them, one
+ * at a time. Results are written per track as they come in, so stopping and starting again
+ * carries on with the tracks left
+ */
+export class AudioAnalysisService {
+  private running = false;
+  private stopRequested = false;
+  private worker: Worker | null = null;
+  private onProgressCallback: ((progress: AnalysisProgress | null) => void) | null = null;
+
+  constructor() {
+  }
+
+  public get isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Start analyzing, unless already running. Resolves once every track is done or stop() is called
+   */
+  public async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    this.stopRequested = false;
+    const musicCache = MusicCacheService.getInstance();
+
+    try {
+      await musicCache.initDB();
+      let progress = await this.getStatus();
+      // IDs of the tracks left to analyze, refilled once worked through in case a scan added more
+      let pending: string[] = [];
+      while (!this.stopRequested) {
+        // Scans rewrite entries, and both compete for the disk
+        if (musicCache.isScanning) {
+          await sleep(SCAN_WAIT_MS);
+          continue;
+        }
+
+        if (pending.length === 0) {
+          pending = (await musicCache.getAllCachedEntries()).filter(needsAnalysis).map(entry => entry.id);
+          if (pending.length === 0) break;
+        }
+        // A scan may have removed or rewritten the track since the list was made
+        const track = await musicCache.getEntryById(pending.shift()!);
+        if (!track || !needsAnalysis(track)) continue;
+
+        this.onProgressCallback?.({ ...progress, currentTrack: track.title });
+        await this.analyzeTrack(track);
+        progress = { ...progress, analyzed: progress.analyzed + 1 };
+        this.onProgressCallback?.({ ...progress, currentTrack: null });
+        await sleep(TRACK_INTERVAL_MS);
+      }
+    } catch (error) {
+      console.error('Audio analysis stopped:', error);
+    } finally {
+      this.worker?.terminate();
+      this.worker = null;
+      this.running = false;
+      this.onProgressCallback?.(null);
+    }
+  }
+
+  /**
+   * Stop after the track being analyzed
+   */
+  public stop(): void {
+    this.stopRequested = true;
+  }
+
+  /**
+   * How many tracks have been analyzed so far
+   */
+  public async getStatus(): Promise<AnalysisProgress> {
+    const entries = await MusicCacheService.getInstance().getAllCachedEntries();
+    return {
+      analyzed: entries.filter(entry => !needsAnalysis(entry)).length,
+      total: entries.length,
+      currentTrack: null
+    };
+  }
+
+  public setOnProgress(callback: ((progress: AnalysisProgress | null) => void) | null): void {
+    this.onProgressCallback = callback;
+  }
+
+  private async analyzeTrack(track: MusicLibraryEntry): Promise<void> {
+    const request = { loudness: needsLoudness(track), tempoKey: needsTempoKey(track) };
+    let result: AudioAnalysisResult | null = null;
+    if (track.cueStart === undefined && track.duration <= MAX_ANALYSIS_SECONDS) {
+      try {
+        result = await this.analyzeFile(track, request);
+      } catch (error) {
+        console.error(`Error analyzing ${track.filePath}:`, error);
+      }
+    }
+
+    // The file may have been rescanned while it was being analyzed
+    const musicCache = MusicCacheService.getInstance();
+    const current = await musicCache.getEntryById(track.id);
+    if (!current || current.modifiedTime !== track.modifiedTime || current.fileSize !== track.fileSize) return;
+
+    const updated: MusicLibraryEntry = { ...current };
+    if (request.loudness) {
+      const measurement = result?.loudness ?? null;
+      const loudness: TrackLoudness = {
+        integratedLufs: measurement?.integratedLufs ?? null,
+        truePeakDb: measurement ? toDb(measurement.truePeak) : null,
+        trackGainDb: measurement?.integratedLufs != null ? REPLAYGAIN_REFERENCE_LUFS - measurement.integratedLufs : null,
+        analyzedAt: Date.now()
+      };
+      updated.loudness = loudness;
+      // Tags win over measurements; the gain is stored as a power ratio like the tagged value
+      if (updated.replayGainTrackGain === undefined && loudness.trackGainDb !== null) {
+        updated.replayGainTrackGain = Math.pow(10, loudness.trackGainDb / 10);
+      }
+      if (updated.replayGainTrackPeak === undefined && measurement && measurement.truePeak > 0) {
+        updated.replayGainTrackPeak = measurement.truePeak;
+      }
+    }
+    if (request.tempoKey) {
+      updated.tempoKeyAnalyzedAt = Date.now();
+      if (updated.bpm === undefined && result?.bpm) {
+        updated.bpm = result.bpm;
+      }
+      if (updated.musicalKey === undefined && result?.musicalKey) {
+        updated.musicalKey = formatKey(result.musicalKey);
+      }
+    }
+    await musicCache.updateEntries([updated]);
+    if (request.loudness) {
+      await this.updateAlbum(updated);
+    }
+  }
+
+  /**
+   * Decode a file and analyze it on the worker
+   */
+  private async analyzeFile(track: MusicLibraryEntry, request: Pick<AudioAnalysisRequest, 'loudness' | 'tempoKey'>): Promise<AudioAnalysisResult | null> {
+    const file = await loadAudioFileFromTrack({ ...track, albumArt: null });
+    if (!file) return null;
+
+    const context = new OfflineAudioContext(1, 1, ANALYSIS_SAMPLE_RATE);
+    const audio = await context.decodeAudioData(await file.arrayBuffer());
+    const channels: Float32Array[] = [];
+    for (let channel = 0; channel < audio.numberOfChannels; channel++) {
+      channels.push(audio.getChannelData(channel));
+    }
+    return await this.runWorker({ ...request, channels, sampleRate: audio.sampleRate });
+  }
+
+  private runWorker(request: AudioAnalysisRequest): Promise<AudioAnalysisResult> {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('../workers/audioAnalysisWorker.ts', import.meta.url), { type: 'module' });
+    }
+    const worker = this.worker;
+    return new Promise((resolve, reject) => {
+      worker.onmessage = (event: MessageEvent<AudioAnalysisResponse>) => {
+        if (event.data.result) {
+          resolve(event.data.result);
+        } else {
+          reject(new Error(event.data.error));
+        }
+      };
+      worker.onerror = (event) => {
+        // A crashed worker is replaced for the next track
+        this.worker?.terminate();
+        this.worker = null;
+        reject(new Error(event.message || 'Audio analysis worker crashed'));
+      };
+      // The decoded channels are only needed by the worker, so they're moved rather than copied
+      worker.postMessage(request, { transfer: request.channels.map(channel => channel.buffer as ArrayBuffer) });
+    });
+  }
+
+  /**
+   * Once every track on the track's album has been measured, store the album's gain and peak
+   * on each of them. Untagged albums are a mix of unrelated tracks, so they're skipped
+   */
+  private async updateAlbum(track: MusicLibraryEntry): Promise<void> {
+    if (!track.album || track.album === 'Unknown Album') return;
+
+    const musicCache = MusicCacheService.getInstance();
+    const albumTracks = await musicCache.getAlbumTracks(track.albumArtistKey, track.albumKey);
+    if (albumTracks.some(needsLoudness)) return;
+
+    const measured = albumTracks.filter(albumTrack => albumTrack.loudness!.integratedLufs !== null);
+    const albumLufs = combineLoudness(measured.map(albumTrack => ({
+      integratedLufs: albumTrack.loudness!.integratedLufs!,
+      duration: albumTrack.duration
+    })));
+    if (albumLufs === null) return;
+
+    const peaks = measured.map(albumTrack => albumTrack.loudness!.truePeakDb).filter((peak): peak is number => peak !== null);
+    const albumGainDb = REPLAYGAIN_REFERENCE_LUFS - albumLufs;
+    const albumPeakDb = peaks.length > 0 ? Math.max(...peaks) : undefined;
+    await musicCache.updateEntries(albumTracks.map(albumTrack => ({
+      ...albumTrack,
+      loudness: { ...albumTrack.loudness!, albumGainDb, albumPeakDb }
+    })));
+  }
+}
+
+// Singleton instance
+export const audioAnalysisService = new AudioAnalysisService();
@@ -0,0 +1,335 @@
+import { IndexKeyField, MusicCacheService, MusicLibraryEntry, normalizeKey } from './musicCacheService';
+import { RadioStation, radioStationService } from './radioStationService';
+import { libraryRootService } from './libraryRootService';
+import { AppSettings, settingsService } from './settingsService';
+import { TrackPlayStats, playStatsService } from './playStatsService';
+import { ListeningEvent, listeningHistoryService } from './listeningHistoryService';
+import { StationFeedback, stationFeedbackService } from './stationFeedbackService';
+
+const BACKUP_FORMAT = 'radio-library-backup';
+const BACKUP_VERSION = 1;
+
+// Tracks whose durations differ by more than this (in seconds) are never matched by tags
+const DURATION_TOLERANCE = 2;
+
+// Library entry as written to a backup. Index keys and artwork links are left out: on restore,
+// tracks are matched to the current library rather than written back
+export type BackupTrack = Omit<MusicLibraryEntry, IndexKeyField | 'artId' | 'folderArtKey' | 'legacyPath'>;
+
+export interface LibraryBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  settings: AppSettings;
+  // Directory handles can't be serialized, so roots are matched to the current library by ID or name
+  roots: { id: string; name: string }[];
+  tracks: BackupTrack[];
+  stations: RadioStation[];
+  // Play and skip counts of the backed-up tracks, under the tracks' IDs
+  playStats: TrackPlayStats[];
+  // Every listening event; each keeps the tags it played with, so unmatched tracks still read right
+  history: ListeningEvent[];
+  // Thumbs up and down given on the backed-up stations, including the bans
+  feedback: StationFeedback[];
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestoreReport {
+  stations: number;
+  tracksMatched: number;
+  tracksUnmatched: number;
+}
+
+export class BackupService {
+  constructor() {
+  }
+
+  /**
+   * Collect stations with their feedback, favorites, settings, library entries, play counts and
+   * listening history into a versioned backup
+   */
+  public async createBackup(): Promise<LibraryBackup> {
+    const cacheService = MusicCacheService.getInstance();
+    const roots = await libraryRootService.getRoots();
+    const tracks = (await cacheService.getAllCachedEntries()).map(toBackupTrack);
+    // Statistics outlive their entries, but those of tracks no longer in the library can't be matched on restore
+    const trackIds = new Set(tracks.map(track => track.id));
+    const stations = (await radioStationService.getAllStations()).filter(station => !station.isTemporary);
+    const stationIds = new Set(stations.map(station => station.id));
+
+    return {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      exportedAt: new Date().toISOString(),
+      settings: await settingsService.getSettings(),
+      roots: roots.map(root => ({ id: root.id, name: root.name })),
+      tracks,
+      stations,
+      playStats: (await playStatsService.getAllStats()).filter(stats => trackIds.has(stats.trackId)),
+      history: await listeningHistoryService.getEvents(),
+      feedback: (await stationFeedbackService.getAllFeedback()).filter(feedback => stationIds.has(feedback.stationId))
+    };
+  }
+
+  /**
+   * Serialize a backup to a JSON file for download
+   */
+  public async exportBackup(): Promise<Blob> {
+    const backup = await this.createBackup();
+    return new Blob([JSON.stringify(backup)], { type: 'application/json' });
+  }
+
+  /**
+   * Parse and validate a backup file. Throws if the file isn't a backup this version can read
+   */
+  public async readBackup(file: Blob): Promise<LibraryBackup> {
+    let backup: LibraryBackup;
+    try {
+      backup = JSON.parse(await file.text());
+    } catch {
+      throw new Error('The file is not valid JSON');
+    }
+
+    if (!backup || backup.format !== BACKUP_FORMAT) {
+      throw new Error('The file is not a library backup');
+    }
+    if (typeof backup.version !== 'number' || backup.version > BACKUP_VERSION) {
+      throw new Error(`Backup version ${backup.version} is newer than this app supports`);
+    }
+
+    return {
+      ...backup,
+      roots: backup.roots || [],
+      tracks: backup.tracks || [],
+      stations: (backup.stations || []).map(reviveStationDates),
+      playStats: backup.playStats || [],
+      history: backup.history || [],
+      feedback: backup.feedback || []
+    };
+  }
+
+  /**
+   * Restore a backup into the current database. `replace` discards existing stations first;
+   * `merge` keeps them, combining favorites and play dates with those in the backup.
+   * Backed-up tracks are matched to the current library by path, then by tags, and get their
+   * ratings, play counts, listening history and station feedback back
+   */
+  public async restoreBackup(backup: LibraryBackup, mode: RestoreMode): Promise<RestoreReport> {
+    const cacheService = MusicCacheService.getInstance();
+    await cacheService.initDB();
+
+    const trackIds = await this.matchTracks(backup);
+
+    let stations = backup.stations;
+    if (mode === 'merge') {
+      const existing = new Map((await radioStationService.getAllStations()).map(station => [station.id, station]));
+      stations = stations.map(station => {
+        const current = existing.get(station.id);
+        return current ? mergeStation(current, station) : station;
+      });
+    }
+    await radioStationService.restoreStations(stations, mode === 'replace');
+
+    await this.restoreRatings(backup, trackIds, mode);
+    await this.restorePlayStats(backup, trackIds, mode);
+    await this.restoreHistory(backup, trackIds, mode);
+    await this.restoreFeedback(backup, trackIds, mode);
+
+    // Settings are only taken on replace; worker count depends on the machine, so it isn't carried over
+    if (mode === 'replace' && backup.settings) {
+      const { scanConcurrency, ...portableSettings } = backup.settings;
+      await settingsService.updateSettings(portableSettings);
+    }
+
+    const report: RestoreReport = {
+      stations: stations.length,
+      tracksMatched: trackIds.size,
+      tracksUnmatched: backup.tracks.length - trackIds.size
+    };
+    console.log(`Restored backup: ${report.stations} stations, ${report.tracksMatched} tracks matched, ${report.tracksUnmatched} not found`);
+    return report;
+  }
+
+  /**
+   * Put ratings given in the app back on the matched tracks. Merging keeps ratings given since
+   */
+  private async restoreRatings(backup: LibraryBackup, trackIds: Map<string, string>, mode: RestoreMode): Promise<void> {
+    const cacheService = MusicCacheService.getInstance();
+    const updated: MusicLibraryEntry[] = [];
+    for (const track of backup.tracks) {
+      const entryId = trackIds.get(track.id);
+      if (track.userRating === undefined || !entryId) continue;
+      const entry = await cacheService.getEntryById(entryId);
+      if (entry && (mode === 'replace' || entry.userRating === undefined)) {
+        updated.push({ ...entry, userRating: track.userRating });
+      }
+    }
+    await cacheService.updateEntries(updated);
+  }
+
+  /**
+   * Put play statistics back under the matched tracks' IDs. Merging combines them with the
+   * current ones, so restoring the same backup twice doesn't count plays twice
+   */
+  private async restorePlayStats(backup: LibraryBackup, trackIds: Map<string, string>, mode: RestoreMode): Promise<void> {
+    let restored = backup.playStats.flatMap(stats => {
+      const trackId = trackIds.get(stats.trackId);
+      return trackId ? [{ ...stats, trackId }] : [];
+    });
+    if (mode === 'merge') {
+      const current = await playStatsService.getStatsForTracks(restored.map(stats => stats.trackId));
+      restored = restored.map(stats => {
+        const existing = current.get(stats.trackId);
+        return existing ? mergePlayStats(existing, stats) : stats;
+      });
+    }
+    await playStatsService.restoreStats(restored, mode === 'replace');
+  }
+
+  /**
+   * Add the backed-up listening events, pointing at the matched tracks. Events for tracks that
+   * weren't matched are kept under their old IDs. Merging skips events already in the history
+   */
+  private async restoreHistory(backup: LibraryBackup, trackIds: Map<string, string>, mode: RestoreMode): Promise<void> {
+    let restored = backup.history.map(({ id, ...event }) => ({ ...event, trackId: trackIds.get(event.trackId) ?? event.trackId }));
+    if (mode === 'merge') {
+      const eventKey = (event: Pick<ListeningEvent, 'trackId' | 'startedAt'>) => `${event.startedAt}|${event.trackId}`;
+      const existing = new Set((await listeningHistoryService.getEvents()).map(eventKey));
+      restored = restored.filter(event => !existing.has(eventKey(event)));
+    }
+    await listeningHistoryService.restoreEvents(restored, mode === 'replace');
+  }
+
+  /**
+   * Add the backed-up station feedback, pointing at the matched tracks so bans keep applying.
+   * Feedback on tracks that weren't matched is kept under their old IDs. Merging skips feedback
+   * the station already has
+   */
+  private async restoreFeedback(backup: LibraryBackup, trackIds: Map<string, string>, mode: RestoreMode): Promise<void> {
+    let restored = backup.feedback.map(({ id, ...feedback }) => ({ ...feedback, trackId: trackIds.get(feedback.trackId) ?? feedback.trackId }));
+    if (mode === 'merge') {
+      const feedbackKey = (feedback: Pick<StationFeedback, 'stationId' | 'trackId' | 'createdAt'>) =>
+        `${feedback.stationId}|${feedback.createdAt}|${feedback.trackId}`;
+      const existing = new Set((await stationFeedbackService.getAllFeedback()).map(feedbackKey));
+      restored = restored.filter(feedback => !existing.has(feedbackKey(feedback)));
+    }
+    await stationFeedbackService.restoreFeedback(restored, mode === 'replace');
+  }
+
+  /**
+   * Map backed-up track IDs to entries in the current library. A track matches the entry at
+   * the same path in the corresponding root, then the same path in any root, then the entry
+   * with the same title, artist and album and a near-identical duration. Tracks of a file cut
+   * up by a CUE sheet share its path, so they're told apart by where they start
+   */
+  public async matchTracks(backup: LibraryBackup): Promise<Map<string, string>> {
+    const entries = await MusicCacheService.getInstance().getAllCachedEntries();
+    const roots = await libraryRootService.getRoots();
+
+    // Roots are the same if they have the same ID (same browser profile) or the same folder name
+    const rootIds = new Map<string, string>();
+    for (const backupRoot of backup.roots) {
+      const root = roots.find(r => r.id === backupRoot.id)
+        ?? roots.find(r => normalizeKey(r.name) === normalizeKey(backupRoot.name));
+      if (root) {
+        rootIds.set(backupRoot.id, root.id);
+      }
+    }
+
+    const byRootPath = new Map<string, MusicLibraryEntry>();
+    const byPath = new Map<string, MusicLibraryEntry[]>();
+    const byTags = new Map<string, MusicLibraryEntry[]>();
+    for (const entry of entries) {
+      byRootPath.set(`${entry.rootId}/${getPathKey(entry)}`, entry);
+      byPath.set(getPathKey(entry), [...(byPath.get(getPathKey(entry)) || []), entry]);
+      const tagKey = getTagKey(entry);
+      byTags.set(tagKey, [...(byTags.get(tagKey) || []), entry]);
+    }
+
+    const matched = new Map<string, string>();
+    const claimed = new Set<string>();
+    const claim = (track: BackupTrack, entry: MusicLibraryEntry | undefined): boolean => {
+      if (!entry || claimed.has(entry.id)) return false;
+      matched.set(track.id, entry.id);
+      claimed.add(entry.id);
+      return true;
+    };
+
+    for (const track of backup.tracks) {
+      const rootId = rootIds.get(track.rootId);
+      if (rootId && claim(track, byRootPath.get(`${rootId}/${getPathKey(track)}`))) continue;
+
+      const samePath = (byPath.get(getPathKey(track)) || []).filter(entry => !claimed.has(entry.id));
+      if (samePath.length === 1 && claim(track, samePath[0])) continue;
+
+      const sameTags = (byTags.get(getTagKey(track)) || [])
+        .filter(entry => !claimed.has(entry.id) && Math.abs(entry.duration - track.duration) <= DURATION_TOLERANCE);
+      claim(track, sameTags[0]);
+    }
+
+    return matched;
+  }
+}
+
+function toBackupTrack(entry: MusicLibraryEntry): BackupTrack {
+  const {
+    artistKey, albumKey, albumArtistKey, moodKey, genreTokens, decade, searchWords,
+    artId, folderArtKey, legacyPath,
+    ...track
+  } = entry;
+  return track;
+}
+
+function getPathKey(track: Pick<MusicLibraryEntry, 'filePath' | 'cueStart'>): string {
+  return `${track.filePath}#${track.cueStart ?? 0}`;
+}
+
+function getTagKey(track: Pick<MusicLibraryEntry, 'title' | 'artist' | 'album'>): string {
+  return [track.title, track.artist, track.album].map(normalizeKey).join('|');
+}
+
+function reviveStationDates(station: RadioStation): RadioStation {
+  const toDate = (value: Date | string | null | undefined) => value ? new Date(value) : null;
+  return {
+    ...station,
+    createdAt: new Date(station.createdAt),
+    updatedAt: new Date(station.updatedAt),
+    lastPlayed: toDate(station.lastPlayed),
+    favoritedAt: toDate(station.favoritedAt)
+  };
+}
+
+/**
+ * Combine a station from a backup with the local copy: the more recently edited definition
+ * wins, and the station stays a favorite and keeps its latest play date from either side
+ */
+function mergeStation(current: RadioStation, restored: RadioStation): RadioStation {
+  const newer = restored.updatedAt > current.updatedAt ? restored : current;
+  const latest = (a: Date | null | undefined, b: Date | null | undefined) => (a && b ? (a > b ? a : b) : a || b || null);
+  return {
+    ...newer,
+    lastPlayed: latest(current.lastPlayed, restored.lastPlayed),
+    favoritedAt: current.favoritedAt || restored.favoritedAt || null
+  };
+}
+
+/**
+ * Combine a track's statistics from a backup with the local ones, taking the higher of each
+ * count and the widest span of play dates
+ */
+function mergePlayStats(current: TrackPlayStats, restored: TrackPlayStats): TrackPlayStats {
+  const earliest = (a: number | null, b: number | null) => (a !== null && b !== null ? Math.min(a, b) : a ?? b);
+  const latest = (a: number | null, b: number | null) => (a !== null && b !== null ? Math.max(a, b) : a ?? b);
+  return {
+    trackId: current.trackId,
+    playCount: Math.max(current.playCount, restored.playCount),
+    skipCount: Math.max(current.skipCount, restored.skipCount),
+    firstPlayed: earliest(current.firstPlayed, restored.firstPlayed),
+    lastPlayed: latest(current.lastPlayed, restored.lastPlayed),
+    listenedSeconds: Math.max(current.listenedSeconds, restored.listenedSeconds)
+  };
+}
+
+// Singleton instance
+export const backupService = new BackupService();
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { loadCueSheets, parseCueSheet } from './cueSheetService';
+import { ScannedCueFile } from './fileSystemService';
+
+const ALBUM_SHEET = [
+  'REM GENRE "Electronic"',
+  'REM DATE 1997',
+  'PERFORMER "Björk"',
+  'TITLE "Homogenic"',
+  'FILE "Björk - Homogenic.wav" WAVE',
+  '  TRACK 01 AUDIO',
+  '    TITLE "Hunter"',
+  '    INDEX 01 00:00:00',
+  '  TRACK 02 AUDIO',
+  '    TITLE "Jóga"',
+  '    PERFORMER "Björk & Icelandic String Octet"',
+  '    INDEX 00 04:13:50',
+  '    INDEX 01 04:15:37',
+  '  TRACK 03 AUDIO',
+  '    TITLE "Unravel"',
+  '    INDEX 01 09:20:00'
+].join('\r\n');
+
+const cueFile = (path: string, text: string): ScannedCueFile => ({
+  path,
+  handle: { getFile: async () => new File([text], path.split('/').pop()!, { lastModified: 1000 }) } as FileSystemFileHandle
+});
+
+describe('parseCueSheet', () => {
+  it('reads the album and its tracks, starting each at INDEX 01', () => {
+    const sheet = parseCueSheet(ALBUM_SHEET);
+
+    expect(sheet).toMatchObject({ title: 'Homogenic', performer: 'Björk', genre: 'Electronic', year: 1997 });
+    expect(sheet.files).toHaveLength(1);
+    expect(sheet.files[0]!.name).toBe('Björk - Homogenic.wav');
+    expect(sheet.files[0]!.tracks).toEqual([
+      { number: 1, title: 'Hunter', performer: '', start: 0 },
+      { number: 2, title: 'Jóga', performer: 'Björk & Icelandic String Octet', start: 4 * 60 + 15 + 37 / 75 },
+      { number: 3, title: 'Unravel', performer: '', start: 9 * 60 + 20 }
+    ]);
+  });
+
+  it('drops tracks without an INDEX 01', () => {
+    const sheet = parseCueSheet('FILE album.flac WAVE\nTRACK 01 AUDIO\nINDEX 00 00:00:00\nTRACK 02 AUDIO\nINDEX 01 03:00:00');
+
+    expect(sheet.files[0]!.name).toBe('album.flac');
+    expect(sheet.files[0]!.tracks.map(track => track.number)).toEqual([2]);
+  });
+});
+
+describe('loadCueSheets', () => {
+  it('matches a sheet to the library file with the same name and another extension', async () => {
+    const matches = await loadCueSheets(
+      [cueFile('Björk/Homogenic/album.cue', ALBUM_SHEET)],
+      ['Björk/Homogenic/Björk - Homogenic.flac', 'Björk/Homogenic/cover.flac']
+    );
+
+    const match = matches.get('Björk/Homogenic/Björk - Homogenic.flac');
+    expect([...matches.keys()]).toEqual(['Björk/Homogenic/Björk - Homogenic.flac']);
+    expect(match!.sheet.title).toBe('Homogenic');
+    expect(match!.tracks.map(track => track.title)).toEqual(['Hunter', 'Jóga', 'Unravel']);
+    expect(match!.key).toBe(`Björk/Homogenic/album.cue:${new Blob([ALBUM_SHEET]).size}:1000`);
+  });
+
+  it('leaves out files cut into a single track and files that aren\'t in the library', async () => {
+    const sheet = 'FILE "one.flac" WAVE\nTRACK 01 AUDIO\nINDEX 01 00:00:00\nFILE "gone.flac" WAVE\nTRACK 02 AUDIO\nINDEX 01 00:00:00\nTRACK 03 AUDIO\nINDEX 01 01:00:00';
+
+    const matches = await loadCueSheets([cueFile('album.cue', sheet)], ['one.flac']);
+
+    expect(matches.size).toBe(0);
+  });
+});
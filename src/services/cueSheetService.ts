@@ -0,0 +1,161 @@
+import { ScannedCueFile, getFileNameFromPath, readTextFile } from './fileSystemService';
+
+export interface CueTrack {
+  number: number;
+  title: string;
+  performer: string;
+  // Where the track starts in its file (INDEX 01), in seconds
+  start: number;
+}
+
+export interface CueSheetFile {
+  // File name as written in the sheet, relative to the sheet's directory
+  name: string;
+  tracks: CueTrack[];
+}
+
+export interface CueSheet {
+  title: string;
+  performer: string;
+  genre: string;
+  year: number;
+  files: CueSheetFile[];
+}
+
+/**
+ * The tracks a CUE sheet cuts from one audio file
+ */
+export interface CueSheetMatch {
+  // The sheet's path, size and lastModified - entries cut from an older version are recut
+  key: string;
+  sheet: CueSheet;
+  tracks: CueTrack[];
+}
+
+// CUE times are mm:ss:ff with 75 frames per second
+const FRAMES_PER_SECOND = 75;
+
+/**
+ * Strip the quotes from a CUE command argument
+ */
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  return trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"') ? trimmed.slice(1, -1) : trimmed;
+}
+
+function parseCueTime(value: string): number | null {
+  const match = value.trim().match(/^(\d+):(\d{1,2}):(\d{1,2})$/);
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]) + Number(match[3]) / FRAMES_PER_SECOND;
+}
+
+/**
+ * Parse a CUE sheet. TITLE and PERFORMER before the first TRACK describe the album;
+ * tracks without an INDEX 01 can't be placed and are dropped
+ */
+export function parseCueSheet(text: string): CueSheet {
+  const sheet: CueSheet = { title: '', performer: '', genre: '', year: 0, files: [] };
+  let currentFile: CueSheetFile | null = null;
+  let currentTrack: (Omit<CueTrack, 'start'> & { start: number | null }) | null = null;
+
+  const finishTrack = () => {
+    if (currentFile && currentTrack && currentTrack.start !== null) {
+      currentFile.tracks.push({ ...currentTrack, start: currentTrack.start });
+    }
+    currentTrack = null;
+  };
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const space = line.indexOf(' ');
+    if (space === -1) continue;
+    const command = line.substring(0, space).toUpperCase();
+    const argument = line.substring(space + 1);
+
+    switch (command) {
+      case 'FILE': {
+        finishTrack();
+        // The file type (WAVE, MP3...) follows the name
+        const name = argument.startsWith('"') ? argument.substring(1, argument.indexOf('"', 1)) : argument.split(' ')[0]!;
+        currentFile = { name, tracks: [] };
+        sheet.files.push(currentFile);
+        break;
+      }
+      case 'TRACK':
+        finishTrack();
+        currentTrack = { number: parseInt(argument, 10) || 0, title: '', performer: '', start: null };
+        break;
+      case 'INDEX': {
+        const [index, time] = argument.trim().split(/\s+/);
+        if (currentTrack && Number(index) === 1 && time) {
+          currentTrack.start = parseCueTime(time);
+        }
+        break;
+      }
+      case 'TITLE':
+        if (currentTrack) {
+          currentTrack.title = unquote(argument);
+        } else {
+          sheet.title = unquote(argument);
+        }
+        break;
+      case 'PERFORMER':
+        if (currentTrack) {
+          currentTrack.performer = unquote(argument);
+        } else {
+          sheet.performer = unquote(argument);
+        }
+        break;
+      case 'REM': {
+        const [, key, value] = argument.match(/^(\S+)\s+(.*)$/) ?? [];
+        if (key?.toUpperCase() === 'GENRE' && value) {
+          sheet.genre = unquote(value);
+        } else if (key?.toUpperCase() === 'DATE' && value) {
+          sheet.year = parseInt(unquote(value), 10) || 0;
+        }
+        break;
+      }
+    }
+  }
+  finishTrack();
+  return sheet;
+}
+
+/**
+ * Read a root's CUE sheets and work out which audio file each one cuts into tracks. Sheets
+ * often name the file they were ripped to (say .wav) rather than the one in the library (.flac),
+ * so a file with the same name and a different extension matches too. Only files cut into
+ * more than one track are returned - a sheet with one file per track adds nothing
+ */
+export async function loadCueSheets(cueFiles: ScannedCueFile[], audioPaths: string[]): Promise<Map<string, CueSheetMatch>> {
+  const pathsByLowerCase = new Map(audioPaths.map(path => [path.toLowerCase(), path]));
+  const pathsByStem = new Map<string, string>();
+  for (const path of audioPaths) {
+    pathsByStem.set(path.toLowerCase().replace(/\.[^./]+$/, ''), path);
+  }
+
+  const matches = new Map<string, CueSheetMatch>();
+  for (const cueFile of cueFiles) {
+    try {
+      const file = await cueFile.handle.getFile();
+      const sheet = parseCueSheet(await readTextFile(file));
+      const directory = cueFile.path.substring(0, cueFile.path.length - getFileNameFromPath(cueFile.path).length);
+      const key = `${cueFile.path}:${file.size}:${file.lastModified}`;
+
+      for (const sheetFile of sheet.files) {
+        if (sheetFile.tracks.length < 2) continue;
+        const target = `${directory}${sheetFile.name.replace(/\\/g, '/')}`.toLowerCase();
+        const audioPath = pathsByLowerCase.get(target) ?? pathsByStem.get(target.replace(/\.[^./]+$/, ''));
+        if (!audioPath) {
+          console.warn(`CUE sheet ${cueFile.path} refers to ${sheetFile.name}, which isn't in the library`);
+          continue;
+        }
+        const tracks = [...sheetFile.tracks].sort((a, b) => a.start - b.start);
+        matches.set(audioPath, { key, sheet, tracks });
+      }
+    } catch (error) {
+      console.error(`Error reading CUE sheet ${cueFile.path}:`, error);
+    }
+  }
+  return matches;
+}
@@ -0,0 +1,268 @@
+import { MusicCacheService, MusicLibraryEntry, normalizeKey } from './musicCacheService';
+
+export interface DuplicateGroup {
+  id: string;
+  trackIds: string[];
+  // The copy stations play for this song
+  preferredId: string;
+  // 'recording' when every copy carries the same MusicBrainz recording ID
+  matchedBy: 'recording' | 'tags';
+  // Set once the preferred copy has been picked or confirmed on the review screen
+  reviewed: boolean;
+  // Dismissed groups were judged not to be duplicates, so their copies score separately
+  dismissed: boolean;
+}
+
+export interface DuplicateGroupDetails {
+  group: DuplicateGroup;
+  tracks: MusicLibraryEntry[];
+}
+
+const DUPLICATE_GROUPS_STORE = 'duplicateGroups';
+// Copies of the same song can differ by a few seconds of silence or a fade
+const DURATION_TOLERANCE_SECONDS = 3;
+// Higher is better; formats not listed rank below all of these
+const FORMAT_RANKS: Record<string, number> = {
+  '.flac': 4, '.wav': 4, '.aiff': 4,
+  '.m4a': 3, '.ogg': 3, '.opus': 3,
+  '.mp3': 2,
+};
+// Title suffixes that don't make a different recording
+const EDITION_SUFFIX = /\s*[([-]\s*(\d{4}\s+)?(remaster(ed)?|album version|explicit|single version)(\s+\d{4})?[)\]]?\s*$/;
+
+export class DuplicateService {
+  private groupsByTrack: Map<string, DuplicateGroup> | null = null;
+
+  constructor() {
+  }
+
+  /**
+   * Group likely copies of the same song across the library. Copies match by MusicBrainz
+   * recording ID, or by normalized title and artist with durations within a few seconds.
+   * Choices made on the review screen carry over to the matching new groups
+   */
+  public async detectDuplicates(): Promise<DuplicateGroup[]> {
+    const entries = await MusicCacheService.getInstance().getAllCachedEntries();
+    const byId = new Map(entries.map(entry => [entry.id, entry]));
+    const parent = new Map<string, string>();
+    const find = (id: string): string => {
+      let root = id;
+      while (parent.has(root)) root = parent.get(root)!;
+      return root;
+    };
+    const union = (a: string, b: string) => {
+      const rootA = find(a);
+      const rootB = find(b);
+      if (rootA !== rootB) parent.set(rootB, rootA);
+    };
+
+    const byRecording = new Map<string, MusicLibraryEntry[]>();
+    const byTags = new Map<string, MusicLibraryEntry[]>();
+    for (const entry of entries) {
+      if (entry.recordingId) {
+        getOrCreate(byRecording, entry.recordingId).push(entry);
+      }
+      const title = normalizeTitle(entry.title);
+      if (title && entry.title !== 'Unknown Title' && entry.duration > 0) {
+        getOrCreate(byTags, `${title}|${normalizeKey(entry.artist)}`).push(entry);
+      }
+    }
+
+    for (const copies of byRecording.values()) {
+      copies.slice(1).forEach(copy => union(copies[0]!.id, copy.id));
+    }
+    for (const copies of byTags.values()) {
+      // Walk the copies in duration order, starting a new cluster whenever the gap gets too big
+      copies.sort((a, b) => a.duration - b.duration);
+      let clusterStart = copies[0]!;
+      for (const copy of copies.slice(1)) {
+        if (copy.duration - clusterStart.duration <= DURATION_TOLERANCE_SECONDS) {
+          union(clusterStart.id, copy.id);
+        } else {
+          clusterStart = copy;
+        }
+      }
+    }
+
+    const components = new Map<string, string[]>();
+    for (const id of parent.keys()) {
+      getOrCreate(components, find(id)).push(id);
+    }
+    for (const [root, members] of components) {
+      members.push(root);
+    }
+
+    const previous = await this.getAllGroups();
+    const groups: DuplicateGroup[] = [];
+    const reusedIds = new Set<string>();
+    for (const trackIds of components.values()) {
+      trackIds.sort();
+      const tracks = trackIds.map(id => byId.get(id)!);
+      const recordingId = tracks[0]!.recordingId;
+      const matchedBy = recordingId && tracks.every(track => track.recordingId === recordingId) ? 'recording' : 'tags';
+      // A group that has split keeps its choices for the first part only
+      const earlier = previous.find(group => !reusedIds.has(group.id) && group.trackIds.some(id => trackIds.includes(id)));
+
+      if (earlier) {
+        reusedIds.add(earlier.id);
+        const hasNewCopies = trackIds.some(id => !earlier.trackIds.includes(id));
+        const preferredId = trackIds.includes(earlier.preferredId) ? earlier.preferredId : pickPreferredCopy(tracks).id;
+        groups.push({
+          id: earlier.id,
+          trackIds,
+          preferredId,
+          matchedBy,
+          // New copies need another look, as one of them may be the better copy
+          reviewed: earlier.reviewed && !hasNewCopies,
+          dismissed: earlier.dismissed && !hasNewCopies,
+        });
+      } else {
+        // The plain ID may still belong to a group this one split from
+        const id = `dup_${trackIds[0]}`;
+        groups.push({
+          id: previous.some(group => group.id === id) ? `${id}_${Date.now()}` : id,
+          trackIds,
+          preferredId: pickPreferredCopy(tracks).id,
+          matchedBy,
+          reviewed: false,
+          dismissed: false,
+        });
+      }
+    }
+
+    await this.replaceGroups(groups);
+    return groups;
+  }
+
+  /**
+   * Stored groups with their tracks, skipping copies that have since left the library
+   */
+  public async getGroupDetails(): Promise<DuplicateGroupDetails[]> {
+    const cache = MusicCacheService.getInstance();
+    const details: DuplicateGroupDetails[] = [];
+    for (const group of await this.getAllGroups()) {
+      const tracks = (await Promise.all(group.trackIds.map(id => cache.getEntryById(id))))
+        .filter((track): track is MusicLibraryEntry => track !== null);
+      if (tracks.length > 1) {
+        details.push({ group, tracks });
+      }
+    }
+    return details;
+  }
+
+  /**
+   * Pick the copy stations play for a group, marking the group reviewed
+   */
+  public async setPreferredCopy(group: DuplicateGroup, trackId: string): Promise<DuplicateGroup> {
+    const updated = { ...group, preferredId: trackId, reviewed: true, dismissed: false };
+    await this.storeGroup(updated);
+    return updated;
+  }
+
+  /**
+   * Mark a group as not being duplicates, or undo that
+   */
+  public async setDismissed(group: DuplicateGroup, dismissed: boolean): Promise<DuplicateGroup> {
+    const updated = { ...group, dismissed, reviewed: true };
+    await this.storeGroup(updated);
+    return updated;
+  }
+
+  /**
+   * Active groups keyed by each of their track IDs, for scoring copies as one song
+   */
+  public async getGroupsByTrack(): Promise<Map<string, DuplicateGroup>> {
+    if (!this.groupsByTrack) {
+      const groupsByTrack = new Map<string, DuplicateGroup>();
+      for (const group of await this.getAllGroups()) {
+        if (group.dismissed) continue;
+        group.trackIds.forEach(id => groupsByTrack.set(id, group));
+      }
+      this.groupsByTrack = groupsByTrack;
+    }
+    return this.groupsByTrack;
+  }
+
+  private async getAllGroups(): Promise<DuplicateGroup[]> {
+    const db = (MusicCacheService.getInstance() as any).db;
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([DUPLICATE_GROUPS_STORE], 'readonly');
+      const request = transaction.objectStore(DUPLICATE_GROUPS_STORE).getAll();
+
+      request.onsuccess = () => resolve(request.result || []);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private async storeGroup(group: DuplicateGroup): Promise<void> {
+    const db = (MusicCacheService.getInstance() as any).db;
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+
+    this.groupsByTrack = null;
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([DUPLICATE_GROUPS_STORE], 'readwrite');
+      const request = transaction.objectStore(DUPLICATE_GROUPS_STORE).put(group);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private async replaceGroups(groups: DuplicateGroup[]): Promise<void> {
+    const db = (MusicCacheService.getInstance() as any).db;
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+
+    this.groupsByTrack = null;
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([DUPLICATE_GROUPS_STORE], 'readwrite');
+      const store = transaction.objectStore(DUPLICATE_GROUPS_STORE);
+      store.clear();
+      groups.forEach(group => store.put(group));
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+}
+
+function getOrCreate<K, V>(map: Map<K, V[]>, key: K): V[] {
+  let values = map.get(key);
+  if (!values) {
+    values = [];
+    map.set(key, values);
+  }
+  return values;
+}
+
+function normalizeTitle(title: string): string {
+  return normalizeKey(title).replace(EDITION_SUFFIX, '').trim();
+}
+
+function getFormatRank(track: MusicLibraryEntry): number {
+  const extension = track.filePath.substring(track.filePath.lastIndexOf('.')).toLowerCase();
+  return FORMAT_RANKS[extension] ?? 0;
+}
+
+/**
+ * The copy to play by default: the best format, then one from the artist's own release
+ * rather than a compilation, then the highest bitrate
+ */
+export function pickPreferredCopy(tracks: MusicLibraryEntry[]): MusicLibraryEntry {
+  const isOwnRelease = (track: MusicLibraryEntry) => !track.albumArtist || normalizeKey(track.albumArtist) === track.artistKey;
+  const bitrate = (track: MusicLibraryEntry) => track.duration > 0 ? (track.fileSize ?? 0) / track.duration : 0;
+  return [...tracks].sort((a, b) =>
+    getFormatRank(b) - getFormatRank(a)
+    || Number(isOwnRelease(b)) - Number(isOwnRelease(a))
+    || bitrate(b) - bitrate(a))[0]!;
+}
+
+// Singleton instance
+export const duplicateService = new DuplicateService();
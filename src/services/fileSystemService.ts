@@ -1,33 +1,185 @@
 // Supported audio file extensions
 const AUDIO_EXTENSIONS = ['.mp3', '.m4a', '.ogg', '.wav', '.flac', '.aac'];
+// Supported playlist file extensions
+const PLAYLIST_EXTENSIONS = ['.m3u', '.m3u8', '.pls'];
+const CUE_SHEET_EXTENSION = '.cue';
+const LYRICS_EXTENSION = '.lrc';
+
+export interface ScannedAudioFile {
+  handle: FileSystemFileHandle;
+  // Path relative to the library root, using '/' as the separator
+  path: string;
+  // Best matching cover image in the same directory, if any
+  folderImage?: ScannedImageFile;
+  // LRC lyrics sidecar with the same name, if any
+  lyricsFile?: ScannedLyricsFile;
+}
+
+export interface ScannedImageFile {
+  handle: FileSystemFileHandle;
+  path: string;
+}
+
+export interface ScannedLyricsFile {
+  handle: FileSystemFileHandle;
+  path: string;
+}
+
+export interface ScannedPlaylistFile {
+  handle: FileSystemFileHandle;
+  path: string;
+}
+
+export interface ScannedCueFile {
+  handle: FileSystemFileHandle;
+  path: string;
+}
+
+export interface ScannedLibraryFiles {
+  audioFiles: ScannedAudioFile[];
+  playlistFiles: ScannedPlaylistFile[];
+  cueFiles: ScannedCueFile[];
+}
+
+export interface ScanDirectoryOptions {
+  // Stops the walk early; whatever was found so far is returned
+  signal?: AbortSignal;
+  // Called for each audio file as it's found
+  onFile?: (path: string) => void;
+  // List only the directory itself, leaving out its subdirectories
+  shallow?: boolean;
+  // Put in front of every path found, e.g. the directory's own path within its library root
+  basePath?: string;
+}
+
+/**
+ * Find every audio, playlist and CUE sheet file under a directory. When cover file names are given, each audio
+ * file is paired with the image in its directory whose name comes first in that list (case-insensitive).
+ * Audio files are also paired with an .lrc file of the same name beside them
+ */
+export async function scanDirectoryForAudioFiles(directoryHandle: FileSystemDirectoryHandle, coverFileNames: string[] = [], options: ScanDirectoryOptions = {}): Promise<ScannedLibraryFiles> {
+  const audioFiles: ScannedAudioFile[] = [];
+  const playlistFiles: ScannedPlaylistFile[] = [];
+  const cueFiles: ScannedCueFile[] = [];
+  const coverPriority = coverFileNames.map(name => name.trim().toLowerCase()).filter(name => name.length > 0);
 
-export async function scanDirectoryForAudioFiles(directoryHandle: FileSystemDirectoryHandle): Promise<FileSystemFileHandle[]> {
-  const audioFiles: FileSystemFileHandle[] = [];
-  
   // Recursive function to traverse directories
-  async function traverse(handle: FileSystemDirectoryHandle) {
+  async function traverse(handle: FileSystemDirectoryHandle, prefix: string) {
+    const directoryFiles: ScannedAudioFile[] = [];
+    let folderImage: ScannedImageFile | undefined;
+    let folderImageRank = coverPriority.length;
+    // Lyrics sidecars by lower-case name without the extension
+    const lyricsFiles = new Map<string, ScannedLyricsFile>();
+
     try {
       for await (const [name, entry] of handle.entries()) {
+        if (options.signal?.aborted) return;
         if (entry.kind === 'file') {
           const fileHandle = entry as FileSystemFileHandle;
           const lowerName = name.toLowerCase();
-          
+
           // Check if it's an audio file
           if (AUDIO_EXTENSIONS.some(ext => lowerName.endsWith(ext))) {
-            audioFiles.push(fileHandle);
+            directoryFiles.push({ handle: fileHandle, path: prefix + name });
+            options.onFile?.(prefix + name);
+          } else if (PLAYLIST_EXTENSIONS.some(ext => lowerName.endsWith(ext))) {
+            playlistFiles.push({ handle: fileHandle, path: prefix + name });
+          } else if (lowerName.endsWith(CUE_SHEET_EXTENSION)) {
+            cueFiles.push({ handle: fileHandle, path: prefix + name });
+          } else if (lowerName.endsWith(LYRICS_EXTENSION)) {
+            lyricsFiles.set(lowerName.slice(0, -LYRICS_EXTENSION.length), { handle: fileHandle, path: prefix + name });
+          } else {
+            // Keep the highest priority cover image seen so far
+            const rank = coverPriority.indexOf(lowerName);
+            if (rank !== -1 && rank < folderImageRank) {
+              folderImage = { handle: fileHandle, path: prefix + name };
+              folderImageRank = rank;
+            }
           }
-        } else if (entry.kind === 'directory') {
+        } else if (entry.kind === 'directory' && !options.shallow) {
           // Recursively traverse subdirectories
-          await traverse(entry as FileSystemDirectoryHandle);
+          await traverse(entry as FileSystemDirectoryHandle, `${prefix}${name}/`);
         }
       }
     } catch (error) {
       console.error('Error traversing directory:', error);
     }
+
+    for (const file of directoryFiles) {
+      const lyricsFile = lyricsFiles.get(file.handle.name.toLowerCase().replace(/\.[^.]+$/, ''));
+      audioFiles.push({
+        ...file,
+        ...(folderImage ? { folderImage } : {}),
+        ...(lyricsFile ? { lyricsFile } : {})
+      });
+    }
   }
-  
+
   // Start traversal from the root directory
-  await traverse(directoryHandle);
-  
-  return audioFiles;
-}
\ No newline at end of file
+  await traverse(directoryHandle, options.basePath ?? '');
+
+  return { audioFiles, playlistFiles, cueFiles };
+}
+
+/**
+ * List the directory holding a root-relative file path, so the file can be scanned again along with the
+ * cover image, lyrics and CUE sheets beside it. Paths stay root-relative.
+ * Returns null if the directory no longer exists
+ */
+export async function scanDirectoryOfFile(rootHandle: FileSystemDirectoryHandle, path: string, coverFileNames: string[] = []): Promise<ScannedLibraryFiles | null> {
+  const segments = path.split('/').filter(s => s.length > 0);
+  segments.pop();
+
+  let dirHandle = rootHandle;
+  try {
+    for (const segment of segments) {
+      dirHandle = await dirHandle.getDirectoryHandle(segment);
+    }
+  } catch (error) {
+    return null;
+  }
+  return await scanDirectoryForAudioFiles(dirHandle, coverFileNames, { shallow: true, basePath: segments.map(segment => `${segment}/`).join('') });
+}
+
+/**
+ * Resolve a root-relative path (as returned by scanDirectoryForAudioFiles) to a file handle
+ * Returns null if any segment of the path no longer exists
+ */
+export async function getFileHandleByPath(rootHandle: FileSystemDirectoryHandle, path: string): Promise<FileSystemFileHandle | null> {
+  const segments = path.split('/').filter(s => s.length > 0);
+  const fileName = segments.pop();
+  if (!fileName) return null;
+
+  try {
+    let dirHandle = rootHandle;
+    for (const segment of segments) {
+      dirHandle = await dirHandle.getDirectoryHandle(segment);
+    }
+    return await dirHandle.getFileHandle(fileName);
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Get the file name portion of a root-relative path
+ */
+export function getFileNameFromPath(path: string): string {
+  return path.substring(path.lastIndexOf('/') + 1);
+}
+
+/**
+ * Read a small text file such as a playlist or CUE sheet. These are often written in the system's
+ * legacy code page rather than UTF-8, so fall back to Windows-1252 when the bytes aren't valid UTF-8
+ */
+export async function readTextFile(file: File, utf8Only = false): Promise<string> {
+  const buffer = await file.arrayBuffer();
+  if (utf8Only) {
+    return new TextDecoder('utf-8').decode(buffer);
+  }
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer);
+  } catch {
+    return new TextDecoder('windows-1252').decode(buffer);
+  }
+}
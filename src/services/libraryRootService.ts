@@ -0,0 +1,151 @@
+import { get, set, del } from 'idb-keyval';
+import { MusicCacheService } from './musicCacheService';
+import { verifyPermission } from '../utils/fileHelpers';
+
+export interface LibraryRoot {
+  id: string;
+  name: string;
+  handle: FileSystemDirectoryHandle;
+  addedAt: Date;
+  lastScanned: Date | null;
+}
+
+export type RootPermissionState = 'granted' | 'prompt' | 'denied';
+
+// Root created for the single folder saved before multiple roots existed.
+// Library entries cached before v5 are assigned to this root by the DB upgrade.
+export const DEFAULT_ROOT_ID = 'root_default';
+
+const ROOTS_KEY = 'libraryRoots';
+const LEGACY_DIR_HANDLE_KEY = 'savedDirHandle';
+
+export class LibraryRootService {
+  private roots: LibraryRoot[] | null = null;
+
+  constructor() {
+  }
+
+  /**
+   * Get all library roots, migrating the legacy single saved folder on first use
+   */
+  public async getRoots(): Promise<LibraryRoot[]> {
+    if (this.roots) return this.roots;
+
+    let roots: LibraryRoot[] | undefined = await get(ROOTS_KEY);
+    if (!roots) {
+      roots = [];
+      const legacyHandle: FileSystemDirectoryHandle | undefined = await get(LEGACY_DIR_HANDLE_KEY);
+      if (legacyHandle) {
+        roots.push({
+          id: DEFAULT_ROOT_ID,
+          name: legacyHandle.name,
+          handle: legacyHandle,
+          addedAt: new Date(),
+          lastScanned: null
+        });
+        await set(ROOTS_KEY, roots);
+        await del(LEGACY_DIR_HANDLE_KEY);
+      }
+    }
+
+    this.roots = roots;
+    return roots;
+  }
+
+  /**
+   * Get a library root by ID
+   */
+  public async getRoot(id: string): Promise<LibraryRoot | null> {
+    return (await this.getRoots()).find(root => root.id === id) ?? null;
+  }
+
+  /**
+   * Add a directory as a library root. Returns the existing root if the directory is already in the library
+   */
+  public async addRoot(handle: FileSystemDirectoryHandle): Promise<LibraryRoot> {
+    const roots = await this.getRoots();
+    for (const root of roots) {
+      if (await root.handle.isSameEntry(handle)) {
+        return root;
+      }
+    }
+
+    const root: LibraryRoot = {
+      id: this.generateId(`${handle.name}|${Date.now()}`),
+      name: handle.name,
+      handle,
+      addedAt: new Date(),
+      lastScanned: null
+    };
+    await this.saveRoots([...roots, root]);
+    return root;
+  }
+
+  /**
+   * Remove a library root along with every cached entry that came from it
+   */
+  public async removeRoot(id: string): Promise<void> {
+    const roots = await this.getRoots();
+    await MusicCacheService.getInstance().removeEntriesForRoot(id);
+    await this.saveRoots(roots.filter(root => root.id !== id));
+  }
+
+  /**
+   * Rename a library root (display name only - the directory is untouched)
+   */
+  public async renameRoot(id: string, name: string): Promise<LibraryRoot | null> {
+    return await this.updateRoot(id, { name });
+  }
+
+  /**
+   * Record that a root has just been scanned
+   */
+  public async markScanned(id: string): Promise<void> {
+    await this.updateRoot(id, { lastScanned: new Date() });
+  }
+
+  /**
+   * Check read permission for a root without prompting
+   */
+  public async queryPermission(root: LibraryRoot): Promise<RootPermissionState> {
+    return await (root.handle as any).queryPermission({ mode: 'read' });
+  }
+
+  /**
+   * Ask the user to re-grant read permission for a root. Must be called from a user gesture
+   */
+  public async requestPermission(root: LibraryRoot): Promise<boolean> {
+    return await verifyPermission(root.handle, 'read');
+  }
+
+  private async updateRoot(id: string, updates: Partial<Omit<LibraryRoot, 'id' | 'handle'>>): Promise<LibraryRoot | null> {
+    const roots = await this.getRoots();
+    const existing = roots.find(root => root.id === id);
+    if (!existing) return null;
+
+    const updated: LibraryRoot = { ...existing, ...updates };
+    await this.saveRoots(roots.map(root => root.id === id ? updated : root));
+    return updated;
+  }
+
+  private async saveRoots(roots: LibraryRoot[]): Promise<void> {
+    this.roots = roots;
+    await set(ROOTS_KEY, roots);
+  }
+
+  /**
+   * Generate a unique ID for a root
+   */
+  private generateId(seed: string): string {
+    let hash = 0;
+    for (let i = 0; i < seed.length; i++) {
+      const char = seed.charCodeAt(i);
+      hash = ((hash << 5) - hash) + char;
+      hash = hash & hash; // Convert to 32bit integer
+    }
+    return `root_${hash.toString()}`;
+  }
+}
+
+// Singleton instance
+export const libraryRootService = new LibraryRootService();
@@ -0,0 +1,197 @@
+import { AudioTrack, MusicCacheService } from './musicCacheService';
+import { RadioStation } from './radioStationService';
+
+// How a listen ended: played to the end, moved on from before it counted as played, or anything
+// else (another track picked, playback stopped, the app closed)
+export type ListenOutcome = 'completed' | 'skipped' | 'interrupted';
+
+export interface ListeningEvent {
+  id: number;
+  trackId: string;
+  // The track's tags when it played, so the event still reads right once the track changes or leaves the library
+  title: string;
+  artist: string;
+  album: string;
+  albumArtist: string;
+  trackNumber: number;
+  duration: number;
+  recordingId?: string | undefined;
+  releaseId?: string | undefined;
+  artistIds?: string[] | undefined;
+  // The station playing when the track started, null for a track picked directly
+  stationId: string | null;
+  stationName: string | null;
+  startedAt: number;
+  // When the listen ended, or was last saved while still going
+  endedAt: number;
+  listenedSeconds: number;
+  // Reached the play threshold
+  countedAsPlay: boolean;
+  outcome: ListenOutcome;
+}
+
+export interface ListeningSession {
+  startedAt: number;
+  endedAt: number;
+  // Oldest first
+  events: ListeningEvent[];
+}
+
+export interface ListeningDay {
+  // Midnight at the start of the day, local time
+  date: number;
+  // Latest first
+  sessions: ListeningSession[];
+}
+
+const LISTENING_HISTORY_STORE = 'listeningHistory';
+// A break longer than this starts a new session
+const SESSION_GAP_MS = 30 * 60 * 1000;
+
+/**
+ * Group events into days and, within each day, into sessions of listening without a long break.
+ * Days and sessions come latest first
+ */
+export function groupHistory(events: ListeningEvent[]): ListeningDay[] {
+  const sorted = [...events].sort((a, b) => a.startedAt - b.startedAt);
+  const days: ListeningDay[] = [];
+  let day: ListeningDay | null = null;
+  let session: ListeningSession | null = null;
+
+  for (const event of sorted) {
+    const date = new Date(event.startedAt).setHours(0, 0, 0, 0);
+    if (!day || day.date !== date) {
+      day = { date, sessions: [] };
+      days.unshift(day);
+      session = null;
+    }
+    if (!session || event.startedAt - session.endedAt > SESSION_GAP_MS) {
+      session = { startedAt: event.startedAt, endedAt: event.endedAt, events: [] };
+      day.sessions.unshift(session);
+    }
+    session.events.push(event);
+    session.endedAt = Math.max(session.endedAt, event.endedAt);
+  }
+  return days;
+}
+
+export class ListeningHistoryService {
+  constructor() {
+  }
+
+  /**
+   * Record that a track started playing. The event is saved straight away, so it survives the
+   * app closing; update it as the listen goes on
+   */
+  public async startEvent(track: AudioTrack, station: RadioStation | null): Promise<ListeningEvent> {
+    const now = Date.now();
+    const event: Omit<ListeningEvent, 'id'> = {
+      trackId: track.id,
+      title: track.title,
+      artist: track.artist,
+      album: track.album,
+      albumArtist: track.albumArtist,
+      trackNumber: track.trackNumber,
+      duration: track.duration,
+      recordingId: track.recordingId,
+      releaseId: track.releaseId,
+      artistIds: track.artistIds,
+      stationId: station?.id ?? null,
+      stationName: station?.name ?? null,
+      startedAt: now,
+      endedAt: now,
+      listenedSeconds: 0,
+      countedAsPlay: false,
+      outcome: 'interrupted'
+    };
+    const id = await this.request<IDBValidKey>('readwrite', store => store.add(event));
+    return { ...event, id: id as number };
+  }
+
+  public async updateEvent(event: ListeningEvent): Promise<void> {
+    await this.request('readwrite', store => store.put(event));
+  }
+
+  /**
+   * Events that started in a time range, oldest first. Either end can be left open
+   */
+  public async getEvents(from?: number, to?: number): Promise<ListeningEvent[]> {
+    const range = from !== undefined && to !== undefined ? IDBKeyRange.bound(from, to)
+      : from !== undefined ? IDBKeyRange.lowerBound(from)
+      : to !== undefined ? IDBKeyRange.upperBound(to)
+      : null;
+    return await this.request('readonly', store => store.index('startedAt').getAll(range));
+  }
+
+  /**
+   * The latest events, up to `limit` of them, that started before `before`. Latest first
+   */
+  public async getRecentEvents(limit: number, before?: number): Promise<ListeningEvent[]> {
+    const db = this.getDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([LISTENING_HISTORY_STORE], 'readonly');
+      const range = before !== undefined ? IDBKeyRange.upperBound(before, true) : null;
+      const request = transaction.objectStore(LISTENING_HISTORY_STORE).index('startedAt').openCursor(range, 'prev');
+      const events: ListeningEvent[] = [];
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor && events.length < limit) {
+          events.push(cursor.value);
+          cursor.continue();
+        } else {
+          resolve(events);
+        }
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Add events restored from a backup in one transaction, under new IDs. With `replace`, the
+   * existing history is removed first
+   */
+  public async restoreEvents(events: Omit<ListeningEvent, 'id'>[], replace: boolean): Promise<void> {
+    const db = this.getDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([LISTENING_HISTORY_STORE], 'readwrite');
+      const store = transaction.objectStore(LISTENING_HISTORY_STORE);
+      if (replace) {
+        store.clear();
+      }
+      events.forEach(event => store.add(event));
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Forget every listening event
+   */
+  public async clearHistory(): Promise<void> {
+    await this.request('readwrite', store => store.clear());
+  }
+
+  private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = this.getDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([LISTENING_HISTORY_STORE], mode);
+      const request = run(transaction.objectStore(LISTENING_HISTORY_STORE));
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private getDB(): IDBDatabase {
+    const db = (MusicCacheService.getInstance() as any).db as IDBDatabase | null;
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    return db;
+  }
+}
+
+// Singleton instance
+export const listeningHistoryService = new ListeningHistoryService();
@@ -0,0 +1,36 @@
+import { MusicCacheService } from './musicCacheService';
+import { ParsedLyrics } from '../utils/lyricsHelpers';
+
+export type LyricsSource = 'embedded' | 'lrc';
+
+export interface TrackLyrics extends ParsedLyrics {
+  trackId: string;
+  source: LyricsSource;
+}
+
+const LYRICS_STORE = 'lyrics';
+
+export class LyricsService {
+  constructor() {
+  }
+
+  /**
+   * Lyrics stored for a track when it was scanned, if it has any
+   */
+  public async getLyrics(trackId: string): Promise<TrackLyrics | null> {
+    const db = (MusicCacheService.getInstance() as any).db as IDBDatabase | null;
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([LYRICS_STORE], 'readonly');
+      const request = transaction.objectStore(LYRICS_STORE).get(trackId);
+
+      request.onsuccess = () => resolve(request.result ?? null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+// Singleton instance
+export const lyricsService = new LyricsService();
@@ -1,13 +1,26 @@
-import { parseFile, parseBlob } from 'music-metadata';
+import { parseBlob, IAudioMetadata, TimestampFormat } from 'music-metadata';
+import { ParsedLyrics, parseLrc } from '../utils/lyricsHelpers';
+import { hashAlbumArt } from '../utils/imageHelpers';
 
 export interface AudioMetadata {
   title: string | undefined;
   artist: string | undefined;
   album: string | undefined;
+  albumArtist: string | undefined;
+  trackNumber: number | undefined;
+  discNumber: number | undefined;
+  musicBrainzRecordingId: string | undefined;
+  musicBrainzReleaseId: string | undefined;
+  musicBrainzArtistIds: string[] | undefined;
   genre: string[] | undefined;
   year: number | undefined;
   mood: string | undefined;
   duration: number | undefined;
+  // TBPM and TKEY, or the format's equivalents
+  bpm: number | undefined;
+  musicalKey: string | undefined;
+  // Star rating from 1 to 5, from ID3 POPM, Vorbis RATING or the MP4 rate atom
+  rating: number | undefined;
   // Volume normalization data
   replayGainTrackGain?: number | null;
   replayGainTrackPeak?: number | null;
@@ -15,69 +28,125 @@ export interface AudioMetadata {
   peakLevel?: number | null;
 }
 
-// We'll create a simplified version that works with the File API
-export async function extractMetadata(fileHandle: FileSystemFileHandle): Promise<AudioMetadata | null> {
-  try {
-    // Get the File object from the handle
-    const file = await fileHandle.getFile();
+export interface AlbumArtData {
+  data: Uint8Array;
+  mimeType: string;
+}
 
-    // Parse the metadata - music-metadata expects a URL or Buffer, not a File object directly
-    // We need to use parseBlob instead of parseFile for File objects
-    const metadata = await parseBlob(file, {
-      duration: true,
-      skipCovers: false
-    });
+// Tags, cover and lyrics from a single parse of a file
+export interface ExtractedTrackData {
+  metadata: AudioMetadata;
+  albumArt: (AlbumArtData & { hash: string }) | null;
+  lyrics: ParsedLyrics | null;
+}
 
-    // Extract the relevant fields we need
-    const audioMetadata: AudioMetadata = {
-      title: metadata.common.title,
-      artist: metadata.common.artist,
-      album: metadata.common.album,
-      genre: metadata.common.genre,
-      year: metadata.common.year,
-      mood: metadata.common.mood,
-      duration: metadata.format.duration,
-      averageLevel: metadata.common.averageLevel ?? null,
-      peakLevel: metadata.common.peakLevel ?? null,
-      replayGainTrackGain: metadata.common.replaygain_track_gain?.ratio ?? null,
-      replayGainTrackPeak: metadata.common.replaygain_track_peak?.ratio ?? null,
-    };
+/**
+ * Parse a file once for both its tags and its cover. Throws if the file can't be parsed
+ */
+export async function extractTrackData(file: File): Promise<ExtractedTrackData> {
+  const metadata = await parseBlob(file, {
+    duration: true,
+    skipCovers: false
+  });
 
-    return audioMetadata;
-  } catch (error) {
-    console.error('Error extracting metadata:', error);
-    return null;
-  }
+  const albumArt = readAlbumArt(metadata);
+  return {
+    metadata: readAudioMetadata(metadata),
+    albumArt: albumArt ? { ...albumArt, hash: await hashAlbumArt(albumArt.data) } : null,
+    lyrics: readLyrics(metadata)
+  };
 }
 
-// Function to extract album art from a file handle (returns null if no cover)
-export async function extractAlbumArt(fileHandle: FileSystemFileHandle): Promise<{ data: any; mimeType: string } | null> {
-  try {
-    // Get the File object from the handle
-    const file = await fileHandle.getFile();
+function readAudioMetadata(metadata: IAudioMetadata): AudioMetadata {
+  // Extract the relevant fields we need
+  return {
+    title: metadata.common.title,
+    artist: metadata.common.artist,
+    album: metadata.common.album,
+    // Compilations without an album artist tag would otherwise split up by track artist
+    albumArtist: metadata.common.albumartist ?? (metadata.common.compilation ? 'Various Artists' : undefined),
+    trackNumber: metadata.common.track.no ?? undefined,
+    discNumber: metadata.common.disk.no ?? undefined,
+    musicBrainzRecordingId: metadata.common.musicbrainz_recordingid,
+    musicBrainzReleaseId: metadata.common.musicbrainz_albumid,
+    musicBrainzArtistIds: metadata.common.musicbrainz_artistid,
+    genre: metadata.common.genre,
+    year: metadata.common.year,
+    mood: metadata.common.mood,
+    duration: metadata.format.duration,
+    bpm: metadata.common.bpm,
+    musicalKey: metadata.common.key,
+    rating: readRating(metadata),
+    averageLevel: metadata.common.averageLevel ?? null,
+    peakLevel: metadata.common.peakLevel ?? null,
+    replayGainTrackGain: metadata.common.replaygain_track_gain?.ratio ?? null,
+    replayGainTrackPeak: metadata.common.replaygain_track_peak?.ratio ?? null,
+  };
+}
 
-    // Parse the metadata to get album art - skip duration for performance
-    const metadata = await parseBlob(file, {
-      duration: false,
-      skipCovers: false
-    });
+/**
+ * Read a star rating from the native tags. music-metadata's common rating scales every format to
+ * 0-1 the same way, which puts each convention's stars in the wrong place, so the raw values are used
+ */
+function readRating(metadata: IAudioMetadata): number | undefined {
+  const toStars = (value: number) => value > 0 ? Math.min(5, Math.max(1, Math.round(value))) : undefined;
+  for (const [tagType, tags] of Object.entries(metadata.native)) {
+    for (const tag of tags) {
+      let stars: number | undefined;
+      if (tagType.startsWith('ID3v2') && (tag.id === 'POPM' || tag.id === 'POP')) {
+        // Windows Media Player's steps (1, 64, 128, 196, 255), which other players follow
+        const value = Number((tag.value as { rating?: number } | undefined)?.rating);
+        stars = value > 0 ? [32, 96, 160, 224, 256].findIndex(limit => value < limit) + 1 : undefined;
+      } else if (tagType === 'vorbis' && tag.id.toUpperCase() === 'RATING') {
+        // Usually 0-100, but some taggers write stars directly
+        const value = Number(tag.value);
+        stars = toStars(value > 5 ? value / 20 : value);
+      } else if (tagType === 'iTunes' && tag.id === 'rate') {
+        // 0-100, in steps of 20
+        stars = toStars(Number(tag.value) / 20);
+      }
+      if (stars) return stars;
+    }
+  }
+  return undefined;
+}
 
-    // Check if there are embedded pictures (album art)
-    if (metadata.common.picture && metadata.common.picture.length > 0) {
-      // Get the first picture - use a safer approach to handle potential undefined values
-      const cover = metadata.common.picture[0];
+function readAlbumArt(metadata: IAudioMetadata): AlbumArtData | null {
+  // Check if there are embedded pictures (album art)
+  if (metadata.common.picture && metadata.common.picture.length > 0) {
+    // Get the first picture - use a safer approach to handle potential undefined values
+    const cover = metadata.common.picture[0];
 
-      if (cover && cover.data && cover.format) {
-        return {
-          data: cover.data,
-          mimeType: cover.format
-        };
-      }
+    if (cover && cover.data && cover.format) {
+      return {
+        data: cover.data,
+        mimeType: cover.format
+      };
     }
+  }
+
+  return null;
+}
 
-    return null;
-  } catch (error) {
-    console.error('Error extracting album art:', error);
-    return null;
+/**
+ * Embedded lyrics: synchronized (SYLT, or LRC text in a lyrics tag) when there are any, else plain
+ * (USLT). SYLT timed in MPEG frames can't be placed without the frame rate, so its text is kept unsynced
+ */
+function readLyrics(metadata: IAudioMetadata): ParsedLyrics | null {
+  const tags = metadata.common.lyrics ?? [];
+
+  const synced = tags.find(tag => tag.syncText.length > 0);
+  if (synced) {
+    const inMilliseconds = synced.timeStampFormat === TimestampFormat.milliseconds;
+    const lines = synced.syncText.map(({ text, timestamp }) => ({
+      time: inMilliseconds && timestamp !== undefined ? timestamp / 1000 : null,
+      text: text.trim()
+    }));
+    return inMilliseconds
+      ? { synced: true, lines: lines.sort((a, b) => a.time! - b.time!) }
+      : { synced: false, lines };
   }
-}
\ No newline at end of file
+
+  const plain = tags.find(tag => tag.text && tag.text.trim().length > 0);
+  return plain ? parseLrc(plain.text!) : null;
+}
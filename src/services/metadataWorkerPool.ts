@@ -0,0 +1,128 @@
+import { ExtractedTrackData } from './metadataService';
+
+export interface MetadataWorkerRequest {
+  taskId: number;
+  file: File;
+}
+
+export type MetadataWorkerResponse =
+  | { taskId: number; data: ExtractedTrackData; error?: undefined }
+  | { taskId: number; error: string; errorName: string; data?: undefined };
+
+interface PendingTask {
+  taskId: number;
+  file: File;
+  resolve: (data: ExtractedTrackData) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Pool of metadata workers. Each file is parsed once for both tags and cover.
+ * At most `concurrency` files are parsed at a time; callers should await
+ * waitForCapacity() before submitting so that no more than `maxQueued` files
+ * wait in memory on top of those being parsed.
+ */
+export class MetadataWorkerPool {
+  private workers: Worker[] = [];
+  private idleWorkers: Worker[] = [];
+  private queue: PendingTask[] = [];
+  private running = new Map<Worker, PendingTask>();
+  private capacityWaiters: (() => void)[] = [];
+  private nextTaskId = 0;
+  private readonly maxQueued: number;
+
+  constructor(concurrency: number, maxQueued?: number) {
+    const size = Math.max(1, Math.floor(concurrency));
+    this.maxQueued = maxQueued ?? size * 2;
+
+    for (let i = 0; i < size; i++) {
+      const worker = new Worker(new URL('../workers/metadataWorker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (event: MessageEvent<MetadataWorkerResponse>) => this.handleResponse(worker, event.data);
+      worker.onerror = (event) => this.handleCrash(worker, event);
+      this.workers.push(worker);
+      this.idleWorkers.push(worker);
+    }
+  }
+
+  /**
+   * Resolves once there is room in the queue for another file
+   */
+  public async waitForCapacity(): Promise<void> {
+    while (this.queue.length >= this.maxQueued) {
+      await new Promise<void>(resolve => this.capacityWaiters.push(resolve));
+    }
+  }
+
+  /**
+   * Parse a file on the next free worker
+   */
+  public extract(file: File): Promise<ExtractedTrackData> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ taskId: this.nextTaskId++, file, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Terminate all workers, rejecting anything still queued or running
+   */
+  public destroy(): void {
+    const error = new Error('Metadata worker pool was destroyed');
+    for (const task of [...this.queue, ...this.running.values()]) {
+      task.reject(error);
+    }
+    this.queue = [];
+    this.running.clear();
+    for (const worker of this.workers) {
+      worker.terminate();
+    }
+    this.workers = [];
+    this.idleWorkers = [];
+    this.releaseCapacityWaiters();
+  }
+
+  private dispatch(): void {
+    while (this.idleWorkers.length > 0 && this.queue.length > 0) {
+      const worker = this.idleWorkers.pop()!;
+      const task = this.queue.shift()!;
+      this.running.set(worker, task);
+      const request: MetadataWorkerRequest = { taskId: task.taskId, file: task.file };
+      worker.postMessage(request);
+    }
+    this.releaseCapacityWaiters();
+  }
+
+  private handleResponse(worker: Worker, response: MetadataWorkerResponse): void {
+    const task = this.running.get(worker);
+    this.running.delete(worker);
+    this.idleWorkers.push(worker);
+
+    if (task && task.taskId === response.taskId) {
+      if (response.data) {
+        task.resolve(response.data);
+      } else {
+        // Keep the error's name (e.g. NotReadableError) so the failure can be classified
+        const error = new Error(response.error);
+        error.name = response.errorName;
+        task.reject(error);
+      }
+    }
+    this.dispatch();
+  }
+
+  private handleCrash(worker: Worker, event: ErrorEvent): void {
+    event.preventDefault();
+    const task = this.running.get(worker);
+    this.running.delete(worker);
+    this.idleWorkers.push(worker);
+
+    task?.reject(new Error(event.message || `Worker failed while parsing ${task.file.name}`));
+    this.dispatch();
+  }
+
+  private releaseCapacityWaiters(): void {
+    const waiters = this.capacityWaiters;
+    this.capacityWaiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+}
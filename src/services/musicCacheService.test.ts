@@ -0,0 +1,106 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MusicCacheService, MusicLibraryEntry } from './musicCacheService';
+import type { ExtractedTrackData } from './metadataService';
+import { DEFAULT_SETTINGS, settingsService } from './settingsService';
+import { LibraryRoot, libraryRootService } from './libraryRootService';
+import { ScanIssue, scanIssueService } from './scanIssueService';
+
+// Default settings size the scan pool from the browser's core count, which Node 20 doesn't have
+vi.hoisted(() => {
+  vi.stubGlobal('navigator', { hardwareConcurrency: 4 });
+});
+
+// Workers don't exist in Node, so files "parse" to these tags
+vi.mock('./metadataWorkerPool', () => ({
+  MetadataWorkerPool: class {
+    async waitForCapacity() {}
+    async extract(): Promise<ExtractedTrackData> {
+      return {
+        metadata: { title: 'In Bloom', artist: 'Nirvana', album: 'Nevermind', trackNumber: 2 } as ExtractedTrackData['metadata'],
+        albumArt: null,
+        lyrics: null
+      };
+    }
+    destroy() {}
+  }
+}));
+
+const fileHandle = (name: string, content = ''): FileSystemFileHandle =>
+  ({ kind: 'file', name, getFile: async () => new File([content], name, { lastModified: 2000 }) }) as unknown as FileSystemFileHandle;
+
+function directoryHandle(name: string, children: (FileSystemFileHandle | FileSystemDirectoryHandle)[]): FileSystemDirectoryHandle {
+  return {
+    kind: 'directory',
+    name,
+    entries: async function* () {
+      yield* children.map(child => [child.name, child] as const);
+    },
+    getDirectoryHandle: async (childName: string) => {
+      const child = children.find(candidate => candidate.kind === 'directory' && candidate.name === childName);
+      if (!child) throw new DOMException('Not found', 'NotFoundError');
+      return child;
+    }
+  } as unknown as FileSystemDirectoryHandle;
+}
+
+const ROOT: LibraryRoot = {
+  id: 'root',
+  name: 'Music',
+  handle: directoryHandle('Music', [
+    directoryHandle('Nevermind', [fileHandle('02 In Bloom.mp3', 'audio'), fileHandle('cover.jpg', 'image')])
+  ]),
+  addedAt: new Date(0),
+  lastScanned: null
+};
+
+const ISSUE: ScanIssue = {
+  id: 'root/Nevermind/02 In Bloom.mp3',
+  rootId: 'root',
+  filePath: 'Nevermind/02 In Bloom.mp3',
+  reason: 'corrupt',
+  message: 'Invalid frame',
+  firstSeen: new Date(0),
+  lastSeen: new Date(0),
+  ignored: false
+};
+
+// Private methods are stubbed where they'd reach IndexedDB
+const cache = MusicCacheService.getInstance() as any;
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('retryScanIssue', () => {
+  it('rescans a file that already has an entry under its ID, keeping its rating and picking up the folder image', async () => {
+    const existing = {
+      id: 'root/Nevermind/02 In Bloom.mp3',
+      rootId: 'root',
+      filePath: 'Nevermind/02 In Bloom.mp3',
+      fileName: '02 In Bloom.mp3',
+      title: 'Old title',
+      userRating: 4
+    } as MusicLibraryEntry;
+    vi.spyOn(cache, 'initDB').mockResolvedValue(undefined);
+    vi.spyOn(cache, 'getEntriesForRoot').mockResolvedValue([existing]);
+    vi.spyOn(cache, 'pruneOrphanedArtwork').mockResolvedValue(undefined);
+    const deleteEntries = vi.spyOn(cache, 'deleteEntries').mockResolvedValue(undefined);
+    const written: MusicLibraryEntry[] = [];
+    vi.spyOn(cache, 'flushBatch').mockImplementation(async (batch: unknown) => {
+      written.push(...(batch as { entries: MusicLibraryEntry[] }).entries.splice(0));
+    });
+    vi.spyOn(libraryRootService, 'getRoot').mockResolvedValue(ROOT);
+    vi.spyOn(settingsService, 'getSettings').mockResolvedValue(DEFAULT_SETTINGS);
+    vi.spyOn(scanIssueService, 'getIssuesForRoot').mockResolvedValue([]);
+    const removeIssues = vi.spyOn(scanIssueService, 'removeIssues').mockResolvedValue(undefined);
+
+    const remaining = await cache.retryScanIssue(ISSUE);
+
+    expect(remaining).toBeNull();
+    expect(removeIssues).toHaveBeenCalledWith([ISSUE.id]);
+    expect(deleteEntries).not.toHaveBeenCalled();
+    expect(written[0]).toMatchObject({ id: existing.id, title: 'In Bloom', userRating: 4 });
+    expect(written[1]).toMatchObject({ id: existing.id, folderArtKey: 'Nevermind/cover.jpg:5:2000' });
+    expect(written.every(entry => entry.id === existing.id)).toBe(true);
+  });
+});
@@ -1,25 +1,199 @@
-import { extractMetadata, extractAlbumArt } from './metadataService';
-import { scanDirectoryForAudioFiles } from './fileSystemService';
+import type { AudioMetadata, ExtractedTrackData } from './metadataService';
+import { artworkCache } from './artworkCacheService';
+import { ArtworkSize, ArtworkThumbnails, createThumbnails, hashAlbumArt } from '../utils/imageHelpers';
+import { MetadataWorkerPool } from './metadataWorkerPool';
+import { settingsService } from './settingsService';
+import { scanDirectoryForAudioFiles, scanDirectoryOfFile, getFileNameFromPath, readTextFile, ScannedAudioFile, ScannedCueFile, ScannedLibraryFiles } from './fileSystemService';
 import { RadioStation, RadioStationAttribute, RadioStationCriteria, radioStationService } from './radioStationService';
+import { DEFAULT_ROOT_ID, LibraryRoot, libraryRootService } from './libraryRootService';
+import { normalizeGenre } from './id3Service';
+import { SCAN_PHASES, ScanJob, ScanProgress, clearScanCheckpoint, loadScanCheckpoint, saveScanCheckpoint } from './scanJob';
+import { ScanIssue, scanIssueService } from './scanIssueService';
+import { playlistService } from './playlistService';
+import { duplicateService } from './duplicateService';
+import { CueSheetMatch, loadCueSheets } from './cueSheetService';
+import { TrackLyrics } from './lyricsService';
+import { ParsedLyrics, parseLrc, sliceLyricsForTrack } from '../utils/lyricsHelpers';
+import { formatKey, parseKey } from '../utils/musicalKey';
+import type { TagEdits } from './tagWriters/common';
 
 // Define types for our music library entries
 export interface MusicLibraryEntry {
   id: string;
+  // Library root the file was scanned from
+  rootId: string;
+  // Path relative to the library root - together with rootId, the stable identity of the file
   filePath: string;
   fileName: string;
+  // File.lastModified and File.size as of the last metadata extraction
   modifiedTime: number;
+  fileSize?: number;
+  // TAG_FIELDS_VERSION when the tags were extracted; older entries are re-extracted on the next scan
+  tagFieldsVersion?: number | undefined;
+  // Content hash of the track's artwork in the shared artwork store
+  artId?: string;
+  // Set when artId comes from a folder image rather than an embedded picture:
+  // the image's path, size and lastModified, so unchanged images aren't re-read
+  folderArtKey?: string;
+  // Set on entries migrated from v3, whose filePath is still a bare file name
+  legacyPath?: boolean;
+  // Set on tracks a CUE sheet cuts from a single file, which share its filePath: where the track
+  // starts and ends in the file, in seconds. cueEnd is 0 for the last track, which runs to the end
+  cueStart?: number | undefined;
+  cueEnd?: number | undefined;
+  // The CUE sheet's path, size and lastModified, so the file is recut when the sheet changes
+  cueKey?: string | undefined;
+  // The .lrc sidecar's path, size and lastModified, so the file is re-read when its lyrics change
+  lyricsKey?: string | undefined;
   title: string;
   artist: string;
   album: string;
+  // Album artist tag - empty when the file has none, in which case albums group by artist
+  albumArtist: string;
+  // Position on the album, 0 when untagged
+  trackNumber: number;
+  discNumber: number;
+  // MusicBrainz recording ID, shared by every release of the same recording
+  recordingId?: string | undefined;
+  // MusicBrainz release and track artist IDs
+  releaseId?: string | undefined;
+  artistIds?: string[] | undefined;
   genre: string;
   year: number;
   mood: string;
   duration: number;
-  // Volume normalization data
+  // Volume normalization data, as music-metadata reports it: gain as a power ratio, peak as an
+  // amplitude. Filled in from loudness analysis for files without ReplayGain tags
   replayGainTrackGain?: number;
   replayGainTrackPeak?: number;
   averageLevel?: number;
   peakLevel?: number;
+  // Measured by audioAnalysisService; unset until the track has been analyzed
+  loudness?: TrackLoudness | undefined;
+  // Tempo in beats per minute and key (as formatKey writes it, e.g. "A minor"), from the TBPM and
+  // TKEY tags or their equivalents, else estimated by audio analysis
+  bpm?: number | undefined;
+  musicalKey?: string | undefined;
+  // When audio analysis estimated whichever of the two the tags didn't give
+  tempoKeyAnalyzedAt?: number | undefined;
+  // Star ratings from 1 to 5: from the file's tags, and given in the app. The app's wins
+  tagRating?: number | undefined;
+  userRating?: number | undefined;
+  // Normalized keys backing the query indexes - always set through withIndexKeys
+  artistKey: string;
+  albumKey: string;
+  albumArtistKey: string;
+  moodKey: string;
+  genreTokens: string[];
+  decade: number;
+  searchWords: string[];
+}
+
+export interface TrackLoudness {
+  // Integrated loudness in LUFS and true peak in dBTP; null when the track couldn't be measured
+  integratedLufs: number | null;
+  truePeakDb: number | null;
+  // ReplayGain 2.0 gain to bring the track to -18 LUFS
+  trackGainDb: number | null;
+  // Set once every track on the album has been analyzed
+  albumGainDb?: number | undefined;
+  albumPeakDb?: number | undefined;
+  analyzedAt: number;
+}
+
+export type IndexKeyField = 'artistKey' | 'albumKey' | 'albumArtistKey' | 'moodKey' | 'genreTokens' | 'decade' | 'searchWords';
+
+/**
+ * Normalize a tag value for use as an index key
+ */
+export function normalizeKey(value: string): string {
+  return value.toLowerCase().trim();
+}
+
+/**
+ * Split a comma-separated genre tag into normalized genre tokens
+ */
+export function getGenreTokens(genre: string): string[] {
+  return Array.from(new Set(genre.split(',')
+    .map(g => g.trim())
+    .filter(g => g.length > 0)
+    .map(g => normalizeGenre(g))));
+}
+
+/**
+ * Split text into the lowercase words used by the track search index
+ */
+export function getSearchWords(...values: string[]): string[] {
+  const words = new Set<string>();
+  for (const value of values) {
+    for (const word of value.toLowerCase().split(/[^\p{L}\p{N}]+/u)) {
+      if (word.length > 0) words.add(word);
+    }
+  }
+  return Array.from(words);
+}
+
+/**
+ * The artist an album is filed under: the album artist tag, falling back to the track artist
+ */
+export function getAlbumArtist(entry: Pick<MusicLibraryEntry, 'albumArtist' | 'artist'>): string {
+  return entry.albumArtist || entry.artist;
+}
+
+/**
+ * A track's star rating from 1 to 5, or 0 when it has none
+ */
+export function getRating(entry: Pick<MusicLibraryEntry, 'tagRating' | 'userRating'>): number {
+  return entry.userRating ?? entry.tagRating ?? 0;
+}
+
+/**
+ * Sort an album's tracks by disc then track number, keeping untagged tracks in title order at the end
+ */
+export function sortAlbumTracks<T extends MusicLibraryEntry>(tracks: T[]): T[] {
+  return [...tracks].sort((a, b) =>
+    (a.discNumber || 1) - (b.discNumber || 1)
+    || (a.trackNumber || Infinity) - (b.trackNumber || Infinity)
+    || a.title.localeCompare(b.title));
+}
+
+/**
+ * The tags that identify a file's recording, for recognising it after a move or rename
+ */
+function getTagFingerprint(entry: MusicLibraryEntry): string {
+  return [entry.title, entry.artist, entry.album, entry.albumArtist, entry.trackNumber, entry.discNumber, entry.year]
+    .map(value => normalizeKey(String(value)))
+    .join('|');
+}
+
+/**
+ * Fill in the normalized index keys of a library entry from its tags
+ */
+export function withIndexKeys(entry: Omit<MusicLibraryEntry, IndexKeyField>): MusicLibraryEntry {
+  return {
+    ...entry,
+    artistKey: normalizeKey(entry.artist),
+    albumKey: normalizeKey(entry.album),
+    albumArtistKey: normalizeKey(getAlbumArtist(entry)),
+    moodKey: normalizeKey(entry.mood),
+    genreTokens: getGenreTokens(entry.genre),
+    decade: entry.year > 0 ? Math.floor(entry.year / 10) * 10 : 0,
+    searchWords: getSearchWords(entry.title, entry.artist, entry.album),
+  };
+}
+
+export interface ScanReport {
+  added: number;
+  updated: number;
+  removed: number;
+  // Moved or renamed files matched back to their existing entries
+  relinked: number;
+  // The scan was stopped before it finished; the next one resumes from its checkpoint
+  cancelled: boolean;
+  // Files in the root that couldn't be scanned, not counting ignored ones
+  issues: number;
+  // Entries in the root's playlists that didn't match a library track
+  unresolvedPlaylistEntries: number;
 }
 
 export interface AudioTrack extends MusicLibraryEntry {
@@ -55,28 +229,106 @@ export interface StationSearchResult {
   description: string;
   stationId: string;
   imagePath: string | undefined;
+  imageArtId: string | undefined;
 }
 
 export type SearchResult = TrackSearchResult | ArtistSearchResult | AlbumSearchResult | StationSearchResult;
 
+// Artwork shared by every track with the same cover, keyed by content hash
 export interface AlbumArtEntry {
   id: string;
-  data: ArrayBuffer | Blob;
+  data: ArrayBuffer | Uint8Array | Blob;
   mimeType: string;
-  filePath: string; // Add filePath for linking to music entry
+  size: number;
+  // Downscaled copies made when the artwork was first stored; missing on artwork from before thumbnails
+  thumbnails?: ArtworkThumbnails;
+}
+
+// Per-track art row from before v7, keyed by the track ID
+interface LegacyAlbumArtEntry {
+  id: string;
+  data: ArrayBuffer | Uint8Array | Blob;
+  mimeType: string;
+  filePath: string;
+}
+
+export interface ArtworkStorageStats {
+  artworkCount: number;
+  // Bytes actually stored, one copy per distinct cover
+  storedBytes: number;
+  // Bytes a copy per track would take
+  referencedBytes: number;
+  savedBytes: number;
+}
+
+interface PendingFile {
+  file: ScannedAudioFile;
+  fileInfo: File;
+  existing: MusicLibraryEntry | undefined;
+  // Entries whose files went missing with the same size - a new file may be one of them moved
+  relinkCandidates: MusicLibraryEntry[] | undefined;
+  // Identifies the file's .lrc sidecar, if it has one
+  lyricsKey: string | null;
+}
+
+// State shared by the extraction of one root's files
+interface ExtractionContext {
+  report: ScanReport;
+  job: ScanJob;
+  // Missing entries claimed by a moved or renamed file, which must not be deleted
+  relinkedIds: Set<string>;
+  // IDs taken in this root - a relinked entry keeps the ID derived from its old path
+  usedIds: Set<string>;
+  // Recorded problems with files in this root, by path
+  issuesByPath: Map<string, ScanIssue>;
+  // Cached entries by path - more than one when a CUE sheet cuts the file into tracks
+  entriesByPath: Map<string, MusicLibraryEntry[]>;
+  // CUE sheets in this root, by the path of the audio file they cut up
+  cueSheets: Map<string, CueSheetMatch>;
+  // Entries for tracks a changed CUE sheet no longer lists
+  staleIds: string[];
+}
+
+interface ExtractedBatch {
+  entries: MusicLibraryEntry[];
+  art: Map<string, AlbumArtEntry>;
+  // Lyrics by track ID; null removes lyrics a track no longer has
+  lyrics: Map<string, TrackLyrics | null>;
 }
 
 // IndexedDB database name and version
 const DB_NAME = 'MusicLibraryDB';
-const DB_VERSION = 3;
+const DB_VERSION = 19;
+// Bump whenever createEntry starts reading another tag, so the next scan re-extracts every file
+// once to fill it in. Entries from before this was recorded have no version and are re-extracted too
+const TAG_FIELDS_VERSION = 1;
 const MUSIC_LIBRARY_STORE = 'musicLibrary';
+// Per-track art from before v7 - emptied into ARTWORK_STORE by migrateLegacyAlbumArt
 const ALBUM_ART_STORE = 'albumArt';
+const ARTWORK_STORE = 'artwork';
 const RADIO_STATIONS_STORE = 'radioStations';
+const DUPLICATE_GROUPS_STORE = 'duplicateGroups';
+const SCAN_ISSUES_STORE = 'scanIssues';
+const PLAYLISTS_STORE = 'playlists';
+const LYRICS_STORE = 'lyrics';
+const PLAY_STATS_STORE = 'playStats';
+const LISTENING_HISTORY_STORE = 'listeningHistory';
+const STATION_FEEDBACK_STORE = 'stationFeedback';
+// Shorter queries only match the start of words, as matching inside them would find most of the library
+const MIN_SUBSTRING_QUERY = 3;
+
+// Number of extracted files written per IndexedDB transaction during a scan
+const WRITE_BATCH_SIZE = 50;
+// Number of legacy art rows hashed per transaction while migrating
+const ART_MIGRATION_BATCH_SIZE = 25;
 
 export class MusicCacheService {
   private static instance: MusicCacheService | null = null;
   private db: IDBDatabase | null = null;
-  private onProgressCallback: ((current: number, total: number) => void) | null = null;
+  private legacyArtMigrated = false;
+  private onProgressCallback: ((progress: ScanProgress | null) => void) | null = null;
+  private onScanCompleteCallback: ((report: ScanReport, root: LibraryRoot) => void) | null = null;
+  private currentJob: ScanJob | null = null;
 
   private constructor() {
   }
@@ -88,9 +340,62 @@ export class MusicCacheService {
     return MusicCacheService.instance;
   }
 
-  public async loadFromFolder(directoryHandle: FileSystemDirectoryHandle): Promise<void> {
+  /**
+   * Scan a single library root, leaving entries from other roots untouched
+   */
+  public async loadFromRoot(root: LibraryRoot): Promise<ScanReport> {
     await this.initDB();
-    await this.updateCache(directoryHandle);
+    const job = new ScanJob(root.name, this.onProgressCallback);
+    this.currentJob = job;
+    try {
+      const report = await this.updateCache(root, job);
+      report.issues = await scanIssueService.countIssues(root.id);
+      report.unresolvedPlaylistEntries = await playlistService.countUnresolved(root.id);
+      if (!report.cancelled) {
+        await libraryRootService.markScanned(root.id);
+      }
+      this.onScanCompleteCallback?.(report, root);
+      return report;
+    } finally {
+      this.currentJob = null;
+      job.finish();
+    }
+  }
+
+  public get isScanning(): boolean {
+    return this.currentJob !== null;
+  }
+
+  /**
+   * Stop the scan in progress, if any. It returns once in-flight work has been written
+   */
+  public cancelScan(): void {
+    this.currentJob?.cancel();
+  }
+
+  /**
+   * Rescan every library root the app still has permission to read
+   */
+  public async loadAllRoots(): Promise<ScanReport> {
+    const total: ScanReport = { added: 0, updated: 0, removed: 0, relinked: 0, cancelled: false, issues: 0, unresolvedPlaylistEntries: 0 };
+    for (const root of await libraryRootService.getRoots()) {
+      if (await libraryRootService.queryPermission(root) !== 'granted') {
+        console.log(`Skipping ${root.name}: permission not granted`);
+        continue;
+      }
+      const report = await this.loadFromRoot(root);
+      total.added += report.added;
+      total.updated += report.updated;
+      total.removed += report.removed;
+      total.relinked += report.relinked;
+      total.issues += report.issues;
+      total.unresolvedPlaylistEntries += report.unresolvedPlaylistEntries;
+      if (report.cancelled) {
+        total.cancelled = true;
+        break;
+      }
+    }
+    return total;
   }
 
   public async initDB(): Promise<void> {
@@ -102,13 +407,19 @@ export class MusicCacheService {
         reject(request.error);
       };
 
-      request.onsuccess = () => {
+      request.onsuccess = async () => {
         this.db = request.result;
+        try {
+          await this.migrateLegacyAlbumArt();
+        } catch (error) {
+          console.error('Error migrating album art:', error);
+        }
         resolve();
       };
 
       request.onupgradeneeded = (event) => {
         const db = (event.target as IDBOpenDBRequest).result;
+        const upgradeTransaction = (event.target as IDBOpenDBRequest).transaction!;
 
         // Create object stores if they don't exist
         if (!db.objectStoreNames.contains(MUSIC_LIBRARY_STORE)) {
@@ -126,119 +437,752 @@ export class MusicCacheService {
           const stationStore = db.createObjectStore(RADIO_STATIONS_STORE, { keyPath: 'id' });
           stationStore.createIndex('name', 'name', { unique: false });
         }
+
+        const musicStore = upgradeTransaction.objectStore(MUSIC_LIBRARY_STORE);
+        const artStore = upgradeTransaction.objectStore(ALBUM_ART_STORE);
+
+        // v5: several library roots can contain the same relative path, so paths are only unique per root
+        if (event.oldVersion < 5) {
+          musicStore.deleteIndex('filePath');
+          musicStore.createIndex('rootPath', ['rootId', 'filePath'], { unique: true });
+          musicStore.createIndex('rootId', 'rootId');
+          artStore.deleteIndex('filePath');
+          artStore.createIndex('filePath', 'filePath');
+        }
+
+        // v6: normalized tag indexes, so lookups scale with the result size instead of the library size
+        if (event.oldVersion < 6) {
+          musicStore.createIndex('artistKey', 'artistKey');
+          musicStore.createIndex('albumKey', 'albumKey');
+          musicStore.createIndex('albumArtistAlbum', ['albumArtistKey', 'albumKey']);
+          musicStore.createIndex('moodKey', 'moodKey');
+          musicStore.createIndex('genreTokens', 'genreTokens', { multiEntry: true });
+          musicStore.createIndex('decade', 'decade');
+          musicStore.createIndex('year', 'year');
+          musicStore.createIndex('searchWords', 'searchWords', { multiEntry: true });
+        }
+
+        // v7: artwork is stored once per distinct cover and shared between tracks
+        if (event.oldVersion < 7) {
+          db.createObjectStore(ARTWORK_STORE, { keyPath: 'id' });
+          musicStore.createIndex('artId', 'artId');
+        }
+
+        // v9: duplicate groups found by duplicateService, with the preferred copy picked for each
+        if (event.oldVersion < 9) {
+          db.createObjectStore(DUPLICATE_GROUPS_STORE, { keyPath: 'id' });
+        }
+
+        // v10: files that failed to scan, for the library problems view
+        if (event.oldVersion < 10) {
+          const issueStore = db.createObjectStore(SCAN_ISSUES_STORE, { keyPath: 'id' });
+          issueStore.createIndex('rootId', 'rootId');
+        }
+
+        // v11: playlists imported from M3U and PLS files in the library
+        if (event.oldVersion < 11) {
+          const playlistStore = db.createObjectStore(PLAYLISTS_STORE, { keyPath: 'id' });
+          playlistStore.createIndex('rootId', 'rootId');
+        }
+
+        // v12: lyrics per track, from embedded tags and .lrc sidecars
+        if (event.oldVersion < 12) {
+          db.createObjectStore(LYRICS_STORE, { keyPath: 'trackId' });
+        }
+
+        // v13: tempo and key, for station criteria
+        if (event.oldVersion < 13) {
+          musicStore.createIndex('bpm', 'bpm');
+          musicStore.createIndex('musicalKey', 'musicalKey');
+        }
+
+        // v14: play and skip counts per track
+        if (event.oldVersion < 14) {
+          const statsStore = db.createObjectStore(PLAY_STATS_STORE, { keyPath: 'trackId' });
+          statsStore.createIndex('playCount', 'playCount');
+          statsStore.createIndex('lastPlayed', 'lastPlayed');
+        }
+
+        // v15: timestamped listening events for the history view
+        if (event.oldVersion < 15) {
+          const historyStore = db.createObjectStore(LISTENING_HISTORY_STORE, { keyPath: 'id', autoIncrement: true });
+          historyStore.createIndex('startedAt', 'startedAt');
+          historyStore.createIndex('trackId', 'trackId');
+        }
+
+        // v17: star ratings, for the minimum rating station criterion
+        if (event.oldVersion < 17) {
+          musicStore.createIndex('tagRating', 'tagRating');
+          musicStore.createIndex('userRating', 'userRating');
+        }
+
+        // v18: thumbs up and down given to tracks on stations
+        if (event.oldVersion < 18) {
+          const feedbackStore = db.createObjectStore(STATION_FEEDBACK_STORE, { keyPath: 'id', autoIncrement: true });
+          feedbackStore.createIndex('stationId', 'stationId');
+        }
+
+        // v19: a file cut up by a CUE sheet has an entry per track, all at the same path
+        if (event.oldVersion < 19) {
+          musicStore.deleteIndex('rootPath');
+          musicStore.createIndex('rootPath', ['rootId', 'filePath']);
+        }
+
+        // Bring entries written by older versions up to the current shape
+        if (event.oldVersion > 0) {
+          musicStore.openCursor().onsuccess = (cursorEvent) => {
+            const cursor = (cursorEvent.target as IDBRequest<IDBCursorWithValue | null>).result;
+            if (!cursor) return;
+            cursor.update(this.migrateEntry(cursor.value, event.oldVersion));
+            cursor.continue();
+          };
+        }
       };
     });
   }
 
-  async updateCache(directoryHandle: FileSystemDirectoryHandle): Promise<void> {
+  /**
+   * Upgrade an entry written by an older DB version to the current shape
+   */
+  private migrateEntry(entry: MusicLibraryEntry, oldVersion: number): MusicLibraryEntry {
+    // v4: filePath became the path relative to the library root. Older entries only
+    // know their file name, so flag them to be relinked on the next scan
+    if (oldVersion < 4) {
+      entry.legacyPath = true;
+    }
+    // v5: entries belong to a library root; everything before that came from the one saved folder
+    if (oldVersion < 5) {
+      entry.rootId = DEFAULT_ROOT_ID;
+    }
+    // v6: normalized keys for the tag indexes
+    if (oldVersion < 6) {
+      entry = withIndexKeys(entry);
+    }
+    // v8: album artist, track and disc numbers
+    if (oldVersion < 8) {
+      entry = withIndexKeys({ ...entry, albumArtist: '', trackNumber: 0, discNumber: 0 });
+    }
+    // v9, v12, v13, v16 and v17 added tag fields (recording IDs, lyrics, tempo and key, release and
+    // artist IDs, ratings). Entries are brought up to date by re-extraction, not here: see TAG_FIELDS_VERSION
+    return entry;
+  }
+
+  /**
+   * Scan a root in phases: list the files, extract tags from new and changed ones, match folder
+   * artwork, import playlists, then look for duplicates and regenerate stations. A checkpoint saved
+   * between phases lets an interrupted scan resume where it stopped. A cancelled scan returns at the next safe point with `cancelled` set
+   */
+  async updateCache(root: LibraryRoot, job: ScanJob): Promise<ScanReport> {
     if (!this.db) {
       throw new Error('Database not initialized');
     }
 
+    const report: ScanReport = { added: 0, updated: 0, removed: 0, relinked: 0, cancelled: false, issues: 0, unresolvedPlaylistEntries: 0 };
     try {
-      // Get current cached files
-      const cachedFiles = await this.getAllCachedEntries();
+      const checkpoint = await loadScanCheckpoint(root.id);
+      let files: ScannedLibraryFiles;
+      if (checkpoint) {
+        console.log(`Resuming scan of ${root.name} at the ${checkpoint.phase} phase`);
+        files = { audioFiles: checkpoint.audioFiles, playlistFiles: checkpoint.playlistFiles, cueFiles: checkpoint.cueFiles };
+      } else {
+        // Scan for all audio and playlist files in the root
+        job.startPhase('enumerate');
+        const { coverFileNames } = await settingsService.getSettings();
+        files = await scanDirectoryForAudioFiles(root.handle, coverFileNames, {
+          signal: job.signal,
+          onFile: path => job.advance(path)
+        });
+        if (job.isCancelled) {
+          return { ...report, cancelled: true };
+        }
+        await saveScanCheckpoint(root.id, 'extract', files);
+      }
+      const { audioFiles, playlistFiles } = files;
 
-      // Scan for all audio files in the directory
-      const audioFiles = await scanDirectoryForAudioFiles(directoryHandle);
+      // A checkpoint past extraction means the files were already read, matched and cleaned up
+      const resumeAt = SCAN_PHASES.indexOf(checkpoint?.phase ?? 'extract');
+      let needsPrune = resumeAt > SCAN_PHASES.indexOf('extract');
 
-      // Update progress - start at 0%
-      if (this.onProgressCallback) {
-        this.onProgressCallback(0, audioFiles.length);
+      if (resumeAt <= SCAN_PHASES.indexOf('extract')) {
+        await this.extractChanges(root, audioFiles, files.cueFiles, job, report);
+        if (job.isCancelled) {
+          return { ...report, cancelled: true };
+        }
+        await saveScanCheckpoint(root.id, 'art', files);
+        // Retagged and removed tracks may have left covers nothing points to any more
+        needsPrune = report.updated > 0 || report.removed > 0;
       }
 
-      // Create a set of file paths that exist in the directory
-      const directoryFilePaths = new Set(audioFiles.map(file => file.name));
-
-      // Identify files that no longer exist in the directory
-      const deletedEntries: string[] = [];
-      const existingEntries = cachedFiles.filter(entry => {
-        if (!directoryFilePaths.has(entry.filePath)) {
-          deletedEntries.push(entry.id);
-          return false;
+      if (resumeAt <= SCAN_PHASES.indexOf('art')) {
+        job.startPhase('art', audioFiles.length);
+        const folderArtUpdates = await this.applyFolderArtwork(root.id, audioFiles, job);
+        if (job.isCancelled) {
+          return { ...report, cancelled: true };
         }
-        return true;
-      });
+        if (needsPrune || folderArtUpdates > 0) {
+          await this.pruneOrphanedArtwork();
+        }
+        await saveScanCheckpoint(root.id, 'playlists', files);
+      }
 
-      // Delete entries for files that no longer exist
-      if (deletedEntries.length > 0) {
-        console.log(`Deleting ${deletedEntries.length} entries`);
-        await this.deleteEntries(deletedEntries);
-        console.log(`Deleted ${deletedEntries.length} entries`);
+      if (resumeAt <= SCAN_PHASES.indexOf('playlists')) {
+        // Playlists resolve against the whole library, so they're imported once the tracks are in
+        job.startPhase('playlists', playlistFiles.length);
+        await playlistService.importPlaylists(root.id, playlistFiles, job);
+        if (job.isCancelled) {
+          return { ...report, cancelled: true };
+        }
+        await saveScanCheckpoint(root.id, 'stations', files);
       }
 
-      // Find new files and extract metadata
-      const newFiles = audioFiles.filter(file => !cachedFiles.some(entry => entry.filePath === file.name));
-      const newEntries: MusicLibraryEntry[] = [];
+      console.log(`Scan complete: ${report.added} added, ${report.updated} updated, ${report.relinked} relinked, ${report.removed} removed`);
+
+      job.startPhase('stations', 1);
+      // Copies are found again after every scan, so stations and the review screen see the current library
+      await duplicateService.detectDuplicates();
+      await this.scanForRadioStations();
+      job.advance();
+      await clearScanCheckpoint(root.id);
 
-      // Update progress - start at 0%
-      if (this.onProgressCallback) {
-        this.onProgressCallback(0, newFiles.length);
+      console.log('Cache update completed');
+      return report;
+    } catch (error) {
+      console.error('Error updating cache:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Find new, changed, moved and deleted files and bring the cache in line with them.
+   * Missing entries are only deleted once extraction has finished, as moved files claim
+   * theirs along the way; a cancelled extraction leaves them for the next scan
+   */
+  private async extractChanges(root: LibraryRoot, audioFiles: ScannedAudioFile[], cueFiles: ScannedCueFile[], job: ScanJob, report: ScanReport): Promise<void> {
+    // Get current cached files for this root, relinking any entries still keyed by bare file name
+    const cachedFiles = await this.migrateLegacyPaths(root.id, await this.getEntriesForRoot(root.id), audioFiles);
+
+    // Create a set of file paths that exist in the directory
+    const directoryFilePaths = new Set(audioFiles.map(file => file.path));
+
+    // Problems with files that have since gone are no longer worth reporting
+    const issues = await scanIssueService.getIssuesForRoot(root.id);
+    await scanIssueService.removeIssues(issues.filter(issue => !directoryFilePaths.has(issue.filePath)).map(issue => issue.id));
+    const issuesByPath = new Map(issues.map(issue => [issue.filePath, issue]));
+
+    // Identify files that no longer exist in the directory. They may have been moved or
+    // renamed, so new files of the same size get a chance to claim them before they're deleted
+    const missingBySize = new Map<number, MusicLibraryEntry[]>();
+    const missingEntries = cachedFiles.filter(entry => !directoryFilePaths.has(entry.filePath));
+    for (const entry of missingEntries) {
+      if (entry.fileSize !== undefined) {
+        missingBySize.set(entry.fileSize, [...(missingBySize.get(entry.fileSize) || []), entry]);
       }
+    }
 
-      for (let i = 0; i < newFiles.length; i++) {
-        const file = newFiles[i]!;
-        try {
-          const metadata = await extractMetadata(file);
-          if (metadata) {
-            const entry: MusicLibraryEntry = {
-              id: this.generateId(file.name),
-              filePath: file.name,
-              fileName: file.name,
-              modifiedTime: Date.now(),
-              title: metadata.title || 'Unknown Title',
-              artist: metadata.artist || 'Unknown Artist',
-              album: metadata.album || 'Unknown Album',
-              genre: metadata.genre?.join(', ') || '',
-              year: metadata.year || 0,
-              mood: metadata.mood || '',
-              duration: metadata.duration || 0
-            };
-            newEntries.push(entry);
-
-            // Store the music entry first
-            await this.storeEntries([entry]);
-
-            // Extract and store album art if available
-            const albumArt = await extractAlbumArt(file);
-            if (albumArt && albumArt.data) {
-              await this.storeAlbumArt({
-                id: this.generateId(file.name), // Use same ID as music entry for linking
-                data: albumArt.data,
-                mimeType: albumArt.mimeType,
-                filePath: file.name
-              });
-            }
+    // A file cut up by a CUE sheet has an entry per track. The first track's entry stands for the
+    // file, and keeps the file's ID when a sheet is added or removed
+    const entriesByPath = new Map<string, MusicLibraryEntry[]>();
+    for (const entry of cachedFiles) {
+      entriesByPath.set(entry.filePath, [...(entriesByPath.get(entry.filePath) || []), entry]);
+    }
+    const cueSheets = await loadCueSheets(cueFiles, audioFiles.map(file => file.path));
+
+    // Find new and changed files - untouched files keep their cached metadata. Checking them
+    // counts towards listing, as a resumed scan still has to do it
+    job.startPhase('enumerate', audioFiles.length);
+    const pendingFiles: PendingFile[] = [];
+    for (const file of audioFiles) {
+      if (job.isCancelled) return;
+      const existing = entriesByPath.get(file.path)?.reduce((first, entry) => (entry.cueStart ?? 0) < (first.cueStart ?? 0) ? entry : first);
+      const issue = issuesByPath.get(file.path);
+      try {
+        const fileInfo = await file.handle.getFile();
+        // Ignored files are left alone until they change
+        const isIgnored = issue?.ignored && issue.fileSize === fileInfo.size && issue.modifiedTime === fileInfo.lastModified;
+        const cueChanged = (existing?.cueKey ?? null) !== (cueSheets.get(file.path)?.key ?? null);
+        const lyricsKey = file.lyricsFile ? await this.getSidecarKey(file.lyricsFile.handle, file.lyricsFile.path) : null;
+        const lyricsChanged = (existing?.lyricsKey ?? null) !== lyricsKey;
+        const tagsOutdated = existing?.tagFieldsVersion !== TAG_FIELDS_VERSION;
+        if (!isIgnored && (!existing || cueChanged || lyricsChanged || tagsOutdated || existing.fileSize !== fileInfo.size || existing.modifiedTime !== fileInfo.lastModified)) {
+          const relinkCandidates = existing ? undefined : missingBySize.get(fileInfo.size);
+          pendingFiles.push({ file, fileInfo, existing, relinkCandidates, lyricsKey });
+        }
+      } catch (error) {
+        console.error(`Error reading file info for ${file.path}:`, error);
+        await scanIssueService.recordIssue(root.id, file.path, error);
+      }
+      job.advance(file.path);
+    }
 
-            // Update progress - increment by 1/total files percentage
-            if (this.onProgressCallback) {
-              this.onProgressCallback(i + 1, newFiles.length);
-            }
+    const context: ExtractionContext = {
+      report,
+      job,
+      relinkedIds: new Set(),
+      usedIds: new Set(cachedFiles.map(entry => entry.id)),
+      issuesByPath,
+      entriesByPath,
+      cueSheets,
+      staleIds: []
+    };
+    await this.extractPendingFiles(root, pendingFiles, context);
+    if (context.staleIds.length > 0) {
+      await this.deleteEntries(context.staleIds);
+    }
+    if (job.isCancelled) return;
+
+    // Delete entries for files that no longer exist and weren't relinked
+    const deletedEntries = missingEntries.filter(entry => !context.relinkedIds.has(entry.id)).map(entry => entry.id);
+    if (deletedEntries.length > 0) {
+      console.log(`Deleting ${deletedEntries.length} entries`);
+      await this.deleteEntries(deletedEntries);
+      console.log(`Deleted ${deletedEntries.length} entries`);
+    }
+    report.removed = deletedEntries.length;
+  }
+
+  /**
+   * Parse new and changed files on the metadata worker pool, writing the results in batches.
+   * Files are handed to the pool only as fast as it drains, so a large first scan never
+   * holds more than a few files in memory and the UI thread only does bookkeeping
+   */
+  private async extractPendingFiles(root: LibraryRoot, pendingFiles: PendingFile[], context: ExtractionContext): Promise<void> {
+    const { report, job } = context;
+    job.startPhase('extract', pendingFiles.length);
+    if (pendingFiles.length === 0) return;
+
+    const settings = await settingsService.getSettings();
+    const pool = new MetadataWorkerPool(settings.scanConcurrency);
+    const batch: ExtractedBatch = { entries: [], art: new Map(), lyrics: new Map() };
+
+    const resolvedIssues: string[] = [];
+    const handleResult = async ({ file, fileInfo, existing, relinkCandidates, lyricsKey }: PendingFile, data: ExtractedTrackData | null, error?: unknown) => {
+      if (!data) {
+        // Keep the file's failure so it shows up as a library problem instead of vanishing
+        await scanIssueService.recordIssue(root.id, file.path, error ?? new Error('No metadata could be read'), fileInfo);
+      } else {
+        const issue = context.issuesByPath.get(file.path);
+        if (issue) {
+          resolvedIssues.push(issue.id);
+        }
+
+        const entry = this.createEntry(existing?.id ?? '', root.id, file, fileInfo, data.metadata);
+        const cueSheet = context.cueSheets.get(file.path);
+        // Files re-read for their sidecars or after an upgrade still have the same audio
+        if (existing && !cueSheet && existing.modifiedTime === fileInfo.lastModified) {
+          this.keepAudioAnalysis(entry, existing);
+        }
+        // A moved file cut up by a CUE sheet is recognised by its first track
+        const relinked = !existing && relinkCandidates
+          ? this.findRelinkMatch(relinkCandidates, cueSheet ? this.splitCueTracks(entry, cueSheet)[0]! : entry, context.relinkedIds)
+          : undefined;
+        // Changed, moved and renamed files keep their ID so anything linked to the track survives
+        if (!existing) {
+          entry.id = relinked?.id ?? this.generateUniqueId(`${root.id}/${file.path}`, context.usedIds);
+        }
+
+        // Link the shared artwork record for this cover, if there is one
+        if (data.albumArt) {
+          entry.artId = data.albumArt.hash;
+          batch.art.set(data.albumArt.hash, {
+            id: data.albumArt.hash,
+            data: data.albumArt.data,
+            mimeType: data.albumArt.mimeType,
+            size: data.albumArt.data.byteLength
+          });
+        }
+        if (lyricsKey) {
+          entry.lyricsKey = lyricsKey;
+        }
+        const entries = cueSheet ? this.splitCueTracks(entry, cueSheet) : [entry];
+        // Ratings given in the app belong to the track rather than the file, so they outlast retagging and moves
+        const relinkedTracks = relinked ? relinkCandidates!.filter(candidate => candidate.filePath === relinked.filePath) : [];
+        const previousTracks = new Map([...((existing && context.entriesByPath.get(file.path)) || []), ...relinkedTracks]
+          .map(previous => [previous.id, previous]));
+        for (const track of entries) {
+          const userRating = previousTracks.get(track.id)?.userRating;
+          if (userRating !== undefined) {
+            track.userRating = userRating;
           }
-        } catch (error) {
-          console.error(`Error extracting metadata from ${file.name}:`, error);
+        }
+        batch.entries.push(...entries);
+
+        // A sidecar wins over embedded lyrics, as it's usually there to add timing the tags lack
+        const sidecarLyrics = file.lyricsFile ? await this.readLyricsFile(file.lyricsFile.handle) : null;
+        const lyrics = sidecarLyrics ?? data.lyrics;
+        for (const track of entries) {
+          const trackLyrics = lyrics ? sliceLyricsForTrack(lyrics, track) : null;
+          batch.lyrics.set(track.id, trackLyrics
+            ? { ...trackLyrics, trackId: track.id, source: sidecarLyrics ? 'lrc' : 'embedded' }
+            : null);
+        }
+
+        // Tracks a changed sheet no longer lists, or all but the first once the sheet is gone
+        const keptIds = new Set(entries.map(track => track.id));
+        for (const previous of (existing && context.entriesByPath.get(file.path)) || []) {
+          if (!keptIds.has(previous.id)) {
+            context.staleIds.push(previous.id);
+          }
+        }
+
+        if (existing) {
+          report.updated++;
+        } else if (relinked) {
+          // The moved file's other tracks are rewritten under the same IDs, so none are deleted
+          entries.forEach(track => context.relinkedIds.add(track.id));
+          report.relinked++;
+        } else {
+          report.added++;
         }
       }
 
-      // Clean up progress display
-      if (this.onProgressCallback) {
-        this.onProgressCallback(0, 0);
+      if (batch.entries.length >= WRITE_BATCH_SIZE) {
+        await this.flushBatch(batch);
       }
+      job.advance(file.path);
+    };
 
-      // Add new entries to the database
-      if (newEntries.length > 0) {
-        console.log(`Added ${newEntries.length} new entries`);
+    try {
+      const tasks: Promise<void>[] = [];
+      for (const pending of pendingFiles) {
+        await pool.waitForCapacity();
+        // Files already handed to the pool still finish and get written
+        if (job.isCancelled) break;
+        tasks.push(pool.extract(pending.fileInfo)
+          .then(data => handleResult(pending, data), error => {
+            console.error(`Error extracting metadata from ${pending.file.path}:`, error);
+            return handleResult(pending, null, error);
+          }));
       }
+      await Promise.all(tasks);
+      await this.flushBatch(batch);
+      await scanIssueService.removeIssues(resolvedIssues);
+    } finally {
+      pool.destroy();
+    }
+  }
 
-      await this.scanForRadioStations();
+  /**
+   * Write a batch of extracted entries and art in a single transaction, then empty the batch
+   */
+  private async flushBatch(batch: ExtractedBatch): Promise<void> {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+    if (batch.entries.length === 0 && batch.art.size === 0 && batch.lyrics.size === 0) return;
 
-      console.log('Cache update completed');
+    const entries = batch.entries.splice(0);
+    const art = await this.prepareNewArtwork(Array.from(batch.art.values()));
+    batch.art.clear();
+    const lyrics = Array.from(batch.lyrics.entries());
+    batch.lyrics.clear();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([MUSIC_LIBRARY_STORE, ARTWORK_STORE, LYRICS_STORE], 'readwrite');
+      const musicStore = transaction.objectStore(MUSIC_LIBRARY_STORE);
+      const artStore = transaction.objectStore(ARTWORK_STORE);
+      const lyricsStore = transaction.objectStore(LYRICS_STORE);
+
+      entries.forEach(entry => musicStore.put(entry));
+      art.forEach(artEntry => artStore.put(artEntry));
+      lyrics.forEach(([trackId, trackLyrics]) => trackLyrics ? lyricsStore.put(trackLyrics) : lyricsStore.delete(trackId));
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Artwork is immutable per hash, so drop covers that are already stored and make
+   * thumbnails for the rest. Runs before the write transaction, which can't wait on image work
+   */
+  private async prepareNewArtwork(art: AlbumArtEntry[]): Promise<AlbumArtEntry[]> {
+    if (art.length === 0) return art;
+
+    const storedIds = await new Promise<Set<string>>((resolve, reject) => {
+      const transaction = this.db!.transaction([ARTWORK_STORE], 'readonly');
+      const store = transaction.objectStore(ARTWORK_STORE);
+      const stored = new Set<string>();
+      art.forEach(artEntry => {
+        const request = store.getKey(artEntry.id);
+        request.onsuccess = () => {
+          if (request.result !== undefined) {
+            stored.add(artEntry.id);
+          }
+        };
+      });
+      transaction.oncomplete = () => resolve(stored);
+      transaction.onerror = () => reject(transaction.error);
+    });
+
+    const newArt = art.filter(artEntry => !storedIds.has(artEntry.id));
+    for (const artEntry of newArt) {
+      artEntry.thumbnails = await createThumbnails(artEntry.data, artEntry.mimeType);
+    }
+    return newArt;
+  }
+
+  /**
+   * Point tracks without an embedded picture at the cover image in their directory, and unlink
+   * tracks whose folder image has gone. Each image is read at most once per scan, and only when
+   * it is new or has changed. Returns the number of entries updated
+   */
+  private async applyFolderArtwork(rootId: string, audioFiles: ScannedAudioFile[], job: ScanJob): Promise<number> {
+    // Tracks cut from one file by a CUE sheet share its path, and its folder image
+    const entriesByPath = new Map<string, MusicLibraryEntry[]>();
+    for (const entry of await this.getEntriesForRoot(rootId)) {
+      entriesByPath.set(entry.filePath, [...(entriesByPath.get(entry.filePath) || []), entry]);
+    }
+    const imageKeys = new Map<string, string | null>();
+    const artIdsByKey = new Map<string, string | null>();
+    const batch: ExtractedBatch = { entries: [], art: new Map(), lyrics: new Map() };
+
+    for (const file of audioFiles) {
+      if (job.isCancelled) break;
+      job.advance(file.path);
+      for (const entry of entriesByPath.get(file.path) || []) {
+        // Embedded pictures always win over folder images
+        if (entry.artId && !entry.folderArtKey) continue;
+
+        const imageKey = file.folderImage ? await this.getFolderImageKey(file.folderImage.handle, file.folderImage.path, imageKeys) : null;
+        if (!imageKey) {
+          if (entry.folderArtKey) {
+            const { artId, folderArtKey, ...rest } = entry;
+            batch.entries.push(rest);
+          }
+          continue;
+        }
+        if (entry.folderArtKey === imageKey && entry.artId) continue;
+
+        if (!artIdsByKey.has(imageKey)) {
+          const artwork = await this.readFolderImage(file.folderImage!.handle);
+          if (artwork) {
+            batch.art.set(artwork.id, artwork);
+          }
+          artIdsByKey.set(imageKey, artwork?.id ?? null);
+        }
+        const artId = artIdsByKey.get(imageKey);
+        if (artId) {
+          batch.entries.push({ ...entry, artId, folderArtKey: imageKey });
+        }
+      }
+    }
+
+    const updated = batch.entries.length;
+    await this.flushBatch(batch);
+    if (updated > 0) {
+      console.log(`Updated folder artwork for ${updated} tracks`);
+    }
+    return updated;
+  }
+
+  /**
+   * Identify a folder image by path, size and lastModified, caching the result per scan
+   */
+  private async getFolderImageKey(handle: FileSystemFileHandle, path: string, cache: Map<string, string | null>): Promise<string | null> {
+    if (!cache.has(path)) {
+      try {
+        const image = await handle.getFile();
+        cache.set(path, `${path}:${image.size}:${image.lastModified}`);
+      } catch (error) {
+        console.error(`Error reading folder image ${path}:`, error);
+        cache.set(path, null);
+      }
+    }
+    return cache.get(path) ?? null;
+  }
+
+  /**
+   * Read a folder image into an artwork record keyed by its content hash
+   */
+  private async readFolderImage(handle: FileSystemFileHandle): Promise<AlbumArtEntry | null> {
+    try {
+      const image = await handle.getFile();
+      const data = new Uint8Array(await image.arrayBuffer());
+      return {
+        id: await hashAlbumArt(data),
+        data,
+        mimeType: image.type || (image.name.toLowerCase().endsWith('.png') ? 'image/png' : 'image/jpeg'),
+        size: data.byteLength
+      };
     } catch (error) {
-      console.error('Error updating cache:', error);
-      throw error;
+      console.error(`Error reading folder image ${handle.name}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Identify a sidecar file such as an .lrc by path, size and lastModified
+   */
+  private async getSidecarKey(handle: FileSystemFileHandle, path: string): Promise<string | null> {
+    try {
+      const sidecar = await handle.getFile();
+      return `${path}:${sidecar.size}:${sidecar.lastModified}`;
+    } catch (error) {
+      console.error(`Error reading ${path}:`, error);
+      return null;
+    }
+  }
+
+  private async readLyricsFile(handle: FileSystemFileHandle): Promise<ParsedLyrics | null> {
+    try {
+      const lyrics = parseLrc(await readTextFile(await handle.getFile()));
+      return lyrics.lines.some(line => line.text.length > 0) ? lyrics : null;
+    } catch (error) {
+      console.error(`Error reading lyrics file ${handle.name}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Store tag edits that were just written to a track's file. The new size and modification
+   * time are recorded too, so the next scan doesn't re-extract the file
+   */
+  public async applyTagEdits(entry: MusicLibraryEntry, edits: TagEdits, fileInfo: File): Promise<MusicLibraryEntry> {
+    const updated = withIndexKeys({
+      ...entry,
+      title: edits.title !== undefined ? edits.title.trim() || 'Unknown Title' : entry.title,
+      artist: edits.artist !== undefined ? edits.artist.trim() || 'Unknown Artist' : entry.artist,
+      album: edits.album !== undefined ? edits.album.trim() || 'Unknown Album' : entry.album,
+      genre: edits.genre !== undefined ? edits.genre.trim() : entry.genre,
+      year: edits.year ?? entry.year,
+      mood: edits.mood !== undefined ? edits.mood.trim() : entry.mood,
+      modifiedTime: fileInfo.lastModified,
+      fileSize: fileInfo.size
+    });
+    await this.storeEntries([updated]);
+    return updated;
+  }
+
+  /**
+   * Build a library entry from freshly extracted metadata
+   */
+  private createEntry(id: string, rootId: string, file: ScannedAudioFile, fileInfo: File, metadata: AudioMetadata): MusicLibraryEntry {
+    const musicalKey = metadata.musicalKey ? parseKey(metadata.musicalKey) : null;
+    return withIndexKeys({
+      id,
+      rootId,
+      filePath: file.path,
+      fileName: file.handle.name,
+      modifiedTime: fileInfo.lastModified,
+      fileSize: fileInfo.size,
+      tagFieldsVersion: TAG_FIELDS_VERSION,
+      title: metadata.title || 'Unknown Title',
+      artist: metadata.artist || 'Unknown Artist',
+      album: metadata.album || 'Unknown Album',
+      albumArtist: metadata.albumArtist || '',
+      trackNumber: metadata.trackNumber || 0,
+      discNumber: metadata.discNumber || 0,
+      recordingId: metadata.musicBrainzRecordingId,
+      releaseId: metadata.musicBrainzReleaseId,
+      artistIds: metadata.musicBrainzArtistIds?.length ? metadata.musicBrainzArtistIds : undefined,
+      genre: metadata.genre?.join(', ') || '',
+      year: metadata.year || 0,
+      mood: metadata.mood || '',
+      duration: metadata.duration || 0,
+      ...(metadata.bpm ? { bpm: Math.round(metadata.bpm) } : {}),
+      ...(musicalKey ? { musicalKey: formatKey(musicalKey) } : {}),
+      ...(metadata.rating ? { tagRating: metadata.rating } : {}),
+      ...(metadata.replayGainTrackGain != null ? { replayGainTrackGain: metadata.replayGainTrackGain } : {}),
+      ...(metadata.replayGainTrackPeak != null ? { replayGainTrackPeak: metadata.replayGainTrackPeak } : {}),
+      ...(metadata.averageLevel != null ? { averageLevel: metadata.averageLevel } : {}),
+      ...(metadata.peakLevel != null ? { peakLevel: metadata.peakLevel } : {})
+    });
+  }
+
+  /**
+   * Copy what audio analysis found for a file onto its re-extracted entry. Tags read this time win
+   */
+  private keepAudioAnalysis(entry: MusicLibraryEntry, previous: MusicLibraryEntry): void {
+    if (previous.loudness) {
+      entry.loudness = previous.loudness;
+      if (entry.replayGainTrackGain === undefined && previous.replayGainTrackGain !== undefined) {
+        entry.replayGainTrackGain = previous.replayGainTrackGain;
+      }
+      if (entry.replayGainTrackPeak === undefined && previous.replayGainTrackPeak !== undefined) {
+        entry.replayGainTrackPeak = previous.replayGainTrackPeak;
+      }
+    }
+    if (previous.tempoKeyAnalyzedAt !== undefined) {
+      entry.tempoKeyAnalyzedAt = previous.tempoKeyAnalyzedAt;
+      entry.bpm ??= previous.bpm;
+      entry.musicalKey ??= previous.musicalKey;
     }
   }
 
+  /**
+   * Cut a file's entry into the tracks its CUE sheet lists. The sheet's titles and performers
+   * override the file's tags; everything else, artwork included, is shared. The first track keeps
+   * the file's ID, so the file stays linked to the same entry when a sheet comes or goes
+   */
+  private splitCueTracks(entry: MusicLibraryEntry, cueSheet: CueSheetMatch): MusicLibraryEntry[] {
+    const { sheet, tracks } = cueSheet;
+    return tracks.map((track, index) => {
+      const next = tracks[index + 1];
+      const end = next ? next.start : entry.duration;
+      return withIndexKeys({
+        ...entry,
+        id: index === 0 ? entry.id : `${entry.id}#${track.number}`,
+        title: track.title || `Track ${track.number}`,
+        artist: track.performer || sheet.performer || entry.artist,
+        album: sheet.title || entry.album,
+        albumArtist: sheet.performer || entry.albumArtist,
+        trackNumber: track.number,
+        // The file's recording ID can't be any one of its tracks', nor its artists a track's own performer
+        recordingId: undefined,
+        artistIds: track.performer ? undefined : entry.artistIds,
+        genre: sheet.genre || entry.genre,
+        year: sheet.year || entry.year,
+        duration: Math.max(0, end - track.start),
+        cueStart: track.start,
+        cueEnd: next ? next.start : 0,
+        cueKey: cueSheet.key
+      });
+    });
+  }
+
+  /**
+   * Relink entries migrated from v3 (keyed by bare file name) to their full relative path.
+   * The first scanned file with a matching name claims the entry, keeping its metadata and artwork;
+   * unmatched legacy entries are left for the normal deleted-file handling
+   */
+  private async migrateLegacyPaths(rootId: string, cachedFiles: MusicLibraryEntry[], audioFiles: ScannedAudioFile[]): Promise<MusicLibraryEntry[]> {
+    const legacyEntries = cachedFiles.filter(entry => entry.legacyPath);
+    if (legacyEntries.length === 0) return cachedFiles;
+
+    const knownPaths = new Set(cachedFiles.filter(entry => !entry.legacyPath).map(entry => entry.filePath));
+    const filesByName = new Map<string, ScannedAudioFile[]>();
+    for (const file of audioFiles) {
+      if (knownPaths.has(file.path)) continue;
+      const name = getFileNameFromPath(file.path);
+      filesByName.set(name, [...(filesByName.get(name) || []), file]);
+    }
+
+    const migrated = new Map<string, MusicLibraryEntry>();
+    for (const entry of legacyEntries) {
+      const file = filesByName.get(entry.filePath)?.shift();
+      if (!file) continue;
+
+      const { legacyPath, ...rest } = entry;
+      const relinked: MusicLibraryEntry = {
+        ...rest,
+        id: this.generateId(`${rootId}/${file.path}`),
+        filePath: file.path,
+        fileName: file.handle.name
+      };
+
+      // artId carries over, so the relinked entry keeps its artwork
+      await this.deleteEntries([entry.id]);
+      await this.storeEntries([relinked]);
+      migrated.set(entry.id, relinked);
+    }
+
+    if (migrated.size > 0) {
+      console.log(`Migrated ${migrated.size} entries to relative paths`);
+    }
+    return cachedFiles.map(entry => migrated.get(entry.id) ?? entry);
+  }
+
   async getAllCachedEntries(): Promise<MusicLibraryEntry[]> {
     if (!this.db) {
       throw new Error('Database not initialized');
@@ -259,49 +1203,169 @@ export class MusicCacheService {
     });
   }
 
+  async getEntriesForRoot(rootId: string): Promise<MusicLibraryEntry[]> {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([MUSIC_LIBRARY_STORE], 'readonly');
+      const index = transaction.objectStore(MUSIC_LIBRARY_STORE).index('rootId');
+      const request = index.getAll(IDBKeyRange.only(rootId));
+
+      request.onsuccess = () => {
+        resolve(request.result || []);
+      };
+
+      request.onerror = () => {
+        reject(request.error);
+      };
+    });
+  }
+
+  async countEntriesForRoot(rootId: string): Promise<number> {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([MUSIC_LIBRARY_STORE], 'readonly');
+      const index = transaction.objectStore(MUSIC_LIBRARY_STORE).index('rootId');
+      const request = index.count(IDBKeyRange.only(rootId));
+
+      request.onsuccess = () => {
+        resolve(request.result);
+      };
+
+      request.onerror = () => {
+        reject(request.error);
+      };
+    });
+  }
+
+  /**
+   * Delete every entry scanned from a library root, along with artwork only those entries used
+   * and the root's unfinished scan. Duplicate groups are found again without its tracks
+   */
+  async removeEntriesForRoot(rootId: string): Promise<void> {
+    const entries = await this.getEntriesForRoot(rootId);
+    await this.deleteEntries(entries.map(entry => entry.id));
+    await this.pruneOrphanedArtwork();
+    await scanIssueService.removeIssues((await scanIssueService.getIssuesForRoot(rootId)).map(issue => issue.id));
+    await playlistService.removePlaylists((await playlistService.getPlaylistsForRoot(rootId)).map(playlist => playlist.id));
+    await clearScanCheckpoint(rootId);
+    await duplicateService.detectDuplicates();
+    console.log(`Removed ${entries.length} entries for root ${rootId}`);
+  }
+
+  /**
+   * Try scanning a file that failed before. It goes through the same extraction as a scan, so an
+   * existing entry keeps its ID and rating and the file's CUE sheet, lyrics and folder image are picked up.
+   * Returns null once it's in the library, or the updated issue if it still fails
+   */
+  public async retryScanIssue(issue: ScanIssue): Promise<ScanIssue | null> {
+    await this.initDB();
+    try {
+      const root = await libraryRootService.getRoot(issue.rootId);
+      const { coverFileNames } = await settingsService.getSettings();
+      const files = root ? await scanDirectoryOfFile(root.handle, issue.filePath, coverFileNames) : null;
+      const file = files?.audioFiles.find(audioFile => audioFile.path === issue.filePath);
+      if (!root || !files || !file) {
+        const error = new Error('File not found');
+        error.name = 'NotFoundError';
+        throw error;
+      }
+
+      const cachedFiles = await this.getEntriesForRoot(root.id);
+      const tracks = cachedFiles.filter(entry => entry.filePath === file.path);
+      const existing = tracks.length > 0 ? tracks.reduce((first, entry) => (entry.cueStart ?? 0) < (first.cueStart ?? 0) ? entry : first) : undefined;
+      const fileInfo = await file.handle.getFile();
+      const lyricsKey = file.lyricsFile ? await this.getSidecarKey(file.lyricsFile.handle, file.lyricsFile.path) : null;
+
+      const job = new ScanJob(root.name, null);
+      const context: ExtractionContext = {
+        report: { added: 0, updated: 0, removed: 0, relinked: 0, cancelled: false, issues: 0, unresolvedPlaylistEntries: 0 },
+        job,
+        relinkedIds: new Set(),
+        usedIds: new Set(cachedFiles.map(entry => entry.id)),
+        issuesByPath: new Map([[issue.filePath, issue]]),
+        entriesByPath: new Map([[file.path, tracks]]),
+        cueSheets: await loadCueSheets(files.cueFiles, files.audioFiles.map(audioFile => audioFile.path)),
+        staleIds: []
+      };
+      await this.extractPendingFiles(root, [{ file, fileInfo, existing, relinkCandidates: undefined, lyricsKey }], context);
+      if (context.staleIds.length > 0) {
+        await this.deleteEntries(context.staleIds);
+      }
+      const folderArtUpdates = await this.applyFolderArtwork(root.id, [file], job);
+      // A retagged file may have left a cover nothing points to any more
+      if (existing || folderArtUpdates > 0) {
+        await this.pruneOrphanedArtwork();
+      }
+
+      // Extraction records the issue again if the file still fails, and removes it otherwise
+      return (await scanIssueService.getIssuesForRoot(root.id)).find(remaining => remaining.id === issue.id) ?? null;
+    } catch (error) {
+      console.error(`Error retrying ${issue.filePath}:`, error);
+      return await scanIssueService.recordIssue(issue.rootId, issue.filePath, error);
+    }
+  }
+
+  /**
+   * Resolve an entry for playback. The track holds a reference to its medium-size artwork URL;
+   * URLs are shared per cover, so tracks kept in playback history don't add up
+   */
   public async getTrackFromLibraryEntry(track: MusicLibraryEntry): Promise<AudioTrack> {
-    let albumArtUrl = await this.getAlbumArtUrl(track);
+    let albumArtUrl = await this.getAlbumArtUrl(track, 'medium');
     return {
       ...track,
       albumArt: albumArtUrl
     }
   }
 
-  async getAlbumArtUrl(track: MusicLibraryEntry): Promise<string | null> {
-    let albumArtUrl: string | null = null;
-    try {
-      const firstTrackArt = await this.getAlbumArtById(track.id || '');
-      if (firstTrackArt && firstTrackArt.data) {
-        if (firstTrackArt.data instanceof Blob) {
-          albumArtUrl = URL.createObjectURL(firstTrackArt.data);
-        } else if (firstTrackArt.data instanceof Uint8Array) {
-          const blob = new Blob([firstTrackArt.data], { type: firstTrackArt.mimeType });
-          albumArtUrl = URL.createObjectURL(blob);
-        } else if (firstTrackArt.data instanceof ArrayBuffer) {
-          const blob = new Blob([firstTrackArt.data], { type: firstTrackArt.mimeType });
-          albumArtUrl = URL.createObjectURL(blob);
-        } else if (typeof firstTrackArt.data === 'string') {
-          albumArtUrl = firstTrackArt.data;
-        }
+  /**
+   * Get a shared URL for a track's artwork. The caller holds a reference to it and should
+   * hand it back with artworkCache.release() once nothing displays it
+   */
+  async getAlbumArtUrl(track: MusicLibraryEntry, size: ArtworkSize = 'full'): Promise<string | null> {
+    if (!track.artId) return null;
+    return artworkCache.acquire(track.artId, size);
+  }
+
+  /**
+   * Get the image data for an artwork record at the given size, falling back to the original
+   * when the image is no bigger than the thumbnail. Thumbnails missing from older artwork
+   * are generated and stored on first use
+   */
+  async getArtworkBlob(artId: string, size: ArtworkSize = 'full'): Promise<Blob | null> {
+    const artwork = await this.getArtworkById(artId);
+    if (!artwork || !artwork.data) return null;
+
+    if (size !== 'full') {
+      if (!artwork.thumbnails) {
+        artwork.thumbnails = await createThumbnails(artwork.data, artwork.mimeType);
+        await this.storeArtwork(artwork);
       }
-    } catch (error) {
-      console.error('Error fetching album art for album result:', error);
+      const thumbnail = artwork.thumbnails[size];
+      if (thumbnail) return thumbnail;
     }
-    return albumArtUrl;
+
+    if (artwork.data instanceof Blob) return artwork.data;
+    return new Blob([artwork.data as Uint8Array<ArrayBuffer>], { type: artwork.mimeType });
   }
 
-  async getAlbumArtById(id: string): Promise<AlbumArtEntry | null> {
+  private async storeArtwork(artwork: AlbumArtEntry): Promise<void> {
     if (!this.db) {
       throw new Error('Database not initialized');
     }
 
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([ALBUM_ART_STORE], 'readonly');
-      const store = transaction.objectStore(ALBUM_ART_STORE);
-      const request = store.get(id);
+      const transaction = this.db!.transaction([ARTWORK_STORE], 'readwrite');
+      const store = transaction.objectStore(ARTWORK_STORE);
+      const request = store.put(artwork);
 
       request.onsuccess = () => {
-        resolve(request.result || null);
+        resolve();
       };
 
       request.onerror = () => {
@@ -310,7 +1374,25 @@ export class MusicCacheService {
     });
   }
 
-  async getArtistsByName(artistName: string): Promise<Map<string, MusicLibraryEntry[]>> {
+  /**
+   * Write back entries changed outside a scan, such as with analysis results
+   */
+  async updateEntries(entries: MusicLibraryEntry[]): Promise<void> {
+    await this.storeEntries(entries);
+  }
+
+  /**
+   * Rate a track from 1 to 5 stars, or clear its rating with null so it falls back to its tags
+   */
+  async setUserRating(id: string, rating: number | null): Promise<MusicLibraryEntry | null> {
+    const entry = await this.getEntryById(id);
+    if (!entry) return null;
+    const updated = { ...entry, userRating: rating ?? undefined };
+    await this.storeEntries([updated]);
+    return updated;
+  }
+
+  async getEntryById(id: string): Promise<MusicLibraryEntry | null> {
     if (!this.db) {
       throw new Error('Database not initialized');
     }
@@ -318,23 +1400,10 @@ export class MusicCacheService {
     return new Promise((resolve, reject) => {
       const transaction = this.db!.transaction([MUSIC_LIBRARY_STORE], 'readonly');
       const store = transaction.objectStore(MUSIC_LIBRARY_STORE);
-      const request = store.getAll();
+      const request = store.get(id);
 
       request.onsuccess = () => {
-        const allEntries: MusicLibraryEntry[] = request.result || [];
-        const artistMap = new Map<string, MusicLibraryEntry[]>();
-
-        // Group entries by artist name
-        for (const entry of allEntries) {
-          if (entry.artist.toLowerCase().includes(artistName.toLowerCase())) {
-            const key = entry.artist.toLowerCase();
-            if (!artistMap.has(key)) {
-              artistMap.set(key, []);
-            }
-            artistMap.get(key)!.push(entry);
-          }
-        }
-        resolve(artistMap);
+        resolve(request.result || null);
       };
 
       request.onerror = () => {
@@ -343,31 +1412,18 @@ export class MusicCacheService {
     });
   }
 
-  async getAlbumsByName(albumName: string): Promise<Map<string, MusicLibraryEntry[]>> {
+  async getArtworkById(id: string): Promise<AlbumArtEntry | null> {
     if (!this.db) {
       throw new Error('Database not initialized');
     }
 
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([MUSIC_LIBRARY_STORE], 'readonly');
-      const store = transaction.objectStore(MUSIC_LIBRARY_STORE);
-      const request = store.getAll();
+      const transaction = this.db!.transaction([ARTWORK_STORE], 'readonly');
+      const store = transaction.objectStore(ARTWORK_STORE);
+      const request = store.get(id);
 
       request.onsuccess = () => {
-        const allEntries: MusicLibraryEntry[] = request.result || [];
-        const albumMap = new Map<string, MusicLibraryEntry[]>();
-
-        // Group entries by album name (lowercase)
-        for (const entry of allEntries) {
-          if (entry.album.toLowerCase().includes(albumName.toLowerCase())) {
-            const key = entry.artist.toLowerCase() + '|' + entry.album.toLowerCase();
-            if (!albumMap.has(key)) {
-              albumMap.set(key, []);
-            }
-            albumMap.get(key)!.push(entry);
-          }
-        }
-        resolve(albumMap);
+        resolve(request.result || null);
       };
 
       request.onerror = () => {
@@ -376,31 +1432,153 @@ export class MusicCacheService {
     });
   }
 
+  /**
+   * Find artists with a word starting with the query, keyed by normalized artist name
+   */
+  async getArtistsByName(artistName: string): Promise<Map<string, MusicLibraryEntry[]>> {
+    const query = normalizeKey(artistName);
+    const artistKeys = new Set((await this.getWordCandidates(query, false))
+      .map(entry => entry.artistKey)
+      .filter(key => key.includes(query)));
+    const artistMap = new Map<string, MusicLibraryEntry[]>();
+
+    // Group entries by artist name
+    for (const key of artistKeys) {
+      artistMap.set(key, await this.getEntriesByIndex('artistKey', IDBKeyRange.only(key)));
+    }
+    return artistMap;
+  }
+
+  /**
+   * Find albums with a word starting with the query, keyed by album artist and album
+   */
+  async getAlbumsByName(albumName: string): Promise<Map<string, MusicLibraryEntry[]>> {
+    const query = normalizeKey(albumName);
+    const albumKeys = new Map<string, [string, string]>();
+    for (const entry of await this.getWordCandidates(query, false)) {
+      if (entry.albumKey.includes(query)) {
+        albumKeys.set(`${entry.albumArtistKey}|${entry.albumKey}`, [entry.albumArtistKey, entry.albumKey]);
+      }
+    }
+    const albumMap = new Map<string, MusicLibraryEntry[]>();
+
+    // Group entries by album artist and album name (lowercase)
+    for (const [key, [albumArtistKey, albumKey]] of albumKeys) {
+      albumMap.set(key, await this.getAlbumTracks(albumArtistKey, albumKey));
+    }
+    return albumMap;
+  }
+
+  /**
+   * Get the albums an artist is filed under as album artist, plus the albums they appear on,
+   * keyed by album artist and album
+   */
+  async getAlbumsByArtist(artistName: string): Promise<Map<string, MusicLibraryEntry[]>> {
+    const artistKey = normalizeKey(artistName);
+    const albumKeys = new Map<string, [string, string]>();
+    const addKey = (albumArtistKey: string, albumKey: string) =>
+      albumKeys.set(`${albumArtistKey}|${albumKey}`, [albumArtistKey, albumKey]);
+
+    // Arrays sort after strings, so [artistKey, []] closes the range after every album of the artist
+    const albumArtistRange = IDBKeyRange.bound([artistKey], [artistKey, []]);
+    for (const [albumArtistKey, albumKey] of await this.getDistinctIndexKeys('albumArtistAlbum', albumArtistRange) as [string, string][]) {
+      addKey(albumArtistKey, albumKey);
+    }
+    for (const entry of await this.getTracksByArtist(artistName)) {
+      addKey(entry.albumArtistKey, entry.albumKey);
+    }
+
+    const albumMap = new Map<string, MusicLibraryEntry[]>();
+    for (const [key, [albumArtistKey, albumKey]] of albumKeys) {
+      albumMap.set(key, await this.getAlbumTracks(albumArtistKey, albumKey));
+    }
+    return albumMap;
+  }
+
+  /**
+   * Get an album's tracks in disc and track order, by normalized album artist and album keys
+   */
+  async getAlbumTracks(albumArtistKey: string, albumKey: string): Promise<MusicLibraryEntry[]> {
+    return sortAlbumTracks(await this.getEntriesByIndex('albumArtistAlbum', IDBKeyRange.only([albumArtistKey, albumKey])));
+  }
+
+  /**
+   * Get every track by an artist (case-insensitive exact match)
+   */
+  async getTracksByArtist(artistName: string): Promise<MusicLibraryEntry[]> {
+    return await this.getEntriesByIndex('artistKey', IDBKeyRange.only(normalizeKey(artistName)));
+  }
+
+  /**
+   * Find tracks whose title, artist or album contain the query. Candidates come from the
+   * word index, matching the start of a word or, for queries of MIN_SUBSTRING_QUERY characters
+   * or more, anywhere inside one, and are then matched in full
+   */
+  async searchTracks(searchQuery: string): Promise<MusicLibraryEntry[]> {
+    const query = normalizeKey(searchQuery);
+    const candidates = await this.getWordCandidates(query, query.length >= MIN_SUBSTRING_QUERY);
+    return candidates.filter(entry =>
+      entry.title.toLowerCase().includes(query) ||
+      entry.artist.toLowerCase().includes(query) ||
+      entry.album.toLowerCase().includes(query));
+  }
+
+  /**
+   * Entries with a search word starting with the query's longest word, found through a key range
+   * on the word index. With `substrings`, words containing it elsewhere count too; those are
+   * found by walking the index's distinct words, which is far smaller than the library
+   */
+  private async getWordCandidates(query: string, substrings: boolean): Promise<MusicLibraryEntry[]> {
+    const longestWord = getSearchWords(query).sort((a, b) => b.length - a.length)[0];
+    if (!longestWord) return [];
+
+    const candidates = new Map<string, MusicLibraryEntry>();
+    for (const entry of await this.getEntriesByIndex('searchWords', IDBKeyRange.bound(longestWord, longestWord + '\uffff'))) {
+      candidates.set(entry.id, entry);
+    }
+    if (substrings) {
+      const words = (await this.getDistinctIndexKeys('searchWords') as string[])
+        .filter(word => !word.startsWith(longestWord) && word.includes(longestWord));
+      for (const word of words) {
+        for (const entry of await this.getEntriesByIndex('searchWords', IDBKeyRange.only(word))) {
+          candidates.set(entry.id, entry);
+        }
+      }
+    }
+    return Array.from(candidates.values());
+  }
+
   async getAllArtists(): Promise<{ artist: string, count: number }[]> {
+    const counts = await this.countByIndexKey('artistKey');
+    return Array.from(counts.entries()).map(([artist, count]) => ({
+      artist: artist as string,
+      count
+    }));
+  }
+
+  async getAllAlbums(): Promise<{ album: string, artist: string, count: number }[]> {
+    const counts = await this.countByIndexKey('albumArtistAlbum');
+    return Array.from(counts.entries()).map(([key, count]) => {
+      const [artist, album] = key as [string, string];
+      return { album, artist, count };
+    });
+  }
+
+  /**
+   * Get all entries whose value in the given index falls in a key range
+   */
+  async getEntriesByIndex(indexName: string, range: IDBKeyRange): Promise<MusicLibraryEntry[]> {
     if (!this.db) {
       throw new Error('Database not initialized');
     }
 
     return new Promise((resolve, reject) => {
       const transaction = this.db!.transaction([MUSIC_LIBRARY_STORE], 'readonly');
-      const store = transaction.objectStore(MUSIC_LIBRARY_STORE);
-      const request = store.getAll();
+      const index = transaction.objectStore(MUSIC_LIBRARY_STORE).index(indexName);
+      const request = index.getAll(range);
 
       request.onsuccess = () => {
-        const allEntries: MusicLibraryEntry[] = request.result || [];
-        const artistMap = new Map<string, number>();
-
-        allEntries.forEach(entry => {
-          const artist = entry.artist.toLowerCase();
-          artistMap.set(artist, (artistMap.get(artist) || 0) + 1);
-        });
-
-        const artists = Array.from(artistMap.entries()).map(([artist, count]) => ({
-          artist,
-          count
-        }));
-
-        resolve(artists);
+        resolve(request.result || []);
       };
 
       request.onerror = () => {
@@ -409,40 +1587,28 @@ export class MusicCacheService {
     });
   }
 
-  async getAllAlbums(): Promise<{ album: string, artist: string, count: number }[]> {
+  /**
+   * Get the distinct keys of an index, or of part of it, without loading any entries
+   */
+  async getDistinctIndexKeys(indexName: string, range: IDBKeyRange | null = null): Promise<IDBValidKey[]> {
     if (!this.db) {
       throw new Error('Database not initialized');
     }
 
     return new Promise((resolve, reject) => {
       const transaction = this.db!.transaction([MUSIC_LIBRARY_STORE], 'readonly');
-      const store = transaction.objectStore(MUSIC_LIBRARY_STORE);
-      const request = store.getAll();
+      const index = transaction.objectStore(MUSIC_LIBRARY_STORE).index(indexName);
+      const request = index.openKeyCursor(range, 'nextunique');
+      const keys: IDBValidKey[] = [];
 
       request.onsuccess = () => {
-        const allEntries: MusicLibraryEntry[] = request.result || [];
-        const albumMap = new Map<string, { artist: string }[]>();
-
-        allEntries.forEach(entry => {
-          const albumKey = `${entry.album.toLowerCase()}-${entry.artist.toLowerCase()}`;
-          if (!albumMap.has(albumKey)) {
-            albumMap.set(albumKey, []);
-          }
-          albumMap.get(albumKey)!.push({
-            artist: entry.artist
-          });
-        });
-
-        const albums = Array.from(albumMap.entries()).map(([key, entries]) => {
-          const albumParts = key.split('-');
-          return {
-            album: (albumParts[0] ?? '') as string,
-            artist: entries[0]?.artist || '',
-            count: entries.length
-          };
-        }) as { album: string, artist: string, count: number }[];
-
-        resolve(albums);
+        const cursor = request.result;
+        if (!cursor) {
+          resolve(keys);
+          return;
+        }
+        keys.push(cursor.key);
+        cursor.continue();
       };
 
       request.onerror = () => {
@@ -451,6 +1617,34 @@ export class MusicCacheService {
     });
   }
 
+  /**
+   * Count entries per distinct key of an index
+   */
+  private async countByIndexKey(indexName: string): Promise<Map<IDBValidKey, number>> {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([MUSIC_LIBRARY_STORE], 'readonly');
+      const index = transaction.objectStore(MUSIC_LIBRARY_STORE).index(indexName);
+      const request = index.openKeyCursor(null, 'nextunique');
+      const counts = new Map<IDBValidKey, number>();
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        const key = cursor.key;
+        const countRequest = index.count(key);
+        countRequest.onsuccess = () => counts.set(key, countRequest.result);
+        cursor.continue();
+      };
+
+      transaction.oncomplete = () => resolve(counts);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
   private async storeEntries(entries: MusicLibraryEntry[]): Promise<void> {
     if (!this.db) {
       throw new Error('Database not initialized');
@@ -475,8 +1669,10 @@ export class MusicCacheService {
     }
 
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([MUSIC_LIBRARY_STORE], 'readwrite');
+      // Play statistics are kept, so a file that comes back at its path still has its history
+      const transaction = this.db!.transaction([MUSIC_LIBRARY_STORE, LYRICS_STORE], 'readwrite');
       const store = transaction.objectStore(MUSIC_LIBRARY_STORE);
+      const lyricsStore = transaction.objectStore(LYRICS_STORE);
 
       // Handle each delete individually to avoid multiple request errors
       let completed = 0;
@@ -488,6 +1684,7 @@ export class MusicCacheService {
       }
 
       for (const id of ids) {
+        lyricsStore.delete(id);
         const request = store.delete(id);
         request.onsuccess = () => {
           completed++;
@@ -502,21 +1699,160 @@ export class MusicCacheService {
     });
   }
 
-  private async storeAlbumArt(artEntry: AlbumArtEntry): Promise<void> {
+  /**
+   * Delete artwork records no library entry points to any more
+   */
+  private async pruneOrphanedArtwork(): Promise<void> {
+    if (!this.db) {
+      throw new Error('Database not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([MUSIC_LIBRARY_STORE, ARTWORK_STORE], 'readwrite');
+      const artIndex = transaction.objectStore(MUSIC_LIBRARY_STORE).index('artId');
+      const artStore = transaction.objectStore(ARTWORK_STORE);
+      const request = artStore.openKeyCursor();
+      let pruned = 0;
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        const artId = cursor.primaryKey;
+        const countRequest = artIndex.count(artId);
+        countRequest.onsuccess = () => {
+          if (countRequest.result === 0) {
+            artStore.delete(artId);
+            pruned++;
+          }
+        };
+        cursor.continue();
+      };
+
+      transaction.oncomplete = () => {
+        if (pruned > 0) {
+          console.log(`Pruned ${pruned} unused artwork records`);
+        }
+        resolve();
+      };
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Report how much space artwork takes, and how much sharing covers between tracks saves
+   */
+  async getArtworkStorageStats(): Promise<ArtworkStorageStats> {
     if (!this.db) {
       throw new Error('Database not initialized');
     }
 
-    const transaction = this.db!.transaction([ALBUM_ART_STORE], 'readwrite');
-    const store = transaction.objectStore(ALBUM_ART_STORE);
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([MUSIC_LIBRARY_STORE, ARTWORK_STORE], 'readonly');
+      const artIndex = transaction.objectStore(MUSIC_LIBRARY_STORE).index('artId');
+      const request = transaction.objectStore(ARTWORK_STORE).openCursor();
+      const stats: ArtworkStorageStats = { artworkCount: 0, storedBytes: 0, referencedBytes: 0, savedBytes: 0 };
 
-    await new Promise<void>((resolve, reject) => {
-      const request = store.put(artEntry);
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        const artwork: AlbumArtEntry = cursor.value;
+        stats.artworkCount++;
+        stats.storedBytes += artwork.size;
+        const countRequest = artIndex.count(artwork.id);
+        countRequest.onsuccess = () => {
+          stats.referencedBytes += artwork.size * countRequest.result;
+        };
+        cursor.continue();
+      };
+
+      transaction.oncomplete = () => {
+        stats.savedBytes = Math.max(0, stats.referencedBytes - stats.storedBytes);
+        resolve(stats);
+      };
+      transaction.onerror = () => reject(transaction.error);
     });
   }
 
+  /**
+   * Move per-track art rows from before v7 into the shared artwork store, keyed by content hash.
+   * Hashing is async so this can't run inside the version change transaction; it works through
+   * the legacy store in small batches instead, and is a no-op once the store is empty
+   */
+  private async migrateLegacyAlbumArt(): Promise<void> {
+    if (this.legacyArtMigrated || !this.db) return;
+    this.legacyArtMigrated = true;
+
+    let migrated = 0;
+    while (true) {
+      const rows = await new Promise<LegacyAlbumArtEntry[]>((resolve, reject) => {
+        const request = this.db!.transaction([ALBUM_ART_STORE], 'readonly')
+          .objectStore(ALBUM_ART_STORE)
+          .getAll(null, ART_MIGRATION_BATCH_SIZE);
+        request.onsuccess = () => resolve(request.result || []);
+        request.onerror = () => reject(request.error);
+      });
+      if (rows.length === 0) break;
+
+      const artwork: { trackId: string; art: AlbumArtEntry }[] = [];
+      for (const row of rows) {
+        const data = row.data instanceof Blob ? new Uint8Array(await row.data.arrayBuffer()) : row.data;
+        const hash = await hashAlbumArt(data);
+        artwork.push({ trackId: row.id, art: { id: hash, data, mimeType: row.mimeType, size: data.byteLength } });
+      }
+
+      await new Promise<void>((resolve, reject) => {
+        const transaction = this.db!.transaction([MUSIC_LIBRARY_STORE, ARTWORK_STORE, ALBUM_ART_STORE], 'readwrite');
+        const musicStore = transaction.objectStore(MUSIC_LIBRARY_STORE);
+        const artStore = transaction.objectStore(ARTWORK_STORE);
+        const legacyStore = transaction.objectStore(ALBUM_ART_STORE);
+
+        for (const { trackId, art } of artwork) {
+          artStore.put(art);
+          legacyStore.delete(trackId);
+          const entryRequest = musicStore.get(trackId);
+          entryRequest.onsuccess = () => {
+            if (entryRequest.result) {
+              musicStore.put({ ...entryRequest.result, artId: art.id });
+            }
+          };
+        }
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+      });
+      migrated += rows.length;
+    }
+
+    if (migrated > 0) {
+      console.log(`Migrated ${migrated} album art rows to shared artwork`);
+    }
+  }
+
+  /**
+   * A missing entry that a new file of the same size is a copy of: same tags and, within a
+   * second, the same duration. Entries already claimed by another file are skipped
+   */
+  private findRelinkMatch(candidates: MusicLibraryEntry[], entry: MusicLibraryEntry, claimed: Set<string>): MusicLibraryEntry | undefined {
+    const fingerprint = getTagFingerprint(entry);
+    return candidates.find(candidate =>
+      !claimed.has(candidate.id)
+      && Math.abs(candidate.duration - entry.duration) <= 1
+      && getTagFingerprint(candidate) === fingerprint);
+  }
+
+  /**
+   * Generate an ID for a new file that no entry in the root is using yet. A relinked entry keeps
+   * the ID of its old path, so a new file at that path would otherwise overwrite it
+   */
+  private generateUniqueId(filePath: string, usedIds: Set<string>): string {
+    let id = this.generateId(filePath);
+    for (let attempt = 1; usedIds.has(id); attempt++) {
+      id = this.generateId(`${filePath}#${attempt}`);
+    }
+    usedIds.add(id);
+    return id;
+  }
+
   private generateId(filePath: string): string {
     // Simple hash function for generating IDs from file paths
     let hash = 0;
@@ -785,12 +2121,19 @@ export class MusicCacheService {
   }
 
   /**
-   * Set a callback function to receive progress updates
+   * Set a callback function to receive scan progress updates, called with null when a scan ends
    */
-  public setOnProgress(callback: (current: number, total: number) => void): void {
+  public setOnProgress(callback: (progress: ScanProgress | null) => void): void {
     this.onProgressCallback = callback;
   }
 
+  /**
+   * Set a callback function to receive the report of each finished or cancelled root scan
+   */
+  public setOnScanComplete(callback: (report: ScanReport, root: LibraryRoot) => void): void {
+    this.onScanCompleteCallback = callback;
+  }
+
   /**
    * Clear the progress callback
    */
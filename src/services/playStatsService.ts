@@ -0,0 +1,199 @@
+import { MusicCacheService } from './musicCacheService';
+import { settingsService } from './settingsService';
+
+export interface TrackPlayStats {
+  trackId: string;
+  // Listens that reached the play threshold
+  playCount: number;
+  // Listens cut short by moving on to the next track before the threshold
+  skipCount: number;
+  // When the track first and last reached the play threshold, as timestamps
+  firstPlayed: number | null;
+  lastPlayed: number | null;
+  // Time spent actually playing the track, not counting seeks
+  listenedSeconds: number;
+}
+
+const PLAY_STATS_STORE = 'playStats';
+
+export class PlayStatsService {
+  constructor() {
+  }
+
+  /**
+   * Whether a listen counts as a play: the track has played for the configured share of its
+   * length, or for the configured number of seconds, whichever comes first
+   */
+  public async reachesPlayThreshold(listenedSeconds: number, duration: number): Promise<boolean> {
+    const { playThresholdPercent, playThresholdSeconds } = await settingsService.getSettings();
+    const threshold = duration > 0
+      ? Math.min(duration * playThresholdPercent / 100, playThresholdSeconds)
+      : playThresholdSeconds;
+    return listenedSeconds >= threshold;
+  }
+
+  /**
+   * Count a play of a track
+   */
+  public async recordPlay(trackId: string, playedAt: number = Date.now()): Promise<TrackPlayStats> {
+    return await this.updateStats(trackId, stats => ({
+      ...stats,
+      playCount: stats.playCount + 1,
+      firstPlayed: stats.firstPlayed ?? playedAt,
+      lastPlayed: playedAt
+    }));
+  }
+
+  /**
+   * Add listening time to a track, and count a skip if it was cut short
+   */
+  public async recordListen(trackId: string, listenedSeconds: number, skipped: boolean): Promise<TrackPlayStats> {
+    return await this.updateStats(trackId, stats => ({
+      ...stats,
+      skipCount: stats.skipCount + (skipped ? 1 : 0),
+      listenedSeconds: stats.listenedSeconds + listenedSeconds
+    }));
+  }
+
+  /**
+   * A track's statistics, or null if it has never been listened to
+   */
+  public async getStats(trackId: string): Promise<TrackPlayStats | null> {
+    return (await this.request<TrackPlayStats | undefined>('readonly', store => store.get(trackId))) ?? null;
+  }
+
+  /**
+   * Statistics for several tracks at once, keyed by track ID. Tracks never listened to are left out
+   */
+  public async getStatsForTracks(trackIds: string[]): Promise<Map<string, TrackPlayStats>> {
+    const db = this.getDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([PLAY_STATS_STORE], 'readonly');
+      const store = transaction.objectStore(PLAY_STATS_STORE);
+      const stats = new Map<string, TrackPlayStats>();
+      for (const trackId of new Set(trackIds)) {
+        const request = store.get(trackId);
+        request.onsuccess = () => {
+          if (request.result) stats.set(trackId, request.result);
+        };
+      }
+
+      transaction.oncomplete = () => resolve(stats);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  public async getAllStats(): Promise<TrackPlayStats[]> {
+    return await this.request('readonly', store => store.getAll());
+  }
+
+  /**
+   * The tracks played most often, most played first
+   */
+  public async getMostPlayed(limit: number): Promise<TrackPlayStats[]> {
+    return await this.getTopByIndex('playCount', limit);
+  }
+
+  /**
+   * The tracks played most recently, latest first
+   */
+  public async getRecentlyPlayed(limit: number): Promise<TrackPlayStats[]> {
+    return await this.getTopByIndex('lastPlayed', limit);
+  }
+
+  /**
+   * Write statistics restored from a backup in one transaction. With `replace`, every existing
+   * record is removed first; otherwise records for the same track are overwritten
+   */
+  public async restoreStats(stats: TrackPlayStats[], replace: boolean): Promise<void> {
+    const db = this.getDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([PLAY_STATS_STORE], 'readwrite');
+      const store = transaction.objectStore(PLAY_STATS_STORE);
+      if (replace) {
+        store.clear();
+      }
+      stats.forEach(trackStats => store.put(trackStats));
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Read, change and write a track's statistics in one transaction, so concurrent updates don't clobber each other
+   */
+  private async updateStats(trackId: string, update: (stats: TrackPlayStats) => TrackPlayStats): Promise<TrackPlayStats> {
+    const db = this.getDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([PLAY_STATS_STORE], 'readwrite');
+      const store = transaction.objectStore(PLAY_STATS_STORE);
+      let updated: TrackPlayStats;
+      const request = store.get(trackId);
+      request.onsuccess = () => {
+        const stats: TrackPlayStats = request.result ?? {
+          trackId,
+          playCount: 0,
+          skipCount: 0,
+          firstPlayed: null,
+          lastPlayed: null,
+          listenedSeconds: 0
+        };
+        updated = update(stats);
+        store.put(updated);
+      };
+
+      transaction.oncomplete = () => resolve(updated);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Walk an index from its highest key down, collecting up to `limit` records. Records without
+   * the key, such as tracks only ever skipped for lastPlayed, aren't in the index
+   */
+  private async getTopByIndex(indexName: string, limit: number): Promise<TrackPlayStats[]> {
+    const db = this.getDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([PLAY_STATS_STORE], 'readonly');
+      const request = transaction.objectStore(PLAY_STATS_STORE).index(indexName).openCursor(null, 'prev');
+      const results: TrackPlayStats[] = [];
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor && results.length < limit) {
+          const stats = cursor.value as TrackPlayStats;
+          if (stats.playCount > 0) {
+            results.push(stats);
+          }
+          cursor.continue();
+        } else {
+          resolve(results);
+        }
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = this.getDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([PLAY_STATS_STORE], mode);
+      const request = run(transaction.objectStore(PLAY_STATS_STORE));
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private getDB(): IDBDatabase {
+    const db = (MusicCacheService.getInstance() as any).db as IDBDatabase | null;
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    return db;
+  }
+}
+
+// Singleton instance
+export const playStatsService = new PlayStatsService();
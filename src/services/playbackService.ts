@@ -1,6 +1,9 @@
 import { AudioTrack, MusicCacheService, MusicLibraryEntry } from './musicCacheService';
 import { loadAudioFileFromTrack } from '../utils/fileHelpers';
 import { RadioStation, radioStationService } from './radioStationService';
+import { playStatsService } from './playStatsService';
+import { ListenOutcome, ListeningEvent, listeningHistoryService } from './listeningHistoryService';
+import { FeedbackVote, stationFeedbackService } from './stationFeedbackService';
 
 export interface PlaybackState {
   isPlaying: boolean;
@@ -12,6 +15,39 @@ export interface PlaybackState {
   nextTrack: AudioTrack | null;
 }
 
+// Listening to the current track, for its play statistics
+interface CurrentListen {
+  trackId: string;
+  // Seconds actually played, and how many of them haven't been saved yet
+  listenedSeconds: number;
+  unsavedSeconds: number;
+  // Where playback was at the last timeupdate, to tell playing apart from seeking
+  lastPosition: number;
+  // Reached the play threshold and was counted as a play
+  counted: boolean;
+  // Played through to its end, so moving on isn't a skip
+  finished: boolean;
+  // Moved on from by playNextTrack before being counted
+  skipped: boolean;
+  // The listen's entry in the listening history, once saved
+  event: Promise<ListeningEvent | null>;
+}
+
+// timeupdate fires a few times a second while playing; a bigger jump is a seek
+const MAX_LISTEN_STEP_SECONDS = 5;
+
+/**
+ * Amplitude gain bringing a track to the ReplayGain reference loudness, from its tags or
+ * audio analysis. Limited so the track's peak never goes past full scale
+ */
+function getNormalizationGain(track: AudioTrack): number {
+  if (track.replayGainTrackGain === undefined) return 1;
+  // Stored as a power ratio, as music-metadata reads it
+  const gain = Math.sqrt(track.replayGainTrackGain);
+  const peak = track.replayGainTrackPeak;
+  return peak !== undefined && peak > 0 ? Math.min(gain, 1 / peak) : gain;
+}
+
 let musicCacheService = MusicCacheService.getInstance();
 
 export class PlaybackService {
@@ -21,6 +57,16 @@ export class PlaybackService {
   private playbackHistory: AudioTrack[] = [];
   private selectedStation: RadioStation | null = null;
   private nextTrack: AudioTrack | null = null;
+  // Tracks that play in order before the selected station picks again, e.g. the rest of an album
+  private queue: MusicLibraryEntry[] = [];
+  // `${rootId}/${filePath}` of the file loaded into the audio element
+  private loadedFile: string | null = null;
+  // Set while moving on from a CUE track that reached its end, so timeupdate doesn't do it twice
+  private isAdvancing = false;
+  private currentListen: CurrentListen | null = null;
+  // Normalization is applied after the element, so its volume stays the user's to set
+  private audioContext: AudioContext | null = null;
+  private normalizationGain: GainNode | null = null;
 
   constructor() {
     this.createAudioElement();
@@ -32,15 +78,24 @@ export class PlaybackService {
       this.audioElement = new Audio();
 
       // Set up event listeners
-      this.audioElement.addEventListener('timeupdate', () => {
+      this.audioElement.addEventListener('timeupdate', async () => {
         this.notifyStateChange();
+        await this.trackListening();
+        await this.checkCueEnd();
       });
 
       this.audioElement.addEventListener('ended', async () => {
+        if (this.currentListen) {
+          this.currentListen.finished = true;
+        }
         await this.playNextTrack();
         this.notifyStateChange();
       });
 
+      this.audioElement.addEventListener('pause', () => {
+        this.saveListeningTime();
+      });
+
       this.audioElement.addEventListener('loadedmetadata', () => {
         this.notifyStateChange();
       });
@@ -69,14 +124,14 @@ export class PlaybackService {
 
     navigator.mediaSession.setActionHandler('seekbackward', () => {
       if (this.audioElement) {
-        const newTime = Math.max(0, this.audioElement.currentTime - 15);
+        const newTime = Math.max(0, this.getProgress() - 15);
         this.seek(newTime);
       }
     });
 
     navigator.mediaSession.setActionHandler('seekforward', () => {
       if (this.audioElement) {
-        const newTime = Math.min(this.audioElement.duration || Infinity, this.audioElement.currentTime + 15);
+        const newTime = Math.min(this.getDuration() || Infinity, this.getProgress() + 15);
         this.seek(newTime);
       }
     });
@@ -88,13 +143,140 @@ export class PlaybackService {
     });
   }
 
+  /**
+   * Where playback is in the current track, read straight from the audio element. A track cut
+   * from a larger file by a CUE sheet counts from its own start
+   */
+  public getProgress(): number {
+    if (!this.audioElement) return 0;
+    return Math.max(0, this.audioElement.currentTime - (this.currentTrack?.cueStart ?? 0));
+  }
+
+  private getDuration(): number {
+    if (!this.audioElement) return 0;
+    if (this.currentTrack?.cueStart !== undefined) {
+      const end = this.currentTrack.cueEnd || this.audioElement.duration || 0;
+      return Math.max(0, end - this.currentTrack.cueStart);
+    }
+    return this.audioElement.duration || 0;
+  }
+
+  /**
+   * Move on once a CUE track reaches the start of the next one. The last track in a file
+   * ends with the file, which the ended event handles
+   */
+  private async checkCueEnd(): Promise<void> {
+    const cueEnd = this.currentTrack?.cueEnd;
+    if (!cueEnd || !this.audioElement || this.isAdvancing || this.audioElement.currentTime < cueEnd) return;
+
+    this.isAdvancing = true;
+    const finished = this.currentTrack;
+    if (this.currentListen) {
+      this.currentListen.finished = true;
+    }
+    try {
+      await this.playNextTrack();
+      // Nothing to play next, so don't run on into the file's next track
+      if (this.currentTrack === finished) {
+        this.pause();
+      }
+    } finally {
+      this.isAdvancing = false;
+    }
+  }
+
+  /**
+   * Add the time played since the last timeupdate to the current listen, and count the track as
+   * played once that reaches the play threshold
+   */
+  private async trackListening(): Promise<void> {
+    const listen = this.currentListen;
+    if (!listen || !this.audioElement || this.audioElement.paused) return;
+
+    const position = this.getProgress();
+    const step = position - listen.lastPosition;
+    listen.lastPosition = position;
+    if (step <= 0 || step > MAX_LISTEN_STEP_SECONDS) return;
+    listen.listenedSeconds += step;
+    listen.unsavedSeconds += step;
+
+    if (listen.counted || !await playStatsService.reachesPlayThreshold(listen.listenedSeconds, this.getDuration())) return;
+    // Another timeupdate may have counted it in the meantime
+    if (listen.counted) return;
+    listen.counted = true;
+    this.saveListenEvent(listen);
+    try {
+      await playStatsService.recordPlay(listen.trackId);
+    } catch (error) {
+      console.error('Error saving play statistics:', error);
+    }
+  }
+
+  /**
+   * Save the listening time not yet saved for the current track
+   */
+  private saveListeningTime(): void {
+    const listen = this.currentListen;
+    if (!listen || listen.unsavedSeconds === 0) return;
+    this.saveListenEvent(listen);
+    const seconds = listen.unsavedSeconds;
+    listen.unsavedSeconds = 0;
+    playStatsService.recordListen(listen.trackId, seconds, false)
+      .catch(error => console.error('Error saving play statistics:', error));
+  }
+
+  /**
+   * Bring a listen's history entry up to date. Until the listen ends it reads as interrupted,
+   * which is what it was if the app closes first
+   */
+  private saveListenEvent(listen: CurrentListen, outcome: ListenOutcome = 'interrupted'): void {
+    listen.event
+      .then(event => event && listeningHistoryService.updateEvent({
+        ...event,
+        endedAt: Date.now(),
+        listenedSeconds: listen.listenedSeconds,
+        countedAsPlay: listen.counted,
+        outcome
+      }))
+      .catch(error => console.error('Error saving listening history:', error));
+  }
+
+  /**
+   * Finish the current listen, saving its remaining time and how it ended, and start one for
+   * the given track
+   */
+  private startListen(track: AudioTrack | null): void {
+    const listen = this.currentListen;
+    if (listen) {
+      const skipped = listen.skipped && !listen.counted;
+      this.saveListenEvent(listen, listen.finished ? 'completed' : skipped ? 'skipped' : 'interrupted');
+      if (listen.unsavedSeconds > 0 || skipped) {
+        playStatsService.recordListen(listen.trackId, listen.unsavedSeconds, skipped)
+          .catch(error => console.error('Error saving play statistics:', error));
+      }
+    }
+    this.currentListen = track ? {
+      trackId: track.id,
+      listenedSeconds: 0,
+      unsavedSeconds: 0,
+      lastPosition: 0,
+      counted: false,
+      finished: false,
+      skipped: false,
+      event: listeningHistoryService.startEvent(track, this.selectedStation).catch(error => {
+        console.error('Error saving listening history:', error);
+        return null;
+      })
+    } : null;
+  }
+
   private notifyStateChange(): void {
     if (this.onPlaybackStateChange && this.audioElement) {
       const state: PlaybackState = {
         isPlaying: !this.audioElement.paused,
         currentTrack: this.currentTrack,
-        progress: this.audioElement.currentTime,
-        duration: this.audioElement.duration || 0,
+        progress: this.getProgress(),
+        duration: this.getDuration(),
         playbackHistory: [...this.playbackHistory],
         selectedStation: this.selectedStation,
         nextTrack: this.nextTrack
@@ -104,7 +286,8 @@ export class PlaybackService {
 
     // Update media session metadata when track changes
     if ('mediaSession' in navigator && this.currentTrack) {
-      const artwork = this.currentTrack.albumArt ? [{ src: this.currentTrack.albumArt, sizes: '96x96', type: 'image/png' }] : [];
+      // Artwork may be an embedded picture or a folder image of any format, so the type is left to the browser
+      const artwork = this.currentTrack.albumArt ? [{ src: this.currentTrack.albumArt }] : [];
 
       navigator.mediaSession.metadata = new MediaMetadata({
         title: this.currentTrack.title,
@@ -123,6 +306,9 @@ export class PlaybackService {
     if (!track) return;
 
     try {
+      this.queue = [];
+      // The track was picked directly, not by the previous station
+      this.selectedStation = null;
       this.play(track);
 
       // Create temporary radio station based on the selected track
@@ -155,6 +341,7 @@ export class PlaybackService {
       }
 
       this.selectedStation = station;
+      this.queue = [];
       this.notifyStateChange();
 
       this.play(track);
@@ -164,6 +351,28 @@ export class PlaybackService {
     }
   }
 
+  /**
+   * Play tracks in the given order, then carry on with a station built from them
+   * @param tracks The tracks to play, e.g. an album in disc and track order
+   * @param station The station to continue with once the tracks have played
+   */
+  public async playInOrder(tracks: MusicLibraryEntry[], station: RadioStation): Promise<void> {
+    const [first, ...rest] = tracks;
+    if (!first) return;
+
+    try {
+      this.selectedStation = station;
+      this.queue = rest;
+      this.nextTrack = rest[0] ? await musicCacheService.getTrackFromLibraryEntry(rest[0]) : null;
+      this.notifyStateChange();
+
+      await this.play(await musicCacheService.getTrackFromLibraryEntry(first));
+    } catch (error) {
+      console.error('Playback error:', error);
+      throw error;
+    }
+  }
+
   public async play(track: AudioTrack): Promise<void> {
     if (!track) return;
     // Add current track to history before playing new one
@@ -192,11 +401,14 @@ export class PlaybackService {
       this.audioElement.pause();
       this.audioElement.removeAttribute('src');
       this.audioElement.load();
+      this.loadedFile = null;
+      this.startListen(null);
       this.currentTrack = null;
       // Clear history on stop
       this.playbackHistory = [];
       this.selectedStation = null;
       this.nextTrack = null;
+      this.queue = [];
       this.notifyStateChange();
     }
   }
@@ -265,9 +477,43 @@ export class PlaybackService {
   }
 
   /**
-   * Play the next track for the currently selected station
+   * Give the current track a thumbs up or down on the selected station, tuning the station's
+   * weights. A thumbs down bans the track from the station and moves on to the next one
+   */
+  public async giveFeedback(vote: FeedbackVote): Promise<void> {
+    const station = this.selectedStation;
+    const track = this.currentTrack;
+    if (!station || !track) return;
+
+    await stationFeedbackService.recordFeedback(station, track, vote);
+    const updated = await radioStationService.applyFeedback(station, track, vote);
+    // The station may have changed while the feedback was saved
+    if (this.selectedStation?.id === updated.id) {
+      this.selectedStation = updated;
+      this.notifyStateChange();
+    }
+    if (vote === 'down' && this.currentTrack?.id === track.id) {
+      await this.playNextTrack();
+    }
+  }
+
+  /**
+   * Play the next queued track, or the next track for the currently selected station
    */
   public async playNextTrack(): Promise<void> {
+    // Moving on before the track counted as played is a skip
+    if (this.currentListen && !this.currentListen.finished && !this.currentListen.counted) {
+      this.currentListen.skipped = true;
+    }
+
+    const queued = this.queue.shift();
+    if (queued) {
+      await this.play(await musicCacheService.getTrackFromLibraryEntry(queued));
+      this.nextTrack = this.queue[0] ? await musicCacheService.getTrackFromLibraryEntry(this.queue[0]) : null;
+      this.notifyStateChange();
+      return;
+    }
+
     if (this.selectedStation) {
       const station = this.selectedStation;
       if (station) {
@@ -295,11 +541,11 @@ export class PlaybackService {
 
   /**
    * Seek to a specific time position in the current track
-   * @param time The time in seconds to seek to
+   * @param time The time in seconds to seek to, from the start of the track
    */
   public seek(time: number): void {
     if (this.audioElement) {
-      this.audioElement.currentTime = time;
+      this.audioElement.currentTime = (this.currentTrack?.cueStart ?? 0) + time;
       this.notifyStateChange();
     }
   }
@@ -312,7 +558,18 @@ export class PlaybackService {
     if (!track) return;
 
     try {
+      const fileKey = `${track.rootId}/${track.filePath}`;
+      const cueStart = track.cueStart ?? 0;
+      // The next track of a CUE sheet carries on from the current one without reloading the file
+      const continuesFile = track.cueStart !== undefined && this.audioElement !== null && !this.audioElement.paused
+        && this.loadedFile === fileKey
+        && Math.abs(this.audioElement.currentTime - cueStart) < 1;
+      this.startListen(track);
       this.currentTrack = track;
+      if (continuesFile) {
+        this.notifyStateChange();
+        return;
+      }
 
       const audioFile = await loadAudioFileFromTrack(track);
 
@@ -329,9 +586,20 @@ export class PlaybackService {
       // Load the file
       const objectUrl = URL.createObjectURL(audioFile);
       this.audioElement.src = objectUrl;
+      this.loadedFile = fileKey;
+
+      // Tracks cut from a larger file start part way in, which can only be set once it has loaded
+      if (cueStart > 0) {
+        const audioElement = this.audioElement;
+        await new Promise<void>((resolve, reject) => {
+          audioElement.addEventListener('loadedmetadata', () => resolve(), { once: true });
+          audioElement.addEventListener('error', () => reject(audioElement.error), { once: true });
+        });
+        audioElement.currentTime = cueStart;
+      }
 
       // Apply volume normalization
-      this.applyVolumeNormalization(track, this.audioElement);
+      await this.applyVolumeNormalization(track, this.audioElement);
 
       try {
         await this.audioElement.play();
@@ -351,7 +619,7 @@ export class PlaybackService {
   public async playPrevious(): Promise<void> {
     if (!this.currentTrack || !this.audioElement) return;
 
-    const currentProgress = this.audioElement.currentTime;
+    const currentProgress = this.getProgress();
 
     // If past 5 seconds, go back to beginning of current track
     if (currentProgress > 5) {
@@ -380,8 +648,8 @@ export class PlaybackService {
       const state: PlaybackState = {
         isPlaying: !this.audioElement.paused,
         currentTrack: this.currentTrack,
-        progress: this.audioElement.currentTime,
-        duration: this.audioElement.duration || 0,
+        progress: this.getProgress(),
+        duration: this.getDuration(),
         playbackHistory: [...this.playbackHistory],
         selectedStation: this.selectedStation,
         nextTrack: this.nextTrack
@@ -405,6 +673,9 @@ export class PlaybackService {
 
       this.audioElement = null;
     }
+    this.audioContext?.close();
+    this.audioContext = null;
+    this.normalizationGain = null;
   }
 
   /**
@@ -412,16 +683,19 @@ export class PlaybackService {
     * @param track The track with normalization data
     * @param audioElement The audio element to apply normalization to
     */
-  private applyVolumeNormalization(track: AudioTrack, audioElement: HTMLAudioElement): void {
-    // We'll implement a simple normalization strategy for now
-    // In the future, we can implement more sophisticated ReplayGain-based normalization
-
-    // For now, we'll use a simple gain-based approach using the track's peak level if available
-    // This is a basic implementation that can be expanded
-    if (track.replayGainTrackGain !== undefined && track.replayGainTrackGain !== null) {
-      // This would be where we would apply ReplayGain if we had more sophisticated handling
-      // For now, we'll just log it for development purposes
-      console.log('Track has ReplayGain data:', track.fileName, track.replayGainTrackGain);
+  private async applyVolumeNormalization(track: AudioTrack, audioElement: HTMLAudioElement): Promise<void> {
+    // An element can only be routed through Web Audio once, so the graph lives as long as the element
+    if (!this.audioContext || !this.normalizationGain) {
+      this.audioContext = new AudioContext();
+      this.normalizationGain = this.audioContext.createGain();
+      this.audioContext.createMediaElementSource(audioElement)
+        .connect(this.normalizationGain)
+        .connect(this.audioContext.destination);
+    }
+    this.normalizationGain.gain.value = getNormalizationGain(track);
+    // Contexts created outside a user gesture start suspended, and would keep the element silent
+    if (this.audioContext.state === 'suspended') {
+      await this.audioContext.resume();
     }
   }
 }
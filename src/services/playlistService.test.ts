@@ -0,0 +1,94 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MusicLibraryEntry } from './musicCacheService';
+import { parseM3u, parsePls, playlistService } from './playlistService';
+
+// Default settings size the scan pool from the browser's core count, which Node 20 doesn't have
+vi.hoisted(() => {
+  vi.stubGlobal('navigator', { hardwareConcurrency: 4 });
+});
+
+const entry = (rootId: string, filePath: string, cueStart?: number): MusicLibraryEntry => ({
+  id: cueStart ? `${rootId}/${filePath}#${cueStart}` : `${rootId}/${filePath}`,
+  rootId,
+  filePath,
+  fileName: filePath.split('/').pop()!,
+  ...(cueStart !== undefined ? { cueStart } : {})
+} as MusicLibraryEntry);
+
+const LIBRARY = [
+  entry('root', 'Rock/Nirvana/Nevermind/01 Smells Like Teen Spirit.mp3'),
+  entry('root', 'Rock/Nirvana/Nevermind/02 In Bloom.mp3'),
+  entry('root', 'Electronic/Björk/Homogenic.flac', 260),
+  entry('root', 'Electronic/Björk/Homogenic.flac', 0),
+  entry('root', 'Live/01 Intro.mp3'),
+  entry('root', 'Demos/01 Intro.mp3'),
+  entry('other', 'Jazz/Miles Davis/So What.flac')
+];
+
+const importPlaylist = (filePath: string, parsed: ReturnType<typeof parseM3u>) =>
+  playlistService['resolvePlaylist']('root', filePath, parsed, playlistService['buildPathIndex'](LIBRARY));
+
+describe('parseM3u', () => {
+  it('reads entries with their #EXTINF titles and the playlist name', () => {
+    const parsed = parseM3u('#EXTM3U\r\n#PLAYLIST:Favourites\r\n#EXTINF:301,Nirvana - In Bloom\r\n../Rock/In Bloom.mp3\r\n\r\nintro.mp3\r\n');
+
+    expect(parsed.name).toBe('Favourites');
+    expect(parsed.entries).toEqual([
+      { position: 4, location: '../Rock/In Bloom.mp3', title: 'Nirvana - In Bloom' },
+      { position: 6, location: 'intro.mp3', title: undefined }
+    ]);
+  });
+});
+
+describe('parsePls', () => {
+  it('orders entries by their number, not their line', () => {
+    const parsed = parsePls('[playlist]\nFile2=b.mp3\nTitle2=B\nFile1=a.mp3\nNumberOfEntries=2\nVersion=2');
+
+    expect(parsed.entries).toEqual([
+      { position: 1, location: 'a.mp3', title: undefined },
+      { position: 2, location: 'b.mp3', title: 'B' }
+    ]);
+  });
+});
+
+describe('playlist import', () => {
+  it('resolves relative, absolute and file URL entries to library tracks, in playlist order', () => {
+    const playlist = importPlaylist('Playlists/Mix.m3u8', parseM3u([
+      '../Rock/Nirvana/Nevermind/02 In Bloom.mp3',
+      'C:\\Users\\me\\Music\\Nevermind\\01 Smells Like Teen Spirit.mp3',
+      'file:///home/me/Music/Jazz/Miles%20Davis/So%20What.flac',
+      '../Rock/Nirvana/Nevermind/02 In Bloom.mp3'
+    ].join('\n')));
+
+    expect(playlist).toMatchObject({ id: 'root/Playlists/Mix.m3u8', name: 'Mix', unresolved: [] });
+    expect(playlist.trackIds).toEqual([
+      'root/Rock/Nirvana/Nevermind/02 In Bloom.mp3',
+      'root/Rock/Nirvana/Nevermind/01 Smells Like Teen Spirit.mp3',
+      'other/Jazz/Miles Davis/So What.flac',
+      'root/Rock/Nirvana/Nevermind/02 In Bloom.mp3'
+    ]);
+  });
+
+  it('lists a file cut up by a CUE sheet as its first track', () => {
+    const playlist = importPlaylist('Electronic/albums.m3u', parseM3u('Björk/Homogenic.flac'));
+
+    expect(playlist.trackIds).toEqual(['root/Electronic/Björk/Homogenic.flac']);
+  });
+
+  it('keeps entries it can\'t resolve, with the reason', () => {
+    const playlist = importPlaylist('Playlists/Radio.pls', parsePls([
+      'File1=http://radio.example.com/stream',
+      'Title1=Internet radio',
+      'File2=D:\\Music\\01 Intro.mp3',
+      'File3=Missing.mp3'
+    ].join('\n')));
+
+    expect(playlist.name).toBe('Radio');
+    expect(playlist.trackIds).toEqual([]);
+    expect(playlist.unresolved).toEqual([
+      { position: 1, location: 'http://radio.example.com/stream', title: 'Internet radio', reason: 'stream' },
+      { position: 2, location: 'D:\\Music\\01 Intro.mp3', title: undefined, reason: 'ambiguous' },
+      { position: 3, location: 'Missing.mp3', title: undefined, reason: 'missing' }
+    ]);
+  });
+});
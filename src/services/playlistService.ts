@@ -0,0 +1,336 @@
+import { MusicCacheService, MusicLibraryEntry } from './musicCacheService';
+import { ScannedPlaylistFile, getFileNameFromPath, readTextFile } from './fileSystemService';
+import { ScanJob } from './scanJob';
+
+export type UnresolvedReason = 'missing' | 'ambiguous' | 'stream';
+
+export interface UnresolvedPlaylistEntry {
+  // 1-based position of the entry in the playlist file
+  position: number;
+  // The entry as written in the playlist
+  location: string;
+  title?: string | undefined;
+  reason: UnresolvedReason;
+}
+
+export interface Playlist {
+  // `${rootId}/${filePath}`, so re-importing a playlist file replaces it
+  id: string;
+  rootId: string;
+  // Path of the playlist file relative to its library root
+  filePath: string;
+  name: string;
+  // Library entries in playlist order; a track listed twice appears twice
+  trackIds: string[];
+  unresolved: UnresolvedPlaylistEntry[];
+  importedAt: Date;
+}
+
+interface PlaylistEntryRef {
+  position: number;
+  location: string;
+  title?: string | undefined;
+}
+
+interface ParsedPlaylist {
+  name: string | null;
+  entries: PlaylistEntryRef[];
+}
+
+interface LibraryPathIndex {
+  // Lower-cased `${rootId}/${filePath}`
+  byPath: Map<string, MusicLibraryEntry>;
+  // Lower-cased file name, for entries whose folder layout doesn't match the library's
+  byName: Map<string, MusicLibraryEntry[]>;
+}
+
+const PLAYLISTS_STORE = 'playlists';
+
+/**
+ * Parse an extended or plain M3U playlist. #EXTINF titles attach to the entry that follows them
+ */
+export function parseM3u(text: string): ParsedPlaylist {
+  const entries: PlaylistEntryRef[] = [];
+  let name: string | null = null;
+  let pendingTitle: string | undefined;
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (line.length === 0) return;
+    if (line.startsWith('#')) {
+      if (line.startsWith('#EXTINF:')) {
+        const comma = line.indexOf(',');
+        pendingTitle = comma === -1 ? undefined : line.substring(comma + 1).trim() || undefined;
+      } else if (line.startsWith('#PLAYLIST:')) {
+        name = line.substring('#PLAYLIST:'.length).trim() || null;
+      }
+      return;
+    }
+    entries.push({ position: index + 1, location: line, title: pendingTitle });
+    pendingTitle = undefined;
+  });
+
+  return { name, entries };
+}
+
+/**
+ * Parse a PLS playlist. Entries are ordered by their FileN number, not their line
+ */
+export function parsePls(text: string): ParsedPlaylist {
+  const files = new Map<number, string>();
+  const titles = new Map<number, string>();
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const match = rawLine.trim().match(/^(File|Title)(\d+)\s*=\s*(.*)$/i);
+    if (!match) continue;
+    const [, key, number, value] = match;
+    (key!.toLowerCase() === 'file' ? files : titles).set(Number(number), value!.trim());
+  }
+
+  const entries = [...files.entries()]
+    .sort((a, b) => a[0] - b[0])
+    .map(([number, location]) => ({ position: number, location, title: titles.get(number) || undefined }));
+  return { name: null, entries };
+}
+
+/**
+ * Turn a playlist location into '/'-separated path segments, with '.' and '..' applied.
+ * Relative locations are taken from the playlist's own directory
+ */
+function toPathSegments(location: string, playlistDir: string): { segments: string[]; absolute: boolean } {
+  let path = location;
+  if (/^file:\/\//i.test(path)) {
+    try {
+      path = decodeURIComponent(new URL(path).pathname);
+    } catch {
+      path = path.substring('file://'.length);
+    }
+  }
+  path = path.replace(/\\/g, '/');
+  const absolute = path.startsWith('/') || /^[a-z]:\//i.test(path);
+
+  const segments: string[] = [];
+  const combined = absolute ? path : `${playlistDir}${path}`;
+  for (const segment of combined.split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') {
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+  return { segments, absolute };
+}
+
+export class PlaylistService {
+  constructor() {
+  }
+
+  /**
+   * Parse the playlist files found in a root and store each as an ordered list of library tracks.
+   * Playlists whose files have gone are removed
+   */
+  public async importPlaylists(rootId: string, playlistFiles: ScannedPlaylistFile[], job: ScanJob): Promise<void> {
+    const index = this.buildPathIndex(await MusicCacheService.getInstance().getAllCachedEntries());
+    const imported: Playlist[] = [];
+
+    for (const playlistFile of playlistFiles) {
+      if (job.isCancelled) return;
+      try {
+        const file = await playlistFile.handle.getFile();
+        // M3U8 is UTF-8 by definition
+        const text = await readTextFile(file, file.name.toLowerCase().endsWith('.m3u8'));
+        const parsed = file.name.toLowerCase().endsWith('.pls') ? parsePls(text) : parseM3u(text);
+        imported.push(this.resolvePlaylist(rootId, playlistFile.path, parsed, index));
+      } catch (error) {
+        console.error(`Error importing playlist ${playlistFile.path}:`, error);
+      }
+      job.advance(playlistFile.path);
+    }
+
+    const current = new Set(imported.map(playlist => playlist.id));
+    const stale = (await this.getPlaylistsForRoot(rootId)).filter(playlist => !current.has(playlist.id));
+    await this.storePlaylists(imported);
+    await this.removePlaylists(stale.map(playlist => playlist.id));
+
+    const unresolved = imported.reduce((sum, playlist) => sum + playlist.unresolved.length, 0);
+    console.log(`Imported ${imported.length} playlists, ${unresolved} entries not found in the library`);
+  }
+
+  /**
+   * Every imported playlist, by name
+   */
+  public async getPlaylists(): Promise<Playlist[]> {
+    const playlists = await this.request<Playlist[]>('readonly', store => store.getAll());
+    return playlists.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  public async getPlaylistsForRoot(rootId: string): Promise<Playlist[]> {
+    return await this.request('readonly', store => store.index('rootId').getAll(IDBKeyRange.only(rootId)));
+  }
+
+  /**
+   * The playlist's tracks in order, leaving out any removed from the library since it was imported
+   */
+  public async getPlaylistTracks(playlist: Playlist): Promise<MusicLibraryEntry[]> {
+    const musicCache = MusicCacheService.getInstance();
+    const tracks = await Promise.all(playlist.trackIds.map(id => musicCache.getEntryById(id)));
+    return tracks.filter((track): track is MusicLibraryEntry => track !== null);
+  }
+
+  /**
+   * Number of playlist entries that didn't match a library track
+   */
+  public async countUnresolved(rootId?: string): Promise<number> {
+    const playlists = rootId ? await this.getPlaylistsForRoot(rootId) : await this.getPlaylists();
+    return playlists.reduce((sum, playlist) => sum + playlist.unresolved.length, 0);
+  }
+
+  public async removePlaylists(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const db = this.getDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([PLAYLISTS_STORE], 'readwrite');
+      const store = transaction.objectStore(PLAYLISTS_STORE);
+      ids.forEach(id => store.delete(id));
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  private buildPathIndex(entries: MusicLibraryEntry[]): LibraryPathIndex {
+    const byPath = new Map<string, MusicLibraryEntry>();
+    const byName = new Map<string, MusicLibraryEntry[]>();
+    for (const entry of entries) {
+      const path = `${entry.rootId}/${entry.filePath}`.toLowerCase();
+      const listed = byPath.get(path);
+      // A file cut up by a CUE sheet is listed as a whole, so it stands for its first track
+      if (listed) {
+        if ((entry.cueStart ?? 0) < (listed.cueStart ?? 0)) {
+          byPath.set(path, entry);
+          byName.set(entry.fileName.toLowerCase(), byName.get(entry.fileName.toLowerCase())!.map(named => named === listed ? entry : named));
+        }
+        continue;
+      }
+      byPath.set(path, entry);
+      const name = entry.fileName.toLowerCase();
+      const named = byName.get(name);
+      if (named) {
+        named.push(entry);
+      } else {
+        byName.set(name, [entry]);
+      }
+    }
+    return { byPath, byName };
+  }
+
+  private resolvePlaylist(rootId: string, filePath: string, parsed: ParsedPlaylist, index: LibraryPathIndex): Playlist {
+    const fileName = getFileNameFromPath(filePath);
+    const playlistDir = filePath.substring(0, filePath.length - fileName.length);
+    const trackIds: string[] = [];
+    const unresolved: UnresolvedPlaylistEntry[] = [];
+
+    for (const ref of parsed.entries) {
+      const result = this.resolveEntry(rootId, ref.location, playlistDir, index);
+      if (typeof result === 'string') {
+        unresolved.push({ ...ref, reason: result });
+      } else {
+        trackIds.push(result.id);
+      }
+    }
+
+    return {
+      id: `${rootId}/${filePath}`,
+      rootId,
+      filePath,
+      name: parsed.name ?? fileName.replace(/\.(m3u8?|pls)$/i, ''),
+      trackIds,
+      unresolved,
+      importedAt: new Date(),
+    };
+  }
+
+  /**
+   * Find the library track a playlist entry points to. Relative paths are looked up in the
+   * playlist's root first. Absolute paths, and relative ones written for another folder layout,
+   * fall back to the track with the same file name sharing the most trailing folders
+   */
+  private resolveEntry(rootId: string, location: string, playlistDir: string, index: LibraryPathIndex): MusicLibraryEntry | UnresolvedReason {
+    if (/^[a-z][a-z0-9+.-]*:\/\//i.test(location) && !/^file:\/\//i.test(location)) {
+      return 'stream';
+    }
+
+    const { segments, absolute } = toPathSegments(location, playlistDir);
+    const fileName = segments[segments.length - 1];
+    if (!fileName) return 'missing';
+
+    if (!absolute) {
+      const exact = index.byPath.get(`${rootId}/${segments.join('/')}`.toLowerCase());
+      if (exact) return exact;
+    }
+
+    const candidates = index.byName.get(fileName.toLowerCase()) ?? [];
+    let best: MusicLibraryEntry | null = null;
+    let bestScore = 0;
+    let tied = false;
+    for (const candidate of candidates) {
+      const candidateSegments = candidate.filePath.toLowerCase().split('/');
+      let score = 0;
+      while (
+        score < candidateSegments.length &&
+        score < segments.length &&
+        candidateSegments[candidateSegments.length - 1 - score] === segments[segments.length - 1 - score]!.toLowerCase()
+      ) {
+        score++;
+      }
+      // Break ties in favour of the playlist's own root
+      const rank = score * 2 + (candidate.rootId === rootId ? 1 : 0);
+      if (rank > bestScore) {
+        best = candidate;
+        bestScore = rank;
+        tied = false;
+      } else if (rank === bestScore) {
+        tied = true;
+      }
+    }
+
+    if (!best) return 'missing';
+    return tied ? 'ambiguous' : best;
+  }
+
+  private async storePlaylists(playlists: Playlist[]): Promise<void> {
+    if (playlists.length === 0) return;
+    const db = this.getDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([PLAYLISTS_STORE], 'readwrite');
+      const store = transaction.objectStore(PLAYLISTS_STORE);
+      playlists.forEach(playlist => store.put(playlist));
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = this.getDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([PLAYLISTS_STORE], mode);
+      const request = run(transaction.objectStore(PLAYLISTS_STORE));
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private getDB(): IDBDatabase {
+    const db = (MusicCacheService.getInstance() as any).db as IDBDatabase | null;
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    return db;
+  }
+}
+
+// Singleton instance
+export const playlistService = new PlaylistService();
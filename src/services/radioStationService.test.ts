@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MusicLibraryEntry } from './musicCacheService';
+import { RadioStation, RadioStationCriteria, radioStationService } from './radioStationService';
+
+// Default settings size the scan pool from the browser's core count, which Node 20 doesn't have
+vi.hoisted(() => {
+  vi.stubGlobal('navigator', { hardwareConcurrency: 4 });
+});
+
+const track = (artist: string, mood: string): MusicLibraryEntry => ({
+  id: artist,
+  title: 'Song',
+  artist,
+  album: 'Album',
+  genre: '',
+  mood,
+  year: 1994
+} as MusicLibraryEntry);
+
+const station = (criteria: RadioStationCriteria[]): RadioStation => ({
+  id: 'station_1',
+  name: 'Station',
+  description: 'Station',
+  criteria,
+  createdAt: new Date(0),
+  updatedAt: new Date(0),
+  isAutoGenerated: true
+});
+
+const score = (station: RadioStation, entry: MusicLibraryEntry): number =>
+  radioStationService['calculateTrackScore'](entry, station.criteria, 0);
+
+describe('applyFeedback', () => {
+  const grunge = track('Nirvana', 'angry');
+  const ambient = track('Enya', 'calm');
+  // Generated stations start with every weight at the maximum
+  const generated = station([
+    { attribute: 'artist', value: 'Nirvana', weight: 1, requirement: false },
+    { attribute: 'mood', value: 'calm', weight: 1, requirement: false },
+    { attribute: 'rating', value: '3', weight: 1, requirement: false }
+  ]);
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const vote = (vote: 'up' | 'down') => {
+    vi.spyOn(radioStationService, 'updateStation').mockImplementation(async (current, updates) => ({ ...current, ...updates }));
+    return radioStationService.applyFeedback(generated, grunge, vote);
+  };
+
+  it('raises the score of tracks like the one given a thumbs up, even at full weights', async () => {
+    const updated = await vote('up');
+
+    expect(score(updated, { ...grunge, tagRating: 4 })).toBeGreaterThan(score(generated, { ...grunge, tagRating: 4 }));
+    expect(score(updated, { ...ambient, tagRating: 4 })).toBeLessThan(score(generated, { ...ambient, tagRating: 4 }));
+    expect(Math.max(...updated.criteria.map(criterion => criterion.weight))).toBe(1);
+  });
+
+  it('lowers the score of tracks like the one given a thumbs down', async () => {
+    const updated = await vote('down');
+
+    expect(score(updated, { ...grunge, tagRating: 4 })).toBeLessThan(score(generated, { ...grunge, tagRating: 4 }));
+    expect(score(updated, { ...ambient, tagRating: 4 })).toBeGreaterThan(score(generated, { ...ambient, tagRating: 4 }));
+  });
+
+  it('leaves the minimum rating alone', async () => {
+    const updated = await vote('up');
+
+    expect(updated.criteria.find(criterion => criterion.attribute === 'rating')).toEqual(generated.criteria[2]);
+  });
+});
@@ -1,6 +1,11 @@
-import { MusicCacheService, AudioTrack, MusicLibraryEntry } from './musicCacheService';
+import { MusicCacheService, AudioTrack, MusicLibraryEntry, getRating } from './musicCacheService';
 import allImageUrl from '../assets/all.jpg';
-import { genreSimilarity } from './id3Service';
+import { genreSimilarity, getRelatedGenres } from './id3Service';
+import { duplicateService } from './duplicateService';
+import { parseBpmRange } from '../utils/tempo';
+import { keySimilarity, parseKey } from '../utils/musicalKey';
+import { settingsService } from './settingsService';
+import { FeedbackVote, stationFeedbackService } from './stationFeedbackService';
 
 
 export interface TrackScore {
@@ -20,13 +25,28 @@ export interface RadioStation {
   isCustom?: boolean | undefined;
   isAllMusic?: boolean | undefined;
   imagePath?: string | undefined;
+  // Artwork store ID of a track's cover, shown instead of imagePath
+  imageArtId?: string | undefined;
   favoritedAt?: Date | null | undefined;
 }
 
-export type RadioStationAttribute = 'artist' | 'album' | 'genre' | 'mood' | 'decade';
+export type RadioStationAttribute = 'artist' | 'album' | 'genre' | 'mood' | 'decade' | 'bpm' | 'key' | 'rating';
+
+// Set by hand rather than derived from a station's tracks
+export const MANUAL_ATTRIBUTES: RadioStationAttribute[] = ['bpm', 'key', 'rating'];
+
+// Tracks this many BPM outside a tempo range still get partial credit
+const BPM_TOLERANCE = 10;
+
+// How much one thumbs up or down scales the weight of a criterion the track fully matches
+const FEEDBACK_NUDGE = 0.1;
+// Feedback only ever weakens a criterion, never removes it
+const MIN_FEEDBACK_WEIGHT = 0.05;
 
 export interface RadioStationCriteria {
   attribute: RadioStationAttribute;
+  // For bpm, a range such as "120-130" or a single tempo; for key, e.g. "A minor" or "8A"; for
+  // rating, the minimum number of stars
   value: string;
   weight: number; // 0-1 scale
   requirement: boolean;
@@ -55,10 +75,15 @@ export class RadioStationService {
       isTemporary,
       isAllMusic: station?.isAllMusic,
       imagePath: station?.imagePath,
+      imageArtId: station?.imageArtId,
       isCustom: station?.isCustom,
       favoritedAt: null
     };
 
+    // A temporary station replaces any earlier one of the same name, and doesn't inherit its bans
+    if (isTemporary) {
+      await stationFeedbackService.removeFeedbackForStation(newStation.id);
+    }
     await this.storeStation(newStation);
     return newStation;
   }
@@ -81,6 +106,7 @@ export class RadioStationService {
       updatedAt: new Date(),
       lastPlayed: updates.lastPlayed || station.lastPlayed || null,
       imagePath: updates.imagePath || station.imagePath,
+      imageArtId: updates.imageArtId || station.imageArtId,
       isCustom: updates.isCustom || station.isCustom,
       favoritedAt: updates.favoritedAt !== undefined ? updates.favoritedAt : station.favoritedAt,
     };
@@ -97,6 +123,7 @@ export class RadioStationService {
     if (!db) {
       throw new Error('Database not initialized');
     }
+    await stationFeedbackService.removeFeedbackForStation(id);
 
     return new Promise((resolve, reject) => {
       const transaction = db.transaction(['radioStations'], 'readwrite');
@@ -182,38 +209,140 @@ export class RadioStationService {
     station: RadioStation,
     playbackHistory: AudioTrack[]
   ): Promise<TrackScore[]> {
-    const allTracks = await MusicCacheService.getInstance().getAllCachedEntries();
-
-    if (allTracks.length === 0) {
+    if (station.isTemporary && station.criteria.length === 0) {
       return [];
     }
 
-    if (station.isTemporary && station.criteria.length === 0) {
+    const allTracks = await this.getCandidateTracks(station.criteria);
+
+    if (allTracks.length === 0) {
       return [];
     }
 
-    let recent = [...playbackHistory].reverse().slice(0, 20);
+    // Copies of the same song are one logical song: they share a repeat penalty and score once
+    const duplicateGroups = await duplicateService.getGroupsByTrack();
+    const songKey = (trackId: string) => duplicateGroups.get(trackId)?.id ?? trackId;
+    let recent = [...playbackHistory].reverse().slice(0, 20).map(t => songKey(t.id));
+    const { ratingInfluence } = await settingsService.getSettings();
+    // A thumbs down bans every copy of the song
+    const banned = new Set(Array.from(await stationFeedbackService.getBannedTrackIds(station.id), songKey));
 
-    const scoredTracks: TrackScore[] = [];
+    const bestBySong = new Map<string, TrackScore>();
 
     for (const track of allTracks) {
-      let index = recent.findIndex(t => t.id === track.id);
+      const key = songKey(track.id);
+      if (banned.has(key)) continue;
+      let index = recent.indexOf(key);
       let penalty = 0;
       if (index >= 0) {
         // last 5 tracks are effectively never repeated, then chances decrease
         penalty = Math.min(1, Math.max(0, 1 - (index - 5) / 20));
       }
-      const score = this.calculateTrackScore(track, station.criteria) * (1 - penalty);
-      if (score > 0) {
-        scoredTracks.push({ track: track, score });
+      const score = this.calculateTrackScore(track, station.criteria, ratingInfluence / 100) * (1 - penalty);
+      if (score > 0 && score > (bestBySong.get(key)?.score ?? 0)) {
+        bestBySong.set(key, { track: track, score });
       }
     }
 
+    // A song scores as its best-matching copy but plays as the preferred one
+    const scoredTracks: TrackScore[] = [];
+    const candidates = new Map(allTracks.map(track => [track.id, track]));
+    for (const scored of bestBySong.values()) {
+      const group = duplicateGroups.get(scored.track.id);
+      if (group && group.preferredId !== scored.track.id) {
+        const preferred = candidates.get(group.preferredId) ?? await MusicCacheService.getInstance().getEntryById(group.preferredId);
+        if (preferred) {
+          scored.track = preferred;
+        }
+      }
+      scoredTracks.push(scored);
+    }
+
     scoredTracks.sort((a, b) => b.score - a.score);
 
     return scoredTracks;
   }
 
+  /**
+   * Look up every track that could score above zero for the criteria, using the library indexes.
+   * A track is a candidate if it matches at least one criterion; with no criteria everything matches
+   */
+  private async getCandidateTracks(criteria: RadioStationCriteria[]): Promise<MusicLibraryEntry[]> {
+    const cache = MusicCacheService.getInstance();
+    if (criteria.length === 0) {
+      return await cache.getAllCachedEntries();
+    }
+
+    const candidates = new Map<string, MusicLibraryEntry>();
+    const addAll = (tracks: MusicLibraryEntry[]) => tracks.forEach(track => candidates.set(track.id, track));
+
+    // Partial string matches can't use a key range, so filter the (much smaller) set of distinct keys
+    const addMatchingKeys = async (indexName: string, value: string) => {
+      const keys = await cache.getDistinctIndexKeys(indexName) as string[];
+      for (const key of keys.filter(key => this.matchString(key, value) > 0)) {
+        addAll(await cache.getEntriesByIndex(indexName, IDBKeyRange.only(key)));
+      }
+    };
+
+    for (const criterion of criteria) {
+      switch (criterion.attribute) {
+        case 'artist':
+          await addMatchingKeys('artistKey', criterion.value);
+          break;
+        case 'album':
+          await addMatchingKeys('albumKey', criterion.value);
+          break;
+        case 'mood':
+          await addMatchingKeys('moodKey', criterion.value);
+          break;
+        case 'genre':
+          for (const genre of getRelatedGenres(criterion.value)) {
+            addAll(await cache.getEntriesByIndex('genreTokens', IDBKeyRange.only(genre)));
+          }
+          break;
+        case 'decade':
+          // calculateAttributeMatch gives partial credit up to 5 years outside the decade
+          const decade = parseInt(criterion.value);
+          if (!isNaN(decade)) {
+            addAll(await cache.getEntriesByIndex('year', IDBKeyRange.bound(decade - 4, decade + 14)));
+          }
+          break;
+        case 'bpm':
+          // Partial credit within the tolerance, and for tracks at half or double the tempo
+          const range = parseBpmRange(criterion.value);
+          if (range) {
+            const [low, high] = range;
+            addAll(await cache.getEntriesByIndex('bpm', IDBKeyRange.bound(low - BPM_TOLERANCE, high + BPM_TOLERANCE)));
+            addAll(await cache.getEntriesByIndex('bpm', IDBKeyRange.bound((low - BPM_TOLERANCE) / 2, (high + BPM_TOLERANCE) / 2)));
+            addAll(await cache.getEntriesByIndex('bpm', IDBKeyRange.bound((low - BPM_TOLERANCE) * 2, (high + BPM_TOLERANCE) * 2)));
+          }
+          break;
+        case 'rating':
+          // The app's rating wins over the tags', so a track either one rates high enough is a candidate
+          const minRating = parseInt(criterion.value);
+          if (minRating > 0) {
+            addAll(await cache.getEntriesByIndex('tagRating', IDBKeyRange.lowerBound(minRating)));
+            addAll(await cache.getEntriesByIndex('userRating', IDBKeyRange.lowerBound(minRating)));
+          }
+          break;
+        case 'key':
+          const key = parseKey(criterion.value);
+          if (key) {
+            const keys = await cache.getDistinctIndexKeys('musicalKey') as string[];
+            for (const trackKey of keys) {
+              const parsed = parseKey(trackKey);
+              if (parsed && keySimilarity(parsed, key) > 0) {
+                addAll(await cache.getEntriesByIndex('musicalKey', IDBKeyRange.only(trackKey)));
+              }
+            }
+          }
+          break;
+      }
+    }
+
+    return Array.from(candidates.values());
+  }
+
   /**
    * Select tracks for a radio station based on weighted criteria
    */
@@ -242,20 +371,52 @@ export class RadioStationService {
   }
 
   /**
-   * Calculate a weighted score for how well a track matches the station criteria
+   * Shift a station's criteria weights after a thumbs up or down: toward what the track matches
+   * for a thumbs up, away from it for a thumbs down. Each weight is scaled in proportion to how
+   * well the track matches its criterion. Scores only depend on the weights relative to each
+   * other, so a thumbs up rescales them afterwards, taking weight from the criteria the track
+   * doesn't match, rather than stopping at the 0-1 limit
+   */
+  public async applyFeedback(station: RadioStation, track: MusicLibraryEntry, vote: FeedbackVote): Promise<RadioStation> {
+    const direction = vote === 'up' ? 1 : -1;
+    // A minimum rating is a cut-off without a weight to tune
+    const nudged = new Map(station.criteria
+      .filter(criterion => criterion.attribute !== 'rating')
+      .map(criterion => [criterion, criterion.weight * (1 + direction * FEEDBACK_NUDGE * this.calculateAttributeMatch(track, criterion))]));
+    const scale = Math.max(1, ...nudged.values());
+    const criteria = station.criteria.map(criterion => {
+      const weight = nudged.get(criterion);
+      if (weight === undefined) return criterion;
+      return { ...criterion, weight: Math.max(Math.min(criterion.weight, MIN_FEEDBACK_WEIGHT), weight / scale) };
+    });
+    return await this.updateStation(station, { criteria });
+  }
+
+  /**
+   * Calculate a weighted score for how well a track matches the station criteria, scaled by
+   * the track's rating: up to `ratingInfluence` more for five stars, less for one
    */
-  private calculateTrackScore(track: MusicLibraryEntry, criteria: RadioStationCriteria[]): number {
+  private calculateTrackScore(track: MusicLibraryEntry, criteria: RadioStationCriteria[], ratingInfluence: number): number {
     let totalWeight = 0;
     let weightedSum = 0;
     let requiredWeight: number | null = null;
 
+    // Three stars, like no rating, leaves the score as it is
+    const rating = getRating(track);
+    const ratingFactor = rating > 0 ? 1 + ratingInfluence * (rating - 3) / 2 : 1;
+
+    // A minimum rating is a cut-off rather than one preference among the others
+    const minRating = criteria.find(criterion => criterion.attribute === 'rating');
+    if (minRating && this.calculateAttributeMatch(track, minRating) === 0) return 0;
+    const scoredCriteria = criteria.filter(criterion => criterion.attribute !== 'rating');
+
     // if there is no criteria, everything matches
-    if (criteria.length === 0) return 1;
+    if (scoredCriteria.length === 0) return ratingFactor;
 
     // Normalize weights so they sum to 1
-    const criterionWeights = this.normalizeWeights(criteria);
+    const criterionWeights = this.normalizeWeights(scoredCriteria);
 
-    for (const criterion of criteria) {
+    for (const criterion of scoredCriteria) {
       const attributeWeight = criterionWeights.get(criterion.attribute) || 0;
       if (attributeWeight === 0) continue;
 
@@ -272,7 +433,7 @@ export class RadioStationService {
     }
 
     // Return the weighted sum (already normalized)
-    return weightedSum;
+    return weightedSum * ratingFactor;
   }
 
   /**
@@ -318,11 +479,34 @@ export class RadioStationService {
         if (trackDecade === criterionDecade) { return 1; }
         let diff = Math.min(Math.abs(criterionDecade - track.year), Math.abs(criterionDecade + 10 - track.year));
         return Math.max(1 - diff * .2, 0);
+      case 'bpm':
+        return track.bpm ? this.matchBpm(track.bpm, criterion.value) : 0;
+      case 'rating':
+        return getRating(track) >= parseInt(criterion.value) ? 1 : 0;
+      case 'key':
+        const trackKey = track.musicalKey ? parseKey(track.musicalKey) : null;
+        const criterionKey = parseKey(criterion.value);
+        return trackKey && criterionKey ? keySimilarity(trackKey, criterionKey) : 0;
       default:
         return 0;
     }
   }
 
+  /**
+   * Score a tempo against a BPM range (0-1): full inside it, fading out over BPM_TOLERANCE either
+   * side. Half and double time feel close to the same tempo, so they get half credit
+   */
+  private matchBpm(bpm: number, criterionValue: string): number {
+    const range = parseBpmRange(criterionValue);
+    if (!range) return 0;
+    const [low, high] = range;
+    const matchTempo = (tempo: number) => {
+      const distance = tempo < low ? low - tempo : tempo > high ? tempo - high : 0;
+      return Math.max(0, 1 - distance / BPM_TOLERANCE);
+    };
+    return Math.max(matchTempo(bpm), matchTempo(bpm * 2) * 0.5, matchTempo(bpm / 2) * 0.5);
+  }
+
   /**
    * Calculate string match score (0-1)
    */
@@ -370,6 +554,39 @@ export class RadioStationService {
     });
   }
 
+  /**
+   * Delete the temporary stations left over from earlier sessions, along with their feedback
+   */
+  public async discardTemporaryStations(): Promise<void> {
+    const stations = await this.getAllStations();
+    for (const station of stations.filter(station => station.isTemporary)) {
+      await this.deleteStation(station.id);
+    }
+  }
+
+  /**
+   * Write stations restored from a backup in one transaction. With `replace`, every existing
+   * station is removed first; otherwise stations with the same ID are overwritten
+   */
+  public async restoreStations(stations: RadioStation[], replace: boolean): Promise<void> {
+    const db = (MusicCacheService.getInstance() as any).db;
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(['radioStations'], 'readwrite');
+      const store = transaction.objectStore('radioStations');
+      if (replace) {
+        store.clear();
+      }
+      stations.forEach(station => store.put(station));
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
   /**
    * Generate a unique ID for a station
    */
@@ -431,6 +648,7 @@ export class RadioStationService {
   ): Promise<void> {
     // Calculate average criteria from the tracks
     const averagedCriteria = this.calculateAverageCriteria(tracks, station.criteria);
+    const manualCriteria = station.criteria.filter(criterion => MANUAL_ATTRIBUTES.includes(criterion.attribute));
 
     // Apply weight adjustments if provided
     if (weightAdjustments && Object.keys(weightAdjustments).length > 0) {
@@ -455,34 +673,23 @@ export class RadioStationService {
       .filter(c => c.weight > 0)
       .sort((a, b) => b.weight - a.weight);
 
-    // Take the top 5 criteria or all if less than 5
-    station.criteria = sortedCriteria.slice(0, 5);
+    // Take the top 5 criteria or all if less than 5, keeping any tempo or key set by hand
+    station.criteria = [...sortedCriteria.filter(c => !MANUAL_ATTRIBUTES.includes(c.attribute)).slice(0, 5), ...manualCriteria];
 
     if(station.isCustom){
-      const albumArtUrl = await this.getAlbumArtForStation(tracks);
-      if (albumArtUrl) {
-        station.imagePath = albumArtUrl;
+      const artId = tracks.find(track => track.artId)?.artId;
+      if (artId) {
+        station.imageArtId = artId;
+        // Object URLs saved by older versions don't survive a reload
+        if (station.imagePath?.startsWith('blob:')) {
+          station.imagePath = undefined;
+        }
       }
     }
 
     await this.storeStation(station);
   }
 
-  /**
-    * Get album art URL for a station based on tracks
-    */
-  private async getAlbumArtForStation(tracks: MusicLibraryEntry[]): Promise<string | null> {
-    // Find the first track with album art
-    for (const track of tracks) {
-      const musicCache = MusicCacheService.getInstance();
-      const albumArtUrl = await musicCache.getAlbumArtUrl(track);
-      if (albumArtUrl) {
-        return albumArtUrl;
-      }
-    }
-    return null;
-  }
-
   /**
    * Calculate average criteria from an array of tracks
    */
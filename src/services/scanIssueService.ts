@@ -0,0 +1,142 @@
+import { MusicCacheService } from './musicCacheService';
+
+export type ScanIssueReason = 'corrupt' | 'unsupported' | 'permission' | 'unreadable';
+
+export interface ScanIssue {
+  // `${rootId}/${filePath}`, so a file has at most one issue
+  id: string;
+  rootId: string;
+  filePath: string;
+  reason: ScanIssueReason;
+  message: string;
+  // Size and modification time of the file that failed, when it could be read at all
+  fileSize?: number | undefined;
+  modifiedTime?: number | undefined;
+  firstSeen: Date;
+  lastSeen: Date;
+  // Ignored files are skipped by scans until they change, and aren't counted as problems
+  ignored: boolean;
+}
+
+const SCAN_ISSUES_STORE = 'scanIssues';
+
+/**
+ * Work out why a file couldn't be scanned from the error it failed with
+ */
+export function classifyScanError(error: unknown): ScanIssueReason {
+  const name = error instanceof Error ? error.name : '';
+  const message = error instanceof Error ? error.message : String(error);
+  if (name === 'NotAllowedError' || name === 'SecurityError') return 'permission';
+  if (name === 'NotFoundError' || name === 'NotReadableError') return 'unreadable';
+  if (/mime-type|not supported|unsupported|determine audio format|codec/i.test(message)) return 'unsupported';
+  return 'corrupt';
+}
+
+export class ScanIssueService {
+  constructor() {
+  }
+
+  /**
+   * Record that a file failed to scan, keeping when it first failed and whether it was ignored.
+   * A file that has changed since it was ignored is reported again
+   */
+  public async recordIssue(rootId: string, filePath: string, error: unknown, fileInfo?: File): Promise<ScanIssue> {
+    const id = `${rootId}/${filePath}`;
+    const previous = await this.getIssue(id);
+    const unchanged = previous?.fileSize === fileInfo?.size && previous?.modifiedTime === fileInfo?.lastModified;
+    const issue: ScanIssue = {
+      id,
+      rootId,
+      filePath,
+      reason: classifyScanError(error),
+      message: error instanceof Error ? error.message : String(error),
+      fileSize: fileInfo?.size,
+      modifiedTime: fileInfo?.lastModified,
+      firstSeen: previous?.firstSeen ?? new Date(),
+      lastSeen: new Date(),
+      ignored: (previous?.ignored ?? false) && unchanged,
+    };
+    await this.storeIssues([issue]);
+    return issue;
+  }
+
+  /**
+   * Every recorded issue, most recent first
+   */
+  public async getIssues(): Promise<ScanIssue[]> {
+    const issues = await this.request<ScanIssue[]>('readonly', store => store.getAll());
+    return issues.sort((a, b) => b.lastSeen.getTime() - a.lastSeen.getTime());
+  }
+
+  public async getIssuesForRoot(rootId: string): Promise<ScanIssue[]> {
+    return await this.request('readonly', store => store.index('rootId').getAll(IDBKeyRange.only(rootId)));
+  }
+
+  /**
+   * Number of problems that haven't been ignored
+   */
+  public async countIssues(rootId?: string): Promise<number> {
+    const issues = rootId ? await this.getIssuesForRoot(rootId) : await this.getIssues();
+    return issues.filter(issue => !issue.ignored).length;
+  }
+
+  public async setIgnored(issue: ScanIssue, ignored: boolean): Promise<ScanIssue> {
+    const updated = { ...issue, ignored };
+    await this.storeIssues([updated]);
+    return updated;
+  }
+
+  /**
+   * Forget issues, e.g. once their file has scanned cleanly or left the library
+   */
+  public async removeIssues(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    const db = this.getDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([SCAN_ISSUES_STORE], 'readwrite');
+      const store = transaction.objectStore(SCAN_ISSUES_STORE);
+      ids.forEach(id => store.delete(id));
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  private async getIssue(id: string): Promise<ScanIssue | null> {
+    return (await this.request<ScanIssue | undefined>('readonly', store => store.get(id))) ?? null;
+  }
+
+  private async storeIssues(issues: ScanIssue[]): Promise<void> {
+    const db = this.getDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([SCAN_ISSUES_STORE], 'readwrite');
+      const store = transaction.objectStore(SCAN_ISSUES_STORE);
+      issues.forEach(issue => store.put(issue));
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = this.getDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([SCAN_ISSUES_STORE], mode);
+      const request = run(transaction.objectStore(SCAN_ISSUES_STORE));
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private getDB(): IDBDatabase {
+    const db = (MusicCacheService.getInstance() as any).db as IDBDatabase | null;
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    return db;
+  }
+}
+
+// Singleton instance
+export const scanIssueService = new ScanIssueService();
@@ -0,0 +1,155 @@
+import { get, set, del } from 'idb-keyval';
+import { ScannedAudioFile, ScannedCueFile, ScannedLibraryFiles, ScannedPlaylistFile } from './fileSystemService';
+
+export type ScanPhase = 'enumerate' | 'extract' | 'art' | 'playlists' | 'stations';
+
+export const SCAN_PHASES: ScanPhase[] = ['enumerate', 'extract', 'art', 'playlists', 'stations'];
+
+export interface ScanPhaseProgress {
+  completed: number;
+  // 0 while the total isn't known yet, e.g. when listing files
+  total: number;
+}
+
+export interface ScanProgress {
+  rootName: string;
+  phase: ScanPhase;
+  phases: Record<ScanPhase, ScanPhaseProgress>;
+  currentFile: string | null;
+  // Estimated seconds left in the current phase, once there's enough to go on
+  etaSeconds: number | null;
+}
+
+/**
+ * Where a scan got to. Saved once the files are listed and after each phase, so a scan
+ * interrupted by closing the tab picks up from here instead of listing everything again
+ */
+export interface ScanCheckpoint {
+  rootId: string;
+  // The next phase to run
+  phase: ScanPhase;
+  audioFiles: ScannedAudioFile[];
+  playlistFiles: ScannedPlaylistFile[];
+  cueFiles: ScannedCueFile[];
+  savedAt: number;
+}
+
+// Each root has its own checkpoint, so scanning one root doesn't lose another's interrupted scan
+const checkpointKey = (rootId: string) => `scanCheckpoint:${rootId}`;
+// Older listings are likely out of date, so the scan starts over
+const CHECKPOINT_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+// Don't estimate until a few files have been timed
+const ETA_MIN_COMPLETED = 5;
+// Progress is reported per file, which is far more often than it's worth re-rendering
+const NOTIFY_INTERVAL_MS = 100;
+
+/**
+ * A single library root scan: tracks per-phase progress and lets the scan be cancelled
+ */
+export class ScanJob {
+  private controller = new AbortController();
+  private progress: ScanProgress;
+  private phaseStartedAt = Date.now();
+  private lastNotifiedAt = 0;
+
+  constructor(rootName: string, private onProgress: ((progress: ScanProgress | null) => void) | null) {
+    this.progress = {
+      rootName,
+      phase: 'enumerate',
+      phases: {
+        enumerate: { completed: 0, total: 0 },
+        extract: { completed: 0, total: 0 },
+        art: { completed: 0, total: 0 },
+        playlists: { completed: 0, total: 0 },
+        stations: { completed: 0, total: 0 },
+      },
+      currentFile: null,
+      etaSeconds: null,
+    };
+  }
+
+  public get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  public get isCancelled(): boolean {
+    return this.controller.signal.aborted;
+  }
+
+  /**
+   * Ask the scan to stop. It finishes writing what's in flight and returns at the next safe point
+   */
+  public cancel(): void {
+    this.controller.abort();
+  }
+
+  public startPhase(phase: ScanPhase, total = 0): void {
+    this.progress.phase = phase;
+    this.progress.phases[phase] = { completed: 0, total };
+    this.progress.currentFile = null;
+    this.progress.etaSeconds = null;
+    this.phaseStartedAt = Date.now();
+    this.notify(true);
+  }
+
+  /**
+   * Count one more item done in the current phase
+   */
+  public advance(currentFile: string | null = null): void {
+    const phase = this.progress.phases[this.progress.phase];
+    phase.completed++;
+    this.progress.currentFile = currentFile;
+
+    if (phase.total > 0 && phase.completed >= ETA_MIN_COMPLETED) {
+      const perItem = (Date.now() - this.phaseStartedAt) / phase.completed;
+      this.progress.etaSeconds = Math.round(perItem * (phase.total - phase.completed) / 1000);
+    }
+    this.notify(phase.completed === phase.total);
+  }
+
+  /**
+   * Tell the listener the scan is over
+   */
+  public finish(): void {
+    this.onProgress?.(null);
+  }
+
+  private notify(force = false): void {
+    const now = Date.now();
+    if (!force && now - this.lastNotifiedAt < NOTIFY_INTERVAL_MS) return;
+    this.lastNotifiedAt = now;
+
+    const { enumerate, extract, art, playlists, stations } = this.progress.phases;
+    this.onProgress?.({
+      ...this.progress,
+      phases: {
+        enumerate: { ...enumerate },
+        extract: { ...extract },
+        art: { ...art },
+        playlists: { ...playlists },
+        stations: { ...stations }
+      }
+    });
+  }
+}
+
+export async function loadScanCheckpoint(rootId: string): Promise<ScanCheckpoint | null> {
+  const checkpoint: ScanCheckpoint | undefined = await get(checkpointKey(rootId));
+  if (!checkpoint || Date.now() - checkpoint.savedAt > CHECKPOINT_MAX_AGE_MS) {
+    return null;
+  }
+  // Saved by a version that didn't list playlists and CUE sheets, so the listing is incomplete
+  if (!checkpoint.playlistFiles || !checkpoint.cueFiles) {
+    return null;
+  }
+  return checkpoint;
+}
+
+export async function saveScanCheckpoint(rootId: string, phase: ScanPhase, files: ScannedLibraryFiles): Promise<void> {
+  const checkpoint: ScanCheckpoint = { rootId, phase, ...files, savedAt: Date.now() };
+  await set(checkpointKey(rootId), checkpoint);
+}
+
+export async function clearScanCheckpoint(rootId: string): Promise<void> {
+  await del(checkpointKey(rootId));
+}
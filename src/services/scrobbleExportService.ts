@@ -0,0 +1,126 @@
+import { ListeningEvent, listeningHistoryService } from './listeningHistoryService';
+
+// .scrobbler.log as Rockbox and other portable players write it, or a ListenBrainz import payload
+export type ScrobbleFormat = 'scrobblerLog' | 'listenBrainz';
+
+export interface ScrobbleExport {
+  blob: Blob;
+  fileName: string;
+  scrobbles: number;
+  // Listens in the range left out for not meeting the scrobble rules or missing an artist or title
+  skipped: number;
+}
+
+const CLIENT_NAME = 'Zero Radio';
+// Audioscrobbler rules: tracks shorter than this are never scrobbled...
+const MIN_SCROBBLE_DURATION = 30;
+// ...and longer ones once they've played for half their length or this long, whichever comes first
+const SCROBBLE_AFTER_SECONDS = 4 * 60;
+
+// Placeholders the scanner fills in for untagged files, which aren't worth sending anywhere
+const UNKNOWN_ARTIST = 'Unknown Artist';
+const UNKNOWN_ALBUM = 'Unknown Album';
+const UNKNOWN_TITLE = 'Unknown Title';
+
+/**
+ * Whether a listen counts as a scrobble. Unlike the app's own play threshold this isn't
+ * configurable, so exports agree with what the services would have recorded themselves
+ */
+export function isScrobble(event: ListeningEvent): boolean {
+  if (event.duration > 0 && event.duration <= MIN_SCROBBLE_DURATION) return false;
+  const threshold = event.duration > 0 ? Math.min(event.duration / 2, SCROBBLE_AFTER_SECONDS) : SCROBBLE_AFTER_SECONDS;
+  return event.listenedSeconds >= threshold;
+}
+
+const hasTags = (event: ListeningEvent) =>
+  event.artist !== UNKNOWN_ARTIST && event.title !== UNKNOWN_TITLE;
+
+// Local date as YYYY-MM-DD
+const formatDate = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+// Scrobble timestamps are when the track started, in whole seconds
+const toUnixTime = (timestamp: number) => Math.floor(timestamp / 1000);
+
+/**
+ * Format scrobbles as an Audioscrobbler portable player log (version 1.1): a header, then one
+ * tab-separated line per track with its start time in UTC
+ */
+export function formatScrobblerLog(events: ListeningEvent[]): string {
+  // Fields can't contain the separators
+  const field = (value: string) => value.replace(/[\t\r\n]+/g, ' ');
+  const lines = [
+    '#AUDIOSCROBBLER/1.1',
+    '#TZ/UTC',
+    `#CLIENT/${CLIENT_NAME}`
+  ];
+  for (const event of events) {
+    lines.push([
+      field(event.artist),
+      field(event.album === UNKNOWN_ALBUM ? '' : event.album),
+      field(event.title),
+      event.trackNumber > 0 ? String(event.trackNumber) : '',
+      String(Math.round(event.duration)),
+      // L for listened; skipped tracks never make it into an export
+      'L',
+      String(toUnixTime(event.startedAt)),
+      event.recordingId ?? ''
+    ].join('\t'));
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Format scrobbles as a ListenBrainz submission of type "import", as its submit-listens API and
+ * import tools take it
+ */
+export function formatListenBrainz(events: ListeningEvent[]): string {
+  return JSON.stringify({
+    listen_type: 'import',
+    payload: events.map(event => ({
+      listened_at: toUnixTime(event.startedAt),
+      track_metadata: {
+        artist_name: event.artist,
+        track_name: event.title,
+        ...(event.album !== UNKNOWN_ALBUM ? { release_name: event.album } : {}),
+        additional_info: {
+          ...(event.recordingId ? { recording_mbid: event.recordingId } : {}),
+          ...(event.releaseId ? { release_mbid: event.releaseId } : {}),
+          ...(event.artistIds?.length ? { artist_mbids: event.artistIds } : {}),
+          ...(event.trackNumber > 0 ? { tracknumber: event.trackNumber } : {}),
+          ...(event.duration > 0 ? { duration_ms: Math.round(event.duration * 1000) } : {}),
+          media_player: CLIENT_NAME,
+          submission_client: CLIENT_NAME
+        }
+      }
+    }))
+  }, null, 2);
+}
+
+export class ScrobbleExportService {
+  constructor() {
+  }
+
+  /**
+   * Export the listens that started in a time range and meet the scrobble rules, oldest first
+   */
+  public async exportScrobbles(format: ScrobbleFormat, from: number, to: number): Promise<ScrobbleExport> {
+    const events = await listeningHistoryService.getEvents(from, to);
+    const scrobbles = events.filter(event => isScrobble(event) && hasTags(event));
+    const blob = format === 'scrobblerLog'
+      ? new Blob([formatScrobblerLog(scrobbles)], { type: 'text/plain' })
+      : new Blob([formatListenBrainz(scrobbles)], { type: 'application/json' });
+    return {
+      blob,
+      // Players write the log under this name, and scrobbling tools look for it
+      fileName: format === 'scrobblerLog' ? '.scrobbler.log' : `listens-${formatDate(from)}-to-${formatDate(to)}.json`,
+      scrobbles: scrobbles.length,
+      skipped: events.length - scrobbles.length
+    };
+  }
+}
+
+// Singleton instance
+export const scrobbleExportService = new ScrobbleExportService();
@@ -1,5 +1,6 @@
-import { MusicCacheService, MusicLibraryEntry, SearchResult } from "./musicCacheService";
+import { MusicCacheService, MusicLibraryEntry, SearchResult, getAlbumArtist } from "./musicCacheService";
 import { radioStationService } from "./radioStationService";
+import { artworkCache } from "./artworkCacheService";
 
 // track parallel events
 let _generationId = 0;
@@ -15,8 +16,12 @@ export const performSearch = async (
     let results: SearchResult[] = await findSearchResults(searchQuery);
 
     if (gen === _generationId) {
+      releaseSearchResultArt(results.slice(20));
       setSearchResults(results.slice(0, 20));
       setIsSearching(false);
+    } else {
+      // Superseded by a newer search, so nothing will display these
+      releaseSearchResultArt(results);
     }
   }
 
@@ -27,11 +32,21 @@ export const performSearch = async (
 };
 
 
+/**
+ * Hand back the artwork URLs held by search results once they're no longer displayed
+ */
+export function releaseSearchResultArt(results: SearchResult[]): void {
+  for (const result of results) {
+    if (result.type === 'track' || result.type === 'album') {
+      artworkCache.release(result.albumArt);
+    }
+  }
+}
+
 async function findSearchResults(searchQuery: string) {
   if(searchQuery.trim() === '') { return []; }
 
   let cacheService = MusicCacheService.getInstance();
-  const allEntries = await cacheService.getAllCachedEntries();
 
   // First, check if the search query matches an artist or album (fuzzy match)
   let results: SearchResult[] = [];
@@ -51,6 +66,7 @@ async function findSearchResults(searchQuery: string) {
       description: station.description || '',
       stationId: station.id,
       imagePath: station.imagePath,
+      imageArtId: station.imageArtId,
     });
   }
 
@@ -78,12 +94,12 @@ async function findSearchResults(searchQuery: string) {
     const first = tracklist[0]!;
     tracksConsolidated.push(...tracklist);
     // Get album art from the first track in the album
-    let albumArtUrl = await cacheService.getAlbumArtUrl(first);
+    let albumArtUrl = await cacheService.getAlbumArtUrl(first, 'small');
 
     results.push({
       type: 'album',
       albumName: first.album || '',
-      artistName: first.artist || '',
+      artistName: getAlbumArtist(first),
       trackCount: tracklist.length,
       tracks: tracklist,
       albumArt: albumArtUrl
@@ -91,16 +107,13 @@ async function findSearchResults(searchQuery: string) {
   }
 
   // If no exact matches, do fuzzy search for tracks
-  const trackResults = allEntries.filter((entry: MusicLibraryEntry) => entry.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    entry.artist.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    entry.album.toLowerCase().includes(searchQuery.toLowerCase())
-  )
+  const trackResults = (await cacheService.searchTracks(searchQuery))
     .filter(r => !tracksConsolidated.find(t => t.id === r.id));
   for (let track of trackResults) {
     results.push({
       ...track,
       type: 'track',
-      albumArt: await cacheService.getAlbumArtUrl(track),
+      albumArt: await cacheService.getAlbumArtUrl(track, 'small'),
     });
   }
   return results;
@@ -0,0 +1,61 @@
+import { get, set } from 'idb-keyval';
+
+export interface AppSettings {
+  // Number of metadata extraction workers used while scanning
+  scanConcurrency: number;
+  // Image file names used as album art for tracks without an embedded picture, best first
+  coverFileNames: string[];
+  // Measure loudness and estimate tempo and key of tracks in the background after scans
+  analyzeAudio: boolean;
+  // A track counts as played once it has played for this share of its length or this many
+  // seconds, whichever comes first
+  playThresholdPercent: number;
+  playThresholdSeconds: number;
+  // How much star ratings sway station picks, in percent: at 100, five-star tracks come up twice as
+  // often as unrated ones and one-star tracks never; at 0, ratings are ignored
+  ratingInfluence: number;
+}
+
+const SETTINGS_KEY = 'settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  // Leave a core free for the UI thread
+  scanConcurrency: Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1)),
+  coverFileNames: ['cover.jpg', 'folder.jpg', 'front.jpg', 'cover.png', 'folder.png', 'front.png'],
+  analyzeAudio: true,
+  // The threshold scrobbling services use
+  playThresholdPercent: 50,
+  playThresholdSeconds: 240,
+  ratingInfluence: 50,
+};
+
+export class SettingsService {
+  private settings: AppSettings | null = null;
+
+  constructor() {
+  }
+
+  /**
+   * Get the current settings, filling in defaults for anything not saved yet
+   */
+  public async getSettings(): Promise<AppSettings> {
+    if (!this.settings) {
+      const saved: Partial<AppSettings> | undefined = await get(SETTINGS_KEY);
+      this.settings = { ...DEFAULT_SETTINGS, ...saved };
+    }
+    return this.settings;
+  }
+
+  /**
+   * Update and persist some settings
+   */
+  public async updateSettings(updates: Partial<AppSettings>): Promise<AppSettings> {
+    const settings = { ...(await this.getSettings()), ...updates };
+    this.settings = settings;
+    await set(SETTINGS_KEY, settings);
+    return settings;
+  }
+}
+
+// Singleton instance
+export const settingsService = new SettingsService();
@@ -0,0 +1,124 @@
+import { MusicCacheService, MusicLibraryEntry } from './musicCacheService';
+import { RadioStation } from './radioStationService';
+
+export type FeedbackVote = 'up' | 'down';
+
+export interface StationFeedback {
+  id: number;
+  stationId: string;
+  trackId: string;
+  // The track's tags when the feedback was given, so the history still reads right once it leaves the library
+  title: string;
+  artist: string;
+  album: string;
+  vote: FeedbackVote;
+  createdAt: number;
+}
+
+const STATION_FEEDBACK_STORE = 'stationFeedback';
+
+export class StationFeedbackService {
+  constructor() {
+  }
+
+  /**
+   * Record a thumbs up or down for a track on a station
+   */
+  public async recordFeedback(station: RadioStation, track: MusicLibraryEntry, vote: FeedbackVote): Promise<StationFeedback> {
+    const feedback: Omit<StationFeedback, 'id'> = {
+      stationId: station.id,
+      trackId: track.id,
+      title: track.title,
+      artist: track.artist,
+      album: track.album,
+      vote,
+      createdAt: Date.now()
+    };
+    const id = await this.request<IDBValidKey>('readwrite', store => store.add(feedback));
+    return { ...feedback, id: id as number };
+  }
+
+  /**
+   * A station's feedback, latest first
+   */
+  public async getFeedbackForStation(stationId: string): Promise<StationFeedback[]> {
+    const feedback = await this.request<StationFeedback[]>('readonly', store => store.index('stationId').getAll(IDBKeyRange.only(stationId)));
+    return feedback.sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Tracks given a thumbs down on a station, which it never plays again
+   */
+  public async getBannedTrackIds(stationId: string): Promise<Set<string>> {
+    const feedback = await this.getFeedbackForStation(stationId);
+    return new Set(feedback.filter(entry => entry.vote === 'down').map(entry => entry.trackId));
+  }
+
+  public async getAllFeedback(): Promise<StationFeedback[]> {
+    return await this.request('readonly', store => store.getAll());
+  }
+
+  /**
+   * Take back a piece of feedback, lifting the ban if it was a thumbs down. Weights it nudged stay as they are
+   */
+  public async removeFeedback(id: number): Promise<void> {
+    await this.request('readwrite', store => store.delete(id));
+  }
+
+  /**
+   * Forget all of a station's feedback, e.g. when the station is deleted
+   */
+  public async removeFeedbackForStation(stationId: string): Promise<void> {
+    const feedback = await this.getFeedbackForStation(stationId);
+    const db = this.getDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([STATION_FEEDBACK_STORE], 'readwrite');
+      const store = transaction.objectStore(STATION_FEEDBACK_STORE);
+      feedback.forEach(entry => store.delete(entry.id));
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Add feedback restored from a backup in one transaction, under new IDs. With `replace`, all
+   * existing feedback is removed first
+   */
+  public async restoreFeedback(feedback: Omit<StationFeedback, 'id'>[], replace: boolean): Promise<void> {
+    const db = this.getDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([STATION_FEEDBACK_STORE], 'readwrite');
+      const store = transaction.objectStore(STATION_FEEDBACK_STORE);
+      if (replace) {
+        store.clear();
+      }
+      feedback.forEach(entry => store.add(entry));
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = this.getDB();
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([STATION_FEEDBACK_STORE], mode);
+      const request = run(transaction.objectStore(STATION_FEEDBACK_STORE));
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private getDB(): IDBDatabase {
+    const db = (MusicCacheService.getInstance() as any).db as IDBDatabase | null;
+    if (!db) {
+      throw new Error('Database not initialized');
+    }
+    return db;
+  }
+}
+
+// Singleton instance
+export const stationFeedbackService = new StationFeedbackService();
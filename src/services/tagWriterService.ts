@@ -0,0 +1,100 @@
+import { MusicCacheService, MusicLibraryEntry } from './musicCacheService';
+import { libraryRootService } from './libraryRootService';
+import { getFileHandleByPath } from './fileSystemService';
+import { verifyPermission } from '../utils/fileHelpers';
+import { TagEdits } from './tagWriters/common';
+import { writeId3v2Tags } from './tagWriters/id3v2';
+import { writeFlacTags, writeOggTags } from './tagWriters/vorbisComment';
+import { writeMp4Tags } from './tagWriters/mp4';
+
+export type { TagEdits } from './tagWriters/common';
+
+type TagWriter = (bytes: Uint8Array, edits: TagEdits) => Uint8Array;
+
+const WRITERS: Record<string, TagWriter> = {
+  '.mp3': writeId3v2Tags,
+  '.flac': writeFlacTags,
+  '.ogg': writeOggTags,
+  '.m4a': writeMp4Tags,
+};
+
+export interface TagWriteReport {
+  updated: MusicLibraryEntry[];
+  failed: { track: MusicLibraryEntry; error: string }[];
+}
+
+export class TagWriterService {
+  constructor() {
+  }
+
+  /**
+   * Whether tags can be written back to this track's file format
+   */
+  public canEdit(track: MusicLibraryEntry): boolean {
+    return getWriter(track.filePath) !== null;
+  }
+
+  /**
+   * Ask for readwrite access to the roots holding these tracks. Must be called from a user gesture
+   */
+  public async requestWriteAccess(tracks: MusicLibraryEntry[]): Promise<boolean> {
+    for (const rootId of new Set(tracks.map(track => track.rootId))) {
+      const root = await libraryRootService.getRoot(rootId);
+      if (!root || !(await verifyPermission(root.handle, 'readwrite'))) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Write tag edits to each track's file, then update its cache entry so searches and
+   * stations see the new values straight away. Failures are reported per track
+   */
+  public async writeTags(tracks: MusicLibraryEntry[], edits: TagEdits): Promise<TagWriteReport> {
+    const report: TagWriteReport = { updated: [], failed: [] };
+
+    for (const track of tracks) {
+      try {
+        const writer = getWriter(track.filePath);
+        if (!writer) {
+          throw new Error('Tag editing is not supported for this file type');
+        }
+
+        const root = await libraryRootService.getRoot(track.rootId);
+        const handle = root ? await getFileHandleByPath(root.handle, track.filePath) : null;
+        if (!handle) {
+          throw new Error('File not found');
+        }
+
+        const original = new Uint8Array(await (await handle.getFile()).arrayBuffer());
+        const rewritten = writer(original, edits);
+
+        const writable = await handle.createWritable();
+        try {
+          await writable.write(rewritten as Uint8Array<ArrayBuffer>);
+          await writable.close();
+        } catch (error) {
+          await writable.abort();
+          throw error;
+        }
+
+        const fileInfo = await handle.getFile();
+        report.updated.push(await MusicCacheService.getInstance().applyTagEdits(track, edits, fileInfo));
+      } catch (error) {
+        console.error(`Error writing tags to ${track.filePath}:`, error);
+        report.failed.push({ track, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return report;
+  }
+}
+
+function getWriter(filePath: string): TagWriter | null {
+  const extension = filePath.substring(filePath.lastIndexOf('.')).toLowerCase();
+  return WRITERS[extension] ?? null;
+}
+
+// Singleton instance
+export const tagWriterService = new TagWriterService();
@@ -0,0 +1,99 @@
+/**
+ * Tag values to write to a file. Fields left undefined are not touched;
+ * an empty string (or a year of 0) removes the tag
+ */
+export interface TagEdits {
+  title?: string;
+  artist?: string;
+  album?: string;
+  genre?: string;
+  year?: number;
+  mood?: string;
+}
+
+export type TagField = keyof TagEdits;
+
+/**
+ * Thrown when a file's layout isn't one the writers can safely rewrite
+ */
+export class UnsupportedTagFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedTagFormatError';
+  }
+}
+
+/**
+ * The edited fields as strings, in a stable order. Empty values mean "remove"
+ */
+export function getEditedValues(edits: TagEdits): [TagField, string][] {
+  const values: [TagField, string][] = [];
+  for (const field of ['title', 'artist', 'album', 'genre', 'year', 'mood'] as TagField[]) {
+    const value = edits[field];
+    if (value === undefined) continue;
+    values.push([field, field === 'year' ? (value ? String(value) : '') : String(value).trim()]);
+  }
+  return values;
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+export function encodeUtf8(value: string): Uint8Array {
+  return textEncoder.encode(value);
+}
+
+export function decodeUtf8(bytes: Uint8Array): string {
+  return textDecoder.decode(bytes);
+}
+
+export function encodeLatin1(value: string): Uint8Array {
+  return Uint8Array.from(value, char => char.charCodeAt(0) & 0xff);
+}
+
+export function decodeLatin1(bytes: Uint8Array): string {
+  return String.fromCharCode(...bytes);
+}
+
+export function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+}
+
+export function readUint32BE(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset]! << 24) | (bytes[offset + 1]! << 16) | (bytes[offset + 2]! << 8) | bytes[offset + 3]!) >>> 0;
+}
+
+export function writeUint32BE(bytes: Uint8Array, offset: number, value: number): void {
+  bytes[offset] = (value >>> 24) & 0xff;
+  bytes[offset + 1] = (value >>> 16) & 0xff;
+  bytes[offset + 2] = (value >>> 8) & 0xff;
+  bytes[offset + 3] = value & 0xff;
+}
+
+export function uint32BE(value: number): Uint8Array {
+  const bytes = new Uint8Array(4);
+  writeUint32BE(bytes, 0, value);
+  return bytes;
+}
+
+export function readUint32LE(bytes: Uint8Array, offset: number): number {
+  return (bytes[offset]! | (bytes[offset + 1]! << 8) | (bytes[offset + 2]! << 16) | (bytes[offset + 3]! << 24)) >>> 0;
+}
+
+export function uint32LE(value: number): Uint8Array {
+  return Uint8Array.of(value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff, (value >>> 24) & 0xff);
+}
+
+export function startsWith(bytes: Uint8Array, magic: string, offset = 0): boolean {
+  if (bytes.length < offset + magic.length) return false;
+  for (let i = 0; i < magic.length; i++) {
+    if (bytes[offset + i] !== magic.charCodeAt(i)) return false;
+  }
+  return true;
+}
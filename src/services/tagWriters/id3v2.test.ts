@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { parseBuffer } from 'music-metadata';
+import { writeId3v2Tags } from './id3v2';
+import { UnsupportedTagFormatError, concatBytes, encodeLatin1, uint32BE } from './common';
+
+// One silent MPEG-1 Layer III frame: 128 kbit/s, 44.1 kHz, stereo
+const AUDIO = concatBytes([Uint8Array.of(0xff, 0xfb, 0x90, 0x64), new Uint8Array(413)]);
+
+const readTags = async (bytes: Uint8Array) => (await parseBuffer(bytes, { mimeType: 'audio/mpeg' })).common;
+
+// An ID3v2.3 tag with Latin-1 text frames, as older taggers write it
+function id3v23(frames: [string, string][]): Uint8Array {
+  const body = concatBytes(frames.map(([id, value]) => {
+    const data = concatBytes([Uint8Array.of(0), encodeLatin1(value)]);
+    return concatBytes([encodeLatin1(id), uint32BE(data.length), Uint8Array.of(0, 0), data]);
+  }));
+  const size = body.length;
+  return concatBytes([
+    encodeLatin1('ID3'),
+    Uint8Array.of(3, 0, 0, (size >>> 21) & 0x7f, (size >>> 14) & 0x7f, (size >>> 7) & 0x7f, size & 0x7f),
+    body
+  ]);
+}
+
+describe('writeId3v2Tags', () => {
+  it('adds an ID3v2.4 tag to a file without one', async () => {
+    const written = writeId3v2Tags(AUDIO, { title: 'Señor', artist: 'Björk', album: 'Homogenic', genre: 'Electronic', year: 1997, mood: 'Calm' });
+
+    const tags = await readTags(written);
+    expect(tags.title).toBe('Señor');
+    expect(tags.artist).toBe('Björk');
+    expect(tags.album).toBe('Homogenic');
+    expect(tags.genre).toEqual(['Electronic']);
+    expect(tags.year).toBe(1997);
+    expect(written.subarray(written.length - AUDIO.length)).toEqual(AUDIO);
+  });
+
+  it('keeps frames it isn\'t editing and the tag version', async () => {
+    const original = concatBytes([id3v23([['TIT2', 'Old title'], ['TPE1', 'Artist'], ['TYER', '1990']]), AUDIO]);
+
+    const written = writeId3v2Tags(original, { title: 'New title', year: 2001 });
+
+    expect(written[3]).toBe(3);
+    const tags = await readTags(written);
+    expect(tags.title).toBe('New title');
+    expect(tags.artist).toBe('Artist');
+    expect(tags.year).toBe(2001);
+    expect(written.subarray(written.length - AUDIO.length)).toEqual(AUDIO);
+  });
+
+  it('removes tags set to an empty value', async () => {
+    const original = concatBytes([id3v23([['TIT2', 'Title'], ['TALB', 'Album']]), AUDIO]);
+
+    const tags = await readTags(writeId3v2Tags(original, { album: '' }));
+
+    expect(tags.title).toBe('Title');
+    expect(tags.album).toBeUndefined();
+  });
+
+  it('survives being written again', async () => {
+    const once = writeId3v2Tags(AUDIO, { title: 'First', artist: 'Artist' });
+    const twice = writeId3v2Tags(once, { title: 'Second' });
+
+    const tags = await readTags(twice);
+    expect(tags.title).toBe('Second');
+    expect(tags.artist).toBe('Artist');
+    expect(twice.length).toBe(once.length - 'First'.length + 'Second'.length);
+  });
+
+  it('refuses tag versions it can\'t rewrite', () => {
+    const v22 = concatBytes([encodeLatin1('ID3'), Uint8Array.of(2, 0, 0, 0, 0, 0, 0), AUDIO]);
+
+    expect(() => writeId3v2Tags(v22, { title: 'Title' })).toThrow(UnsupportedTagFormatError);
+  });
+});
@@ -0,0 +1,121 @@
+import {
+  TagEdits, TagField, UnsupportedTagFormatError,
+  concatBytes, encodeLatin1, encodeUtf8, getEditedValues, readUint32BE, startsWith, uint32BE
+} from './common';
+
+// Zero bytes left after the frames, so later edits can usually grow the tag in place
+const PADDING_SIZE = 2048;
+
+const FRAME_IDS: Record<3 | 4, Record<TagField, string>> = {
+  3: { title: 'TIT2', artist: 'TPE1', album: 'TALB', genre: 'TCON', year: 'TYER', mood: 'TMOO' },
+  4: { title: 'TIT2', artist: 'TPE1', album: 'TALB', genre: 'TCON', year: 'TDRC', mood: 'TMOO' },
+};
+
+// Year frames of the other version, dropped so a stale year can't shadow the new one
+const OBSOLETE_YEAR_FRAMES: Record<3 | 4, string[]> = {
+  3: ['TDRC'],
+  4: ['TYER', 'TDAT', 'TIME'],
+};
+
+/**
+ * Rewrite the ID3v2 tag at the start of an MP3 file. Frames that aren't being edited
+ * (cover art, comments, ...) are copied as-is; files without a tag get a new ID3v2.4 tag
+ */
+export function writeId3v2Tags(bytes: Uint8Array, edits: TagEdits): Uint8Array {
+  let version: 3 | 4 = 4;
+  let frames: { id: string; raw: Uint8Array }[] = [];
+  let audioStart = 0;
+
+  if (startsWith(bytes, 'ID3')) {
+    const major = bytes[3];
+    const flags = bytes[5]!;
+    if (major !== 3 && major !== 4) {
+      throw new UnsupportedTagFormatError(`ID3v2.${major} tags can't be edited`);
+    }
+    if (flags & 0x80) {
+      throw new UnsupportedTagFormatError('Unsynchronised ID3 tags can\'t be edited');
+    }
+    version = major;
+
+    const tagSize = readSynchsafe(bytes, 6);
+    const tagEnd = 10 + tagSize;
+    audioStart = tagEnd + (flags & 0x10 ? 10 : 0);
+
+    let offset = 10;
+    if (flags & 0x40) {
+      // Extended header - dropped from the rewritten tag
+      offset += version === 4 ? readSynchsafe(bytes, offset) : readUint32BE(bytes, offset) + 4;
+    }
+    frames = readFrames(bytes, offset, tagEnd, version);
+  }
+
+  const ids = FRAME_IDS[version];
+  const edited = getEditedValues(edits);
+  const replaced = new Set(edited.map(([field]) => ids[field]));
+  if (edits.year !== undefined) {
+    OBSOLETE_YEAR_FRAMES[version].forEach(id => replaced.add(id));
+  }
+
+  const frameBytes = frames.filter(frame => !replaced.has(frame.id)).map(frame => frame.raw);
+  for (const [field, value] of edited) {
+    if (value !== '') {
+      frameBytes.push(buildTextFrame(ids[field], value, version));
+    }
+  }
+
+  const body = concatBytes(frameBytes);
+  const header = concatBytes([
+    encodeLatin1('ID3'),
+    Uint8Array.of(version, 0, 0),
+    synchsafe(body.length + PADDING_SIZE)
+  ]);
+  return concatBytes([header, body, new Uint8Array(PADDING_SIZE), bytes.subarray(audioStart)]);
+}
+
+function readFrames(bytes: Uint8Array, offset: number, end: number, version: 3 | 4): { id: string; raw: Uint8Array }[] {
+  const frames: { id: string; raw: Uint8Array }[] = [];
+  while (offset + 10 <= end) {
+    // A zero byte where a frame ID should be is the start of the padding
+    if (bytes[offset] === 0) break;
+    const id = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    const size = version === 4 ? readSynchsafe(bytes, offset + 4) : readUint32BE(bytes, offset + 4);
+    const frameEnd = offset + 10 + size;
+    if (frameEnd > end) {
+      throw new UnsupportedTagFormatError(`ID3 frame ${id} runs past the end of the tag`);
+    }
+    frames.push({ id, raw: bytes.subarray(offset, frameEnd) });
+    offset = frameEnd;
+  }
+  return frames;
+}
+
+function buildTextFrame(id: string, value: string, version: 3 | 4): Uint8Array {
+  // v2.4 allows UTF-8; v2.3 only has UTF-16 for non-Latin text
+  const data = version === 4
+    ? concatBytes([Uint8Array.of(0x03), encodeUtf8(value)])
+    : concatBytes([Uint8Array.of(0x01, 0xff, 0xfe), encodeUtf16LE(value)]);
+  return concatBytes([
+    encodeLatin1(id),
+    version === 4 ? synchsafe(data.length) : uint32BE(data.length),
+    Uint8Array.of(0, 0),
+    data
+  ]);
+}
+
+function encodeUtf16LE(value: string): Uint8Array {
+  const bytes = new Uint8Array(value.length * 2);
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i);
+    bytes[i * 2] = code & 0xff;
+    bytes[i * 2 + 1] = code >>> 8;
+  }
+  return bytes;
+}
+
+function readSynchsafe(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset]! & 0x7f) << 21) | ((bytes[offset + 1]! & 0x7f) << 14) | ((bytes[offset + 2]! & 0x7f) << 7) | (bytes[offset + 3]! & 0x7f);
+}
+
+function synchsafe(value: number): Uint8Array {
+  return Uint8Array.of((value >>> 21) & 0x7f, (value >>> 14) & 0x7f, (value >>> 7) & 0x7f, value & 0x7f);
+}
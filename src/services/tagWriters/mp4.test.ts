@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { parseBuffer } from 'music-metadata';
+import { writeMp4Tags } from './mp4';
+import { UnsupportedTagFormatError, concatBytes, encodeLatin1, encodeUtf8, readUint32BE, uint32BE } from './common';
+
+const readTags = async (bytes: Uint8Array) => (await parseBuffer(bytes, { mimeType: 'audio/mp4' })).common;
+
+function atom(type: string, ...content: Uint8Array[]): Uint8Array {
+  const body = concatBytes(content);
+  return concatBytes([uint32BE(body.length + 8), encodeLatin1(type), body]);
+}
+
+const textItem = (type: string, value: string) => atom(type, atom('data', uint32BE(1), uint32BE(0), encodeUtf8(value)));
+
+const FTYP = atom('ftyp', encodeLatin1('M4A '), uint32BE(0), encodeLatin1('M4A isom'));
+const AUDIO = new Uint8Array(64).fill(9);
+
+// Movie header (version 0): 1000 units per second, 1 second long
+const MVHD = atom('mvhd', new Uint8Array(12), uint32BE(1000), uint32BE(1000), new Uint8Array(80));
+// Track 1 and its media header, at the same rate and length
+const TKHD = atom('tkhd', uint32BE(3), new Uint8Array(8), uint32BE(1), uint32BE(0), uint32BE(1000), new Uint8Array(60));
+const MDHD = atom('mdhd', new Uint8Array(12), uint32BE(1000), uint32BE(1000), new Uint8Array(4));
+// No sample descriptions: nothing here is decoded
+const STSD = atom('stsd', uint32BE(0), uint32BE(0));
+
+/**
+ * ftyp, moov (with the given tag items, if any) and mdat. The moov comes first, as in files made
+ * for streaming, so its one chunk offset has to move whenever the tags change size
+ */
+function mp4File(items: Uint8Array[] | null): Uint8Array {
+  const udta = items ? [atom('udta', atom('meta', new Uint8Array(4), atom('hdlr', new Uint8Array(8), encodeLatin1('mdirappl'), new Uint8Array(9)), atom('ilst', ...items)))] : [];
+  const moovFor = (audioOffset: number) => atom('moov', MVHD,
+    atom('trak', TKHD, atom('mdia', MDHD, atom('minf', atom('stbl', STSD, atom('stco', uint32BE(0), uint32BE(1), uint32BE(audioOffset)))))),
+    ...udta);
+  const audioOffset = FTYP.length + moovFor(0).length + 8;
+  return concatBytes([FTYP, moovFor(audioOffset), atom('mdat', AUDIO)]);
+}
+
+// Follow the first stco entry to the audio it points at
+function chunkAt(bytes: Uint8Array): Uint8Array {
+  const stco = bytes.findIndex((_, index) => encodeLatin1('stco').every((byte, i) => bytes[index + i] === byte));
+  const offset = readUint32BE(bytes, stco + 12);
+  return bytes.subarray(offset, offset + AUDIO.length);
+}
+
+describe('writeMp4Tags', () => {
+  it('creates the metadata list in a file without one', async () => {
+    const written = writeMp4Tags(mp4File(null), { title: 'Jóga', artist: 'Björk', album: 'Homogenic', year: 1997, mood: 'Calm' });
+
+    const tags = await readTags(written);
+    expect(tags.title).toBe('Jóga');
+    expect(tags.artist).toBe('Björk');
+    expect(tags.album).toBe('Homogenic');
+    expect(tags.year).toBe(1997);
+    expect(chunkAt(written)).toEqual(AUDIO);
+  });
+
+  it('replaces edited items and keeps the rest', async () => {
+    const original = mp4File([textItem('©nam', 'Old'), textItem('©ART', 'Artist'), textItem('©wrt', 'Composer'), textItem('©alb', 'Album')]);
+
+    const written = writeMp4Tags(original, { title: 'A much longer new title', album: '' });
+
+    const tags = await readTags(written);
+    expect(tags.title).toBe('A much longer new title');
+    expect(tags.artist).toBe('Artist');
+    expect(tags.composer).toEqual(['Composer']);
+    expect(tags.album).toBeUndefined();
+    expect(chunkAt(written)).toEqual(AUDIO);
+  });
+
+  it('replaces a numeric genre with the new text one', async () => {
+    const original = mp4File([atom('gnre', atom('data', uint32BE(0), uint32BE(0), Uint8Array.of(0, 18)))]);
+
+    const tags = await readTags(writeMp4Tags(original, { genre: 'Electronic' }));
+
+    expect(tags.genre).toEqual(['Electronic']);
+  });
+
+  it('refuses files without a moov atom', () => {
+    expect(() => writeMp4Tags(concatBytes([FTYP, atom('mdat', AUDIO)]), { title: 'Title' })).toThrow(UnsupportedTagFormatError);
+  });
+});
@@ -0,0 +1,194 @@
+import {
+  TagEdits, TagField, UnsupportedTagFormatError,
+  concatBytes, decodeLatin1, decodeUtf8, encodeLatin1, encodeUtf8, getEditedValues, readUint32BE, uint32BE, writeUint32BE
+} from './common';
+
+// iTunes item atoms for each field. Mood has no standard atom, so it uses a freeform '----' item
+const ITEM_TYPES: Record<Exclude<TagField, 'mood'>, string> = {
+  title: '©nam',
+  artist: '©ART',
+  album: '©alb',
+  genre: '©gen',
+  year: '©day',
+};
+const FREEFORM_MEAN = 'com.apple.iTunes';
+const MOOD_NAME = 'MOOD';
+
+interface Atom {
+  type: string;
+  start: number;
+  contentStart: number;
+  end: number;
+}
+
+/**
+ * Rewrite the iTunes metadata list (moov/udta/meta/ilst) of an M4A file, creating it if needed.
+ * Items that aren't being edited are copied as-is. When the moov atom changes size, chunk offsets
+ * pointing past it are shifted so the audio data is still found
+ */
+export function writeMp4Tags(bytes: Uint8Array, edits: TagEdits): Uint8Array {
+  const topLevel = readAtoms(bytes, 0, bytes.length);
+  const moov = topLevel.find(atom => atom.type === 'moov');
+  if (!moov) {
+    throw new UnsupportedTagFormatError('MP4 file has no moov atom');
+  }
+
+  const newMoov = rebuildContainer(bytes, moov, 'udta', udta => rebuildUdta(bytes, udta, edits));
+  const delta = newMoov.length - (moov.end - moov.start);
+  if (delta !== 0) {
+    shiftChunkOffsets(newMoov, moov.end, delta);
+  }
+
+  return concatBytes([bytes.subarray(0, moov.start), newMoov, bytes.subarray(moov.end)]);
+}
+
+function rebuildUdta(bytes: Uint8Array, udta: Atom | null, edits: TagEdits): Uint8Array {
+  if (!udta) {
+    return buildAtom('udta', [buildMeta(buildIlst([], edits))]);
+  }
+  return rebuildContainer(bytes, udta, 'meta', meta => {
+    if (!meta) {
+      return buildMeta(buildIlst([], edits));
+    }
+    // meta is normally a full box (4 bytes of version and flags before its children),
+    // but some QuickTime writers leave those out
+    const isFullBox = decodeLatin1(bytes.subarray(meta.contentStart + 4, meta.contentStart + 8)) !== 'hdlr';
+    const childStart = meta.contentStart + (isFullBox ? 4 : 0);
+    const children = readAtoms(bytes, childStart, meta.end);
+    const ilst = children.find(child => child.type === 'ilst');
+    const items = ilst ? readAtoms(bytes, ilst.contentStart, ilst.end).map(item => ({ item, raw: bytes.subarray(item.start, item.end) })) : [];
+    const newIlst = buildIlst(items.map(({ item, raw }) => ({ type: item.type, raw, freeformName: getFreeformName(bytes, item) })), edits);
+
+    const parts = children.filter(child => child.type !== 'ilst').map(child => bytes.subarray(child.start, child.end));
+    parts.push(newIlst);
+    return buildAtom('meta', isFullBox ? [new Uint8Array(4), ...parts] : parts);
+  });
+}
+
+function buildMeta(ilst: Uint8Array): Uint8Array {
+  const hdlr = buildAtom('hdlr', [
+    new Uint8Array(8),
+    encodeLatin1('mdirappl'),
+    new Uint8Array(9)
+  ]);
+  return buildAtom('meta', [new Uint8Array(4), hdlr, ilst]);
+}
+
+function buildIlst(items: { type: string; raw: Uint8Array; freeformName: string | null }[], edits: TagEdits): Uint8Array {
+  const edited = getEditedValues(edits);
+  const replacedTypes = new Set<string>();
+  let replacesMood = false;
+  for (const [field] of edited) {
+    if (field === 'mood') {
+      replacesMood = true;
+    } else {
+      replacedTypes.add(ITEM_TYPES[field]);
+      // Numeric ID3-style genre, which would otherwise shadow the new text genre
+      if (field === 'genre') replacedTypes.add('gnre');
+    }
+  }
+
+  const kept = items.filter(item => {
+    if (replacedTypes.has(item.type)) return false;
+    return !(replacesMood && item.type === '----' && item.freeformName?.toUpperCase() === MOOD_NAME);
+  }).map(item => item.raw);
+
+  for (const [field, value] of edited) {
+    if (value === '') continue;
+    if (field === 'mood') {
+      kept.push(buildAtom('----', [
+        buildAtom('mean', [new Uint8Array(4), encodeLatin1(FREEFORM_MEAN)]),
+        buildAtom('name', [new Uint8Array(4), encodeLatin1(MOOD_NAME)]),
+        buildDataAtom(value)
+      ]));
+    } else {
+      kept.push(buildAtom(ITEM_TYPES[field], [buildDataAtom(value)]));
+    }
+  }
+
+  return buildAtom('ilst', kept);
+}
+
+function buildDataAtom(value: string): Uint8Array {
+  // Type 1 is UTF-8 text; the locale is left as 0
+  return buildAtom('data', [uint32BE(1), uint32BE(0), encodeUtf8(value)]);
+}
+
+function getFreeformName(bytes: Uint8Array, item: Atom): string | null {
+  if (item.type !== '----') return null;
+  const name = readAtoms(bytes, item.contentStart, item.end).find(child => child.type === 'name');
+  return name ? decodeUtf8(bytes.subarray(name.contentStart + 4, name.end)) : null;
+}
+
+/**
+ * Copy a container atom, replacing (or appending) the child of the given type
+ */
+function rebuildContainer(bytes: Uint8Array, container: Atom, childType: string, rebuild: (child: Atom | null) => Uint8Array): Uint8Array {
+  const children = readAtoms(bytes, container.contentStart, container.end);
+  const child = children.find(c => c.type === childType) ?? null;
+  const parts = children.filter(c => c !== child).map(c => bytes.subarray(c.start, c.end));
+  parts.push(rebuild(child));
+  return buildAtom(container.type, parts);
+}
+
+function buildAtom(type: string, content: Uint8Array[]): Uint8Array {
+  const body = concatBytes(content);
+  return concatBytes([uint32BE(body.length + 8), encodeLatin1(type), body]);
+}
+
+function readAtoms(bytes: Uint8Array, start: number, end: number): Atom[] {
+  const atoms: Atom[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = readUint32BE(bytes, offset);
+    const type = decodeLatin1(bytes.subarray(offset + 4, offset + 8));
+    let headerSize = 8;
+    if (size === 1) {
+      size = readUint32BE(bytes, offset + 8) * 2 ** 32 + readUint32BE(bytes, offset + 12);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize || offset + size > end) {
+      throw new UnsupportedTagFormatError(`MP4 atom ${type} runs past its container`);
+    }
+    atoms.push({ type, start: offset, contentStart: offset + headerSize, end: offset + size });
+    offset += size;
+  }
+  return atoms;
+}
+
+/**
+ * Add `delta` to every stco/co64 chunk offset in a moov atom that points past `threshold`
+ */
+function shiftChunkOffsets(moov: Uint8Array, threshold: number, delta: number): void {
+  const visit = (atoms: Atom[]) => {
+    for (const atom of atoms) {
+      if (['moov', 'trak', 'mdia', 'minf', 'stbl'].includes(atom.type)) {
+        visit(readAtoms(moov, atom.contentStart, atom.end));
+      } else if (atom.type === 'stco') {
+        const count = readUint32BE(moov, atom.contentStart + 4);
+        for (let i = 0; i < count; i++) {
+          const offset = atom.contentStart + 8 + i * 4;
+          const value = readUint32BE(moov, offset);
+          if (value < threshold) continue;
+          if (value + delta >= 2 ** 32) {
+            throw new UnsupportedTagFormatError('Tags would push audio data past the 4GB chunk offset limit');
+          }
+          writeUint32BE(moov, offset, value + delta);
+        }
+      } else if (atom.type === 'co64') {
+        const count = readUint32BE(moov, atom.contentStart + 4);
+        for (let i = 0; i < count; i++) {
+          const offset = atom.contentStart + 8 + i * 8;
+          const value = readUint32BE(moov, offset) * 2 ** 32 + readUint32BE(moov, offset + 4);
+          if (value < threshold) continue;
+          const shifted = value + delta;
+          writeUint32BE(moov, offset, Math.floor(shifted / 2 ** 32));
+          writeUint32BE(moov, offset + 4, shifted % 2 ** 32);
+        }
+      }
+    }
+  };
+  visit(readAtoms(moov, 0, moov.length));
+}
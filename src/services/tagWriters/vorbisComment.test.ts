@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { parseBuffer } from 'music-metadata';
+import { writeFlacTags, writeOggTags } from './vorbisComment';
+import { UnsupportedTagFormatError, concatBytes, encodeLatin1, encodeUtf8, readUint32LE, uint32LE } from './common';
+
+const readTags = async (bytes: Uint8Array, mimeType: string) => (await parseBuffer(bytes, { mimeType })).common;
+
+function vorbisComment(comments: string[]): Uint8Array {
+  const vendor = encodeUtf8('test');
+  return concatBytes([
+    uint32LE(vendor.length), vendor, uint32LE(comments.length),
+    ...comments.flatMap(comment => [uint32LE(encodeUtf8(comment).length), encodeUtf8(comment)])
+  ]);
+}
+
+// 44.1 kHz, stereo, 16 bits, 4096-sample blocks
+const STREAMINFO = Uint8Array.of(
+  0x10, 0x00, 0x10, 0x00, 0, 0, 0, 0, 0, 0,
+  0x0a, 0xc4, 0x42, 0xf0, 0, 0, 0, 0,
+  ...new Uint8Array(16)
+);
+const FLAC_AUDIO = Uint8Array.of(0xff, 0xf8, 0x69, 0x08, 0x00, 0x00, 0x00, 0x00);
+
+function flacBlock(type: number, data: Uint8Array, last: boolean): Uint8Array {
+  const length = data.length;
+  return concatBytes([Uint8Array.of((last ? 0x80 : 0) | type, (length >>> 16) & 0xff, (length >>> 8) & 0xff, length & 0xff), data]);
+}
+
+function flacFile(comments: string[] | null): Uint8Array {
+  const blocks = comments
+    ? [flacBlock(0, STREAMINFO, false), flacBlock(4, vorbisComment(comments), true)]
+    : [flacBlock(0, STREAMINFO, true)];
+  return concatBytes([encodeLatin1('fLaC'), ...blocks, FLAC_AUDIO]);
+}
+
+// One Ogg page per packet. Checksums are left at zero, as neither the writer nor the parser checks them
+function oggPage(packet: Uint8Array, sequence: number, flags: number, granule: number): Uint8Array {
+  const lacing: number[] = [];
+  for (let remaining = packet.length; ; remaining -= 255) {
+    lacing.push(Math.min(remaining, 255));
+    if (remaining < 255) break;
+  }
+  return concatBytes([
+    encodeLatin1('OggS'),
+    Uint8Array.of(0, flags),
+    uint32LE(granule), uint32LE(0),
+    uint32LE(1234), uint32LE(sequence), uint32LE(0),
+    Uint8Array.of(lacing.length, ...lacing),
+    packet
+  ]);
+}
+
+const VORBIS_IDENTIFICATION = concatBytes([
+  Uint8Array.of(1), encodeLatin1('vorbis'),
+  uint32LE(0), Uint8Array.of(2), uint32LE(44100), uint32LE(0), uint32LE(128000), uint32LE(0),
+  Uint8Array.of(0xb8, 1)
+]);
+const VORBIS_SETUP = concatBytes([Uint8Array.of(5), encodeLatin1('vorbis'), new Uint8Array(16)]);
+const OGG_AUDIO = new Uint8Array(32).fill(7);
+
+function oggFile(comments: string[]): Uint8Array {
+  return concatBytes([
+    oggPage(VORBIS_IDENTIFICATION, 0, 0x02, 0),
+    oggPage(concatBytes([Uint8Array.of(3), encodeLatin1('vorbis'), vorbisComment(comments), Uint8Array.of(1)]), 1, 0, 0),
+    oggPage(VORBIS_SETUP, 2, 0, 0),
+    oggPage(OGG_AUDIO, 3, 0x04, 44100)
+  ]);
+}
+
+describe('writeFlacTags', () => {
+  it('adds a comment block to a file without one', async () => {
+    const written = writeFlacTags(flacFile(null), { title: 'Jóga', artist: 'Björk', year: 1997, genre: 'Electronic' });
+
+    const tags = await readTags(written, 'audio/flac');
+    expect(tags.title).toBe('Jóga');
+    expect(tags.artist).toBe('Björk');
+    expect(tags.year).toBe(1997);
+    expect(tags.genre).toEqual(['Electronic']);
+    expect(written.subarray(written.length - FLAC_AUDIO.length)).toEqual(FLAC_AUDIO);
+  });
+
+  it('replaces edited comments and keeps the rest', async () => {
+    const written = writeFlacTags(flacFile(['TITLE=Old', 'ARTIST=Artist', 'COMPOSER=Composer', 'ALBUM=Album']), { title: 'New', album: '' });
+
+    const tags = await readTags(written, 'audio/flac');
+    expect(tags.title).toBe('New');
+    expect(tags.artist).toBe('Artist');
+    expect(tags.composer).toEqual(['Composer']);
+    expect(tags.album).toBeUndefined();
+    expect(written.subarray(written.length - FLAC_AUDIO.length)).toEqual(FLAC_AUDIO);
+  });
+
+  it('refuses files that aren\'t FLAC', () => {
+    expect(() => writeFlacTags(encodeLatin1('RIFF....WAVE'), { title: 'Title' })).toThrow(UnsupportedTagFormatError);
+  });
+});
+
+describe('writeOggTags', () => {
+  it('rewrites the comment header of an Ogg Vorbis file', async () => {
+    const written = writeOggTags(oggFile(['TITLE=Old', 'ARTIST=Artist']), { title: 'New', mood: 'Happy' });
+
+    const tags = await readTags(written, 'audio/ogg');
+    expect(tags.title).toBe('New');
+    expect(tags.artist).toBe('Artist');
+    expect(written.subarray(written.length - OGG_AUDIO.length)).toEqual(OGG_AUDIO);
+  });
+
+  it('renumbers the audio pages when the comment needs more pages', async () => {
+    const original = oggFile(['TITLE=Short']);
+    // Over 510 segments of 255 bytes, so the comment and setup headers take three pages instead of two
+    const title = 'x'.repeat(140000);
+    const written = writeOggTags(original, { title });
+
+    const tags = await readTags(written, 'audio/ogg');
+    expect(tags.title).toBe(title);
+    const lastPage = written.length - OGG_AUDIO.length - 28;
+    expect(written.subarray(lastPage, lastPage + 4)).toEqual(encodeLatin1('OggS'));
+    expect(readUint32LE(written, lastPage + 18)).toBe(4);
+  });
+
+  it('refuses Ogg streams other than Vorbis and Opus', () => {
+    const flacInOgg = oggPage(concatBytes([Uint8Array.of(0x7f), encodeLatin1('FLAC')]), 0, 0x02, 0);
+
+    expect(() => writeOggTags(flacInOgg, { title: 'Title' })).toThrow(UnsupportedTagFormatError);
+  });
+});
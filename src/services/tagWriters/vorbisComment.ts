@@ -0,0 +1,311 @@
+import {
+  TagEdits, TagField, UnsupportedTagFormatError,
+  concatBytes, decodeUtf8, encodeLatin1, encodeUtf8, getEditedValues, readUint32LE, startsWith, uint32LE
+} from './common';
+
+const COMMENT_KEYS: Record<TagField, string> = {
+  title: 'TITLE',
+  artist: 'ARTIST',
+  album: 'ALBUM',
+  genre: 'GENRE',
+  year: 'DATE',
+  mood: 'MOOD',
+};
+
+// Size of the padding block written after the FLAC metadata
+const FLAC_PADDING_SIZE = 2048;
+const FLAC_VORBIS_COMMENT = 4;
+const FLAC_PADDING = 1;
+
+interface VorbisComment {
+  vendor: Uint8Array;
+  comments: string[];
+  // Anything after the comment list (the Vorbis framing bit, Opus extension data)
+  trailer: Uint8Array;
+}
+
+/**
+ * Rewrite the VORBIS_COMMENT block of a FLAC file, replacing any padding blocks with a fresh one
+ */
+export function writeFlacTags(bytes: Uint8Array, edits: TagEdits): Uint8Array {
+  // Some taggers put an ID3v2 tag in front of the stream marker - keep it untouched
+  let start = 0;
+  if (startsWith(bytes, 'ID3')) {
+    start = 10 + (((bytes[6]! & 0x7f) << 21) | ((bytes[7]! & 0x7f) << 14) | ((bytes[8]! & 0x7f) << 7) | (bytes[9]! & 0x7f));
+  }
+  if (!startsWith(bytes, 'fLaC', start)) {
+    throw new UnsupportedTagFormatError('Not a FLAC file');
+  }
+
+  const blocks: { type: number; data: Uint8Array }[] = [];
+  let offset = start + 4;
+  let isLast = false;
+  while (!isLast) {
+    if (offset + 4 > bytes.length) {
+      throw new UnsupportedTagFormatError('FLAC metadata runs past the end of the file');
+    }
+    const header = bytes[offset]!;
+    isLast = (header & 0x80) !== 0;
+    const length = (bytes[offset + 1]! << 16) | (bytes[offset + 2]! << 8) | bytes[offset + 3]!;
+    blocks.push({ type: header & 0x7f, data: bytes.subarray(offset + 4, offset + 4 + length) });
+    offset += 4 + length;
+  }
+
+  const existing = blocks.find(block => block.type === FLAC_VORBIS_COMMENT);
+  const comment = applyEdits(existing ? parseVorbisComment(existing.data) : emptyComment(), edits);
+  const commentBlock = { type: FLAC_VORBIS_COMMENT, data: buildVorbisComment(comment) };
+
+  const output = blocks.filter(block => block.type !== FLAC_PADDING && block.type !== FLAC_VORBIS_COMMENT);
+  // STREAMINFO must stay first; the comment goes straight after it
+  output.splice(1, 0, commentBlock);
+  output.push({ type: FLAC_PADDING, data: new Uint8Array(FLAC_PADDING_SIZE) });
+
+  const blockBytes = output.map((block, index) => {
+    const length = block.data.length;
+    if (length >= 1 << 24) {
+      throw new UnsupportedTagFormatError('FLAC metadata block is too large');
+    }
+    const header = Uint8Array.of((index === output.length - 1 ? 0x80 : 0) | block.type, (length >>> 16) & 0xff, (length >>> 8) & 0xff, length & 0xff);
+    return concatBytes([header, block.data]);
+  });
+
+  return concatBytes([bytes.subarray(0, start + 4), ...blockBytes, bytes.subarray(offset)]);
+}
+
+/**
+ * Rewrite the comment header of an Ogg Vorbis or Ogg Opus file. The header packets after the
+ * identification page are repaginated, and later pages are renumbered if the page count changes
+ */
+export function writeOggTags(bytes: Uint8Array, edits: TagEdits): Uint8Array {
+  const pages = readOggPages(bytes);
+  const first = pages[0];
+  if (!first || first.packets.length !== 1 || first.continued) {
+    throw new UnsupportedTagFormatError('Unexpected Ogg identification page');
+  }
+
+  const identification = first.packets[0]!;
+  const codec = startsWith(identification, '\x01vorbis') ? 'vorbis' : startsWith(identification, 'OpusHead') ? 'opus' : null;
+  if (!codec) {
+    throw new UnsupportedTagFormatError('Only Ogg Vorbis and Opus files can be edited');
+  }
+  // Vorbis has comment and setup headers, Opus only the comment header
+  const headerPacketCount = codec === 'vorbis' ? 2 : 1;
+  const commentPrefix = codec === 'vorbis' ? '\x03vorbis' : 'OpusTags';
+
+  // Gather the header packets following the identification page
+  const headerPackets: Uint8Array[] = [];
+  let pending: Uint8Array[] = [];
+  let headerPageCount = 1;
+  for (let i = 1; i < pages.length && headerPackets.length < headerPacketCount; i++) {
+    const page = pages[i]!;
+    if (page.serial !== first.serial) {
+      throw new UnsupportedTagFormatError('Multiplexed Ogg streams can\'t be edited');
+    }
+    page.packets.forEach((packet, index) => {
+      pending.push(packet);
+      if (index < page.packets.length - 1 || !page.endsOpen) {
+        headerPackets.push(concatBytes(pending));
+        pending = [];
+      }
+    });
+    headerPageCount++;
+  }
+  if (headerPackets.length !== headerPacketCount || pending.length > 0) {
+    throw new UnsupportedTagFormatError('Ogg header packets don\'t end on a page boundary');
+  }
+
+  const commentPacket = headerPackets[0]!;
+  if (!startsWith(commentPacket, commentPrefix)) {
+    throw new UnsupportedTagFormatError('Missing Ogg comment header');
+  }
+  const comment = applyEdits(parseVorbisComment(commentPacket.subarray(commentPrefix.length)), edits);
+  headerPackets[0] = concatBytes([encodeLatin1(commentPrefix), buildVorbisComment(comment)]);
+
+  const newHeaderPages = paginate(headerPackets, first.serial, 1);
+  const sequenceShift = newHeaderPages.length - (headerPageCount - 1);
+
+  const restPages = pages.slice(headerPageCount).map(page => {
+    if (sequenceShift === 0) return page.raw;
+    const raw = page.raw.slice();
+    writeUint32LE(raw, 18, page.sequence + sequenceShift);
+    writeUint32LE(raw, 22, oggCrc(raw));
+    return raw;
+  });
+
+  return concatBytes([first.raw, ...newHeaderPages, ...restPages, bytes.subarray(pages[pages.length - 1]!.end)]);
+}
+
+function emptyComment(): VorbisComment {
+  return { vendor: encodeUtf8('zero-radio'), comments: [], trailer: new Uint8Array() };
+}
+
+function applyEdits(comment: VorbisComment, edits: TagEdits): VorbisComment {
+  const edited = getEditedValues(edits);
+  const replacedKeys = new Set(edited.map(([field]) => COMMENT_KEYS[field]));
+  const comments = comment.comments.filter(entry => !replacedKeys.has(entry.split('=')[0]!.toUpperCase()));
+  for (const [field, value] of edited) {
+    if (value !== '') {
+      comments.push(`${COMMENT_KEYS[field]}=${value}`);
+    }
+  }
+  return { ...comment, comments };
+}
+
+function parseVorbisComment(data: Uint8Array): VorbisComment {
+  const vendorLength = readUint32LE(data, 0);
+  const vendor = data.subarray(4, 4 + vendorLength);
+  let offset = 4 + vendorLength;
+  const count = readUint32LE(data, offset);
+  offset += 4;
+
+  const comments: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const length = readUint32LE(data, offset);
+    if (offset + 4 + length > data.length) {
+      throw new UnsupportedTagFormatError('Vorbis comment runs past the end of its block');
+    }
+    comments.push(decodeUtf8(data.subarray(offset + 4, offset + 4 + length)));
+    offset += 4 + length;
+  }
+
+  return { vendor, comments, trailer: data.subarray(offset) };
+}
+
+function buildVorbisComment(comment: VorbisComment): Uint8Array {
+  const parts = [uint32LE(comment.vendor.length), comment.vendor, uint32LE(comment.comments.length)];
+  for (const entry of comment.comments) {
+    const encoded = encodeUtf8(entry);
+    parts.push(uint32LE(encoded.length), encoded);
+  }
+  parts.push(comment.trailer);
+  return concatBytes(parts);
+}
+
+interface OggPage {
+  raw: Uint8Array;
+  end: number;
+  serial: number;
+  sequence: number;
+  // The page starts with the tail of a packet from the previous page
+  continued: boolean;
+  // The last packet carries on into the next page
+  endsOpen: boolean;
+  // Packet pieces on this page, split at lacing boundaries
+  packets: Uint8Array[];
+}
+
+function readOggPages(bytes: Uint8Array): OggPage[] {
+  const pages: OggPage[] = [];
+  let offset = 0;
+  while (offset + 27 <= bytes.length && startsWith(bytes, 'OggS', offset)) {
+    const segmentCount = bytes[offset + 26]!;
+    const lacing = bytes.subarray(offset + 27, offset + 27 + segmentCount);
+    let dataOffset = offset + 27 + segmentCount;
+
+    const packets: Uint8Array[] = [];
+    let packetStart = dataOffset;
+    for (const value of lacing) {
+      dataOffset += value;
+      if (value < 255) {
+        packets.push(bytes.subarray(packetStart, dataOffset));
+        packetStart = dataOffset;
+      }
+    }
+    const endsOpen = packetStart < dataOffset;
+    if (endsOpen) {
+      packets.push(bytes.subarray(packetStart, dataOffset));
+    }
+    if (dataOffset > bytes.length) {
+      throw new UnsupportedTagFormatError('Truncated Ogg page');
+    }
+
+    pages.push({
+      raw: bytes.subarray(offset, dataOffset),
+      end: dataOffset,
+      serial: readUint32LE(bytes, offset + 14),
+      sequence: readUint32LE(bytes, offset + 18),
+      continued: (bytes[offset + 5]! & 0x01) !== 0,
+      endsOpen,
+      packets
+    });
+    offset = dataOffset;
+  }
+  return pages;
+}
+
+/**
+ * Lay packets out over as few Ogg pages as the 255-segment limit allows
+ */
+function paginate(packets: Uint8Array[], serial: number, firstSequence: number): Uint8Array[] {
+  // Lacing values for every packet, remembering which packet each segment belongs to
+  const segments: { packet: number; size: number; last: boolean }[] = [];
+  packets.forEach((packet, index) => {
+    let remaining = packet.length;
+    while (remaining >= 255) {
+      segments.push({ packet: index, size: 255, last: false });
+      remaining -= 255;
+    }
+    segments.push({ packet: index, size: remaining, last: true });
+  });
+
+  const pages: Uint8Array[] = [];
+  const offsets = packets.map(() => 0);
+  let continued = false;
+  for (let start = 0; start < segments.length; start += 255) {
+    const pageSegments = segments.slice(start, start + 255);
+    const data = pageSegments.map(segment => {
+      const packet = packets[segment.packet]!;
+      const piece = packet.subarray(offsets[segment.packet]!, offsets[segment.packet]! + segment.size);
+      offsets[segment.packet]! += segment.size;
+      return piece;
+    });
+    // Header pages carry granule position 0, or -1 when no packet finishes on them
+    const finishesPacket = pageSegments.some(segment => segment.last);
+
+    const header = new Uint8Array(27 + pageSegments.length);
+    header.set(encodeLatin1('OggS'), 0);
+    header[4] = 0;
+    header[5] = continued ? 0x01 : 0;
+    header.fill(finishesPacket ? 0 : 0xff, 6, 14);
+    writeUint32LE(header, 14, serial);
+    writeUint32LE(header, 18, firstSequence + pages.length);
+    header[26] = pageSegments.length;
+    pageSegments.forEach((segment, index) => { header[27 + index] = segment.size; });
+
+    const page = concatBytes([header, ...data]);
+    writeUint32LE(page, 22, oggCrc(page));
+    pages.push(page);
+    continued = !pageSegments[pageSegments.length - 1]!.last;
+  }
+  return pages;
+}
+
+function writeUint32LE(bytes: Uint8Array, offset: number, value: number): void {
+  bytes.set(uint32LE(value >>> 0), offset);
+}
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * Ogg page checksum: CRC-32 with polynomial 0x04c11db7, no reflection, computed with the CRC field zeroed
+ */
+function oggCrc(page: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let i = 0; i < 256; i++) {
+      let value = i << 24;
+      for (let bit = 0; bit < 8; bit++) {
+        value = value & 0x80000000 ? (value << 1) ^ 0x04c11db7 : value << 1;
+      }
+      crcTable[i] = value >>> 0;
+    }
+  }
+
+  let crc = 0;
+  for (let i = 0; i < page.length; i++) {
+    // The CRC field itself (bytes 22-25) counts as zero
+    const byte = i >= 22 && i < 26 ? 0 : page[i]!;
+    crc = ((crc << 8) ^ crcTable[((crc >>> 24) ^ byte) & 0xff]!) >>> 0;
+  }
+  return crc;
+}
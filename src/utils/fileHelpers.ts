@@ -1,10 +1,6 @@
-import { get } from 'idb-keyval';
 import { AudioTrack } from '../services/musicCacheService';
-
-// Helper function - will be moved to a utilities file later
-async function loadDirectoryHandle(): Promise<FileSystemDirectoryHandle | null> {
-  return (await get("savedDirHandle")) ?? null;
-}
+import { getFileHandleByPath } from '../services/fileSystemService';
+import { libraryRootService } from '../services/libraryRootService';
 
 async function verifyPermission(handle: FileSystemHandle, mode: "read" | "readwrite" = "readwrite"): Promise<boolean> {
   const opts = { mode };
@@ -16,18 +12,18 @@ async function verifyPermission(handle: FileSystemHandle, mode: "read" | "readwr
   return request === "granted";
 }
 
-async function tryUseCachedFolder(): Promise< FileSystemDirectoryHandle | null> {
-  let dirHandle = await loadDirectoryHandle();
+async function tryUseRootFolder(rootId: string): Promise<FileSystemDirectoryHandle | null> {
+  const root = await libraryRootService.getRoot(rootId);
 
-  if (!dirHandle || !(await verifyPermission(dirHandle))) {
+  if (!root || !(await verifyPermission(root.handle, "read"))) {
     return null;
   }
-  return dirHandle;
+  return root.handle;
 }
 
 /**
- * Loads an audio file from the cached directory using a track's filePath
- * @param track The AudioTrack containing metadata and filePath
+ * Loads an audio file from the track's library root using its filePath
+ * @param track The AudioTrack containing metadata, rootId and filePath
  * @returns Promise<File> that can be played with the Audio API, or null if file cannot be loaded
  */
 export async function loadAudioFileFromTrack(track: AudioTrack): Promise<File | null> {
@@ -37,23 +33,15 @@ export async function loadAudioFileFromTrack(track: AudioTrack): Promise<File |
   }
 
   try {
-    // Get the cached directory handle
-    const dirHandle = await tryUseCachedFolder();
+    // Get the directory handle of the root the track was scanned from
+    const dirHandle = await tryUseRootFolder(track.rootId);
     if (!dirHandle) {
-      console.error('No cached directory available');
+      console.error(`Library root not available: ${track.rootId}`);
       return null;
     }
 
-    // Try to get the file from the directory
-    let fileHandle: FileSystemFileHandle | null = null;
-    
-    try {
-      // First, try to get the file directly (for files in root)
-      fileHandle = await dirHandle.getFileHandle(track.filePath);
-    } catch (rootError) {
-      // If not found in root, search recursively
-      fileHandle = await findFileRecursive(dirHandle, track.filePath);
-    }
+    // Walk the path relative to the library root
+    const fileHandle = await getFileHandleByPath(dirHandle, track.filePath);
 
     if (!fileHandle) {
       console.error(`File not found: ${track.filePath}`);
@@ -76,45 +64,29 @@ export async function loadAudioFileFromTrack(track: AudioTrack): Promise<File |
 }
 
 /**
- * Recursively searches for a file in a directory and its subdirectories
- * @param dirHandle The directory handle to search in
- * @param fileName The name of the file to find
- * @returns Promise<FileSystemFileHandle | null>
+ * Show the directory picker for a new library root
+ * @returns The picked directory, or null if the picker is unsupported or was dismissed
  */
-async function findFileRecursive(
-  dirHandle: FileSystemDirectoryHandle,
-  fileName: string
-): Promise<FileSystemFileHandle | null> {
-  // Check if this is actually a file with the matching name
-  try {
-    const handle = await dirHandle.getFileHandle(fileName);
-    return handle;
-  } catch (error) {
-    // Not found or not a file, continue searching
+async function pickDirectory(): Promise<FileSystemDirectoryHandle | null> {
+  // Check if the File System Access API is supported
+  if (typeof window.showDirectoryPicker === 'undefined') {
+    alert('Your browser does not support the File System Access API. Please use a modern browser like Chrome, Edge, or Opera.')
+    return null;
   }
 
-  // Search through all entries in this directory
-  for await (const [name, entry] of dirHandle.entries()) {
-    if (entry.kind === 'file') {
-      const fileHandle = entry as FileSystemFileHandle;
-      if (fileHandle.name === fileName) {
-        return fileHandle;
-      }
-    } else if (entry.kind === 'directory') {
-      // Recursively search subdirectories
-      const subDirHandle = entry as FileSystemDirectoryHandle;
-      const found = await findFileRecursive(subDirHandle, fileName);
-      if (found) {
-        return found;
-      }
-    }
+  try {
+    return await window.showDirectoryPicker({
+      mode: 'read'
+    });
+  } catch (error) {
+    // The user dismissed the picker
+    if ((error as DOMException)?.name === 'AbortError') return null;
+    throw error;
   }
-
-  return null;
 }
 
 export { 
-  loadDirectoryHandle, 
   verifyPermission, 
-  tryUseCachedFolder 
+  pickDirectory, 
+  tryUseRootFolder 
 };
\ No newline at end of file
@@ -0,0 +1,58 @@
+// Longest edge, in pixels, of each thumbnail generated for stored artwork
+export const THUMBNAIL_SIZES = {
+  small: 96,
+  medium: 300
+} as const;
+
+export type ThumbnailSize = keyof typeof THUMBNAIL_SIZES;
+export type ArtworkSize = ThumbnailSize | 'full';
+export type ArtworkThumbnails = Partial<Record<ThumbnailSize, Blob>>;
+
+/**
+ * Content hash identifying a piece of artwork, so identical covers are only stored once
+ */
+export async function hashAlbumArt(data: Uint8Array | ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data as BufferSource);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Downscale an image to every thumbnail size smaller than the original.
+ * Sizes the image already fits within are skipped, since the original serves them just as well.
+ * Returns no thumbnails if the image can't be decoded
+ */
+export async function createThumbnails(data: Uint8Array | ArrayBuffer | Blob, mimeType: string): Promise<ArtworkThumbnails> {
+  const thumbnails: ArtworkThumbnails = {};
+  if (typeof OffscreenCanvas === 'undefined') return thumbnails;
+
+  let bitmap: ImageBitmap;
+  try {
+    const blob = data instanceof Blob ? data : new Blob([data as Uint8Array<ArrayBuffer>], { type: mimeType });
+    bitmap = await createImageBitmap(blob);
+  } catch (error) {
+    console.error('Error decoding artwork for thumbnails:', error);
+    return thumbnails;
+  }
+
+  try {
+    const longestEdge = Math.max(bitmap.width, bitmap.height);
+    for (const [size, maxEdge] of Object.entries(THUMBNAIL_SIZES) as [ThumbnailSize, number][]) {
+      if (longestEdge <= maxEdge) continue;
+
+      const scale = maxEdge / longestEdge;
+      const canvas = new OffscreenCanvas(Math.max(1, Math.round(bitmap.width * scale)), Math.max(1, Math.round(bitmap.height * scale)));
+      const context = canvas.getContext('2d');
+      if (!context) continue;
+
+      context.imageSmoothingQuality = 'high';
+      context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+      thumbnails[size] = await canvas.convertToBlob({ type: 'image/jpeg', quality: 0.85 });
+    }
+  } catch (error) {
+    console.error('Error generating thumbnails:', error);
+  } finally {
+    bitmap.close();
+  }
+
+  return thumbnails;
+}
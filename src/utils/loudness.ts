@@ -0,0 +1,182 @@
+// ReplayGain 2.0 plays everything at this integrated loudness
+export const REPLAYGAIN_REFERENCE_LUFS = -18;
+
+export interface LoudnessMeasurement {
+  // Integrated loudness in LUFS, null for silence
+  integratedLufs: number | null;
+  // Highest inter-sample peak, as an amplitude (1 = full scale)
+  truePeak: number;
+}
+
+// Gating blocks are 400 ms long and start every 100 ms (75% overlap)
+const BLOCK_SECONDS = 0.4;
+const STEP_SECONDS = 0.1;
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+// Samples are interpolated at this many times the sample rate to find true peaks
+const OVERSAMPLING = 4;
+const INTERPOLATION_TAPS = 12;
+
+interface Biquad {
+  b: [number, number, number];
+  a: [number, number];
+}
+
+/**
+ * The two K-weighting stages from ITU-R BS.1770: a high shelf for the head's acoustic effect
+ * and a high-pass. Coefficients are derived for the given rate rather than taken from the 48 kHz table
+ */
+function kWeightingFilters(sampleRate: number): [Biquad, Biquad] {
+  let f0 = 1681.974450955533;
+  const gain = 3.999843853973347;
+  let q = 0.7071752369554196;
+  let k = Math.tan(Math.PI * f0 / sampleRate);
+  const vh = Math.pow(10, gain / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  let a0 = 1 + k / q + k * k;
+  const shelf: Biquad = {
+    b: [(vh + vb * k / q + k * k) / a0, 2 * (k * k - vh) / a0, (vh - vb * k / q + k * k) / a0],
+    a: [2 * (k * k - 1) / a0, (1 - k / q + k * k) / a0]
+  };
+
+  f0 = 38.13547087602444;
+  q = 0.5003270373238773;
+  k = Math.tan(Math.PI * f0 / sampleRate);
+  a0 = 1 + k / q + k * k;
+  const highPass: Biquad = {
+    b: [1, -2, 1],
+    a: [2 * (k * k - 1) / a0, (1 - k / q + k * k) / a0]
+  };
+  return [shelf, highPass];
+}
+
+function applyBiquad(input: Float32Array, { b, a }: Biquad): Float32Array {
+  const output = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i]!;
+    const y = b[0] * x + b[1] * x1 + b[2] * x2 - a[0] * y1 - a[1] * y2;
+    x2 = x1;
+    x1 = x;
+    y2 = y1;
+    y1 = y;
+    output[i] = y;
+  }
+  return output;
+}
+
+/**
+ * BS.1770 channel weights, for Web Audio's channel order. Surrounds count for more and the LFE is left out
+ */
+function channelWeight(channel: number, channelCount: number): number {
+  if (channelCount < 6) return 1;
+  if (channel === 3) return 0;
+  return channel >= 4 ? 1.41 : 1;
+}
+
+function blockLoudness(meanSquare: number): number {
+  return -0.691 + 10 * Math.log10(meanSquare);
+}
+
+/**
+ * Interpolation filters for each fractional position between two samples: windowed sinc
+ */
+function interpolationFilters(): Float32Array[] {
+  const filters: Float32Array[] = [];
+  const half = INTERPOLATION_TAPS / 2;
+  for (let phase = 1; phase < OVERSAMPLING; phase++) {
+    const filter = new Float32Array(INTERPOLATION_TAPS);
+    const fraction = phase / OVERSAMPLING;
+    for (let tap = 0; tap < INTERPOLATION_TAPS; tap++) {
+      const t = tap - half + 1 - fraction;
+      const sinc = t === 0 ? 1 : Math.sin(Math.PI * t) / (Math.PI * t);
+      const window = 0.5 + 0.5 * Math.cos(Math.PI * t / (half + 1));
+      filter[tap] = sinc * window;
+    }
+    filters.push(filter);
+  }
+  return filters;
+}
+
+function measureTruePeak(samples: Float32Array, filters: Float32Array[]): number {
+  const half = INTERPOLATION_TAPS / 2;
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.abs(samples[i]!);
+    if (sample > peak) peak = sample;
+    if (i < half - 1 || i + half >= samples.length) continue;
+
+    for (const filter of filters) {
+      let value = 0;
+      for (let tap = 0; tap < INTERPOLATION_TAPS; tap++) {
+        value += samples[i - half + 1 + tap]! * filter[tap]!;
+      }
+      const magnitude = Math.abs(value);
+      if (magnitude > peak) peak = magnitude;
+    }
+  }
+  return peak;
+}
+
+/**
+ * Measure integrated loudness (EBU R128 / ITU-R BS.1770-4, with absolute and relative gating)
+ * and true peak of decoded audio
+ */
+export function measureLoudness(channels: Float32Array[], sampleRate: number): LoudnessMeasurement {
+  const [shelf, highPass] = kWeightingFilters(sampleRate);
+  const stepSamples = Math.round(sampleRate * STEP_SECONDS);
+  const stepsPerBlock = Math.round(BLOCK_SECONDS / STEP_SECONDS);
+  const length = channels[0]?.length ?? 0;
+  const stepCount = Math.floor(length / stepSamples);
+
+  // Weighted energy of each 100 ms step, summed over channels; blocks are runs of four steps
+  const stepEnergy = new Float64Array(stepCount);
+  const filters = interpolationFilters();
+  let truePeak = 0;
+  channels.forEach((samples, channel) => {
+    truePeak = Math.max(truePeak, measureTruePeak(samples, filters));
+    const weight = channelWeight(channel, channels.length);
+    if (weight === 0) return;
+
+    const weighted = applyBiquad(applyBiquad(samples, shelf), highPass);
+    for (let step = 0; step < stepCount; step++) {
+      let sum = 0;
+      for (let i = step * stepSamples; i < (step + 1) * stepSamples; i++) {
+        sum += weighted[i]! * weighted[i]!;
+      }
+      stepEnergy[step]! += weight * sum;
+    }
+  });
+
+  const blockEnergies: number[] = [];
+  for (let block = 0; block + stepsPerBlock <= stepCount; block++) {
+    let sum = 0;
+    for (let step = block; step < block + stepsPerBlock; step++) {
+      sum += stepEnergy[step]!;
+    }
+    blockEnergies.push(sum / (stepSamples * stepsPerBlock));
+  }
+
+  const aboveAbsolute = blockEnergies.filter(energy => energy > 0 && blockLoudness(energy) > ABSOLUTE_GATE_LUFS);
+  if (aboveAbsolute.length === 0) {
+    return { integratedLufs: null, truePeak };
+  }
+  const relativeGate = blockLoudness(aboveAbsolute.reduce((sum, energy) => sum + energy, 0) / aboveAbsolute.length) + RELATIVE_GATE_LU;
+  const gated = aboveAbsolute.filter(energy => blockLoudness(energy) > relativeGate);
+  return {
+    integratedLufs: blockLoudness(gated.reduce((sum, energy) => sum + energy, 0) / gated.length),
+    truePeak
+  };
+}
+
+/**
+ * Loudness of several tracks played back to back, e.g. an album. Each track's loudness is
+ * weighted by its length; this stands in for gating the album's blocks together, which would
+ * mean keeping every track's blocks
+ */
+export function combineLoudness(tracks: { integratedLufs: number; duration: number }[]): number | null {
+  const totalDuration = tracks.reduce((sum, track) => sum + track.duration, 0);
+  if (totalDuration <= 0) return null;
+  const energy = tracks.reduce((sum, track) => sum + track.duration * Math.pow(10, track.integratedLufs / 10), 0);
+  return 10 * Math.log10(energy / totalDuration);
+}
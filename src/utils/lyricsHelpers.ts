@@ -0,0 +1,86 @@
+export interface LyricLine {
+  // Seconds from the start of the track; null for lyrics without timing
+  time: number | null;
+  text: string;
+}
+
+export interface ParsedLyrics {
+  synced: boolean;
+  lines: LyricLine[];
+}
+
+// [mm:ss], [mm:ss.xx] or [mm:ss.xxx] - a line may carry several when it repeats
+const LRC_TIMESTAMP = /\[(\d+):(\d{1,2})(?:[.:](\d{1,3}))?\]/g;
+const LRC_OFFSET = /^\[offset:\s*([+-]?\d+)\s*\]$/i;
+
+/**
+ * Split plain lyrics into lines without timing
+ */
+export function toUnsyncedLyrics(text: string): ParsedLyrics {
+  return { synced: false, lines: text.trim().split(/\r?\n/).map(line => ({ time: null, text: line.trim() })) };
+}
+
+/**
+ * Parse LRC lyrics. Lines with several timestamps are repeated at each, [offset:] (milliseconds,
+ * positive meaning earlier) is applied, and ID tags such as [ar:] are skipped. Text with no
+ * timestamps at all is kept as unsynced lyrics
+ */
+export function parseLrc(text: string): ParsedLyrics {
+  const lines: LyricLine[] = [];
+  let offsetSeconds = 0;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const offset = line.match(LRC_OFFSET);
+    if (offset) {
+      offsetSeconds = Number(offset[1]) / 1000;
+      continue;
+    }
+
+    const times: number[] = [];
+    let lastIndex = 0;
+    for (const match of line.matchAll(LRC_TIMESTAMP)) {
+      // Timestamps only count at the start of the line, before the text
+      if (match.index !== lastIndex) break;
+      const fraction = match[3] ? Number(match[3]) / Math.pow(10, match[3].length) : 0;
+      times.push(Number(match[1]) * 60 + Number(match[2]) + fraction);
+      lastIndex = match.index + match[0].length;
+    }
+    const lyric = line.substring(lastIndex).trim();
+    times.forEach(time => lines.push({ time: Math.max(0, time - offsetSeconds), text: lyric }));
+  }
+
+  if (lines.length === 0) {
+    return toUnsyncedLyrics(text);
+  }
+  return { synced: true, lines: lines.sort((a, b) => a.time! - b.time!) };
+}
+
+/**
+ * The synced lines that fall within a track cut from a larger file by a CUE sheet, timed from
+ * the track's start. Unsynced lyrics can't be split up, so the track gets none
+ */
+export function sliceLyricsForTrack(lyrics: ParsedLyrics, track: { cueStart?: number | undefined; cueEnd?: number | undefined }): ParsedLyrics | null {
+  if (track.cueStart === undefined) return lyrics;
+  if (!lyrics.synced) return null;
+
+  const start = track.cueStart;
+  const end = track.cueEnd || Infinity;
+  const lines = lyrics.lines
+    .filter(line => line.time! >= start && line.time! < end)
+    .map(line => ({ time: line.time! - start, text: line.text }));
+  return lines.length > 0 ? { synced: true, lines } : null;
+}
+
+/**
+ * Index of the synced line being sung at a point in the track, or -1 before the first
+ */
+export function findCurrentLine(lines: LyricLine[], time: number): number {
+  let current = -1;
+  for (let i = 0; i < lines.length; i++) {
+    const lineTime = lines[i]!.time;
+    if (lineTime === null || lineTime > time) break;
+    current = i;
+  }
+  return current;
+}
@@ -0,0 +1,132 @@
+import { downmix, magnitudeFrames } from './spectrum';
+
+export interface MusicalKey {
+  // Pitch class of the tonic, 0 = C
+  tonic: number;
+  minor: boolean;
+}
+
+const PITCH_NAMES = ['C', 'C#', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'];
+const PITCH_CLASSES: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+const ANALYSIS_RATE = 11025;
+const FRAME_SIZE = 8192;
+// Pitches between A1 and about B6 carry the harmony; lower bins are too coarse to tell semitones apart
+const MIN_FREQUENCY = 55;
+const MAX_FREQUENCY = 2000;
+
+// Krumhansl-Kessler key profiles: how well each scale degree fits a major or minor key
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+/**
+ * The key's name as stored on tracks, e.g. "A minor"
+ */
+export function formatKey(key: MusicalKey): string {
+  return `${PITCH_NAMES[key.tonic]} ${key.minor ? 'minor' : 'major'}`;
+}
+
+/**
+ * Position on the Camelot wheel, 1-12. Neighbouring positions are a fifth apart, and a minor key
+ * shares its position with its relative major
+ */
+function camelotNumber(key: MusicalKey): number {
+  const majorTonic = key.minor ? (key.tonic + 3) % 12 : key.tonic;
+  return (majorTonic * 7 + 7) % 12 + 1;
+}
+
+/**
+ * Parse a key as written in TKEY and similar tags or typed into a station: "Am", "A minor", "F#",
+ * "Bbm", Camelot ("8A") or Open Key ("1m") notation. Returns null for anything else, such as "o" for off-key
+ */
+export function parseKey(value: string): MusicalKey | null {
+  const text = value.trim();
+
+  const wheel = text.match(/^(\d{1,2})\s*([abdm])$/i);
+  if (wheel) {
+    const number = parseInt(wheel[1]!);
+    if (number < 1 || number > 12) return null;
+    const letter = wheel[2]!.toLowerCase();
+    // Open Key numbers start from C major / A minor, which Camelot puts at 8
+    const camelot = letter === 'a' || letter === 'b' ? number : (number + 6) % 12 + 1;
+    const minor = letter === 'a' || letter === 'm';
+    const majorTonic = ((camelot - 8 + 12) % 12) * 7 % 12;
+    return { tonic: minor ? (majorTonic + 9) % 12 : majorTonic, minor };
+  }
+
+  const named = text.match(/^([A-G])\s*(#|♯|b|♭)?\s*(m|min|minor|maj|major)?$/i);
+  if (!named) return null;
+  const letter = named[1]!.toUpperCase();
+  const accidental = named[2] === '#' || named[2] === '♯' ? 1 : named[2] === 'b' || named[2] === '♭' ? -1 : 0;
+  const quality = named[3]?.toLowerCase();
+  return {
+    tonic: (PITCH_CLASSES[letter]! + accidental + 12) % 12,
+    // "M" on its own is ambiguous, but tags use it for minor far more often than for major
+    minor: quality === 'm' || quality === 'min' || quality === 'minor'
+  };
+}
+
+/**
+ * How well two keys mix, 0-1, by the Camelot wheel: the same key, its relative key or a fifth
+ * away sound closest
+ */
+export function keySimilarity(a: MusicalKey, b: MusicalKey): number {
+  const distance = Math.abs(camelotNumber(a) - camelotNumber(b));
+  const steps = Math.min(distance, 12 - distance);
+  if (steps === 0) return a.minor === b.minor ? 1 : 0.8;
+  if (steps === 1) return a.minor === b.minor ? 0.8 : 0.4;
+  if (steps === 2 && a.minor === b.minor) return 0.3;
+  return 0;
+}
+
+function pearson(a: number[], b: number[]): number {
+  const meanA = a.reduce((sum, value) => sum + value, 0) / a.length;
+  const meanB = b.reduce((sum, value) => sum + value, 0) / b.length;
+  let covariance = 0, varianceA = 0, varianceB = 0;
+  for (let i = 0; i < a.length; i++) {
+    covariance += (a[i]! - meanA) * (b[i]! - meanB);
+    varianceA += (a[i]! - meanA) ** 2;
+    varianceB += (b[i]! - meanB) ** 2;
+  }
+  return varianceA > 0 && varianceB > 0 ? covariance / Math.sqrt(varianceA * varianceB) : 0;
+}
+
+/**
+ * Estimate a track's key by matching how much of each pitch class it contains against the
+ * major and minor key profiles. Returns null for silence or unpitched audio
+ */
+export function estimateKey(channels: Float32Array[], sampleRate: number): MusicalKey | null {
+  const { samples, sampleRate: rate } = downmix(channels, sampleRate, ANALYSIS_RATE);
+
+  // Pitch class of every FFT bin in range, -1 outside it
+  const binPitchClass = new Int8Array(FRAME_SIZE / 2).fill(-1);
+  for (let k = 1; k < FRAME_SIZE / 2; k++) {
+    const frequency = k * rate / FRAME_SIZE;
+    if (frequency < MIN_FREQUENCY || frequency > MAX_FREQUENCY) continue;
+    const midiNote = Math.round(12 * Math.log2(frequency / 440) + 69);
+    binPitchClass[k] = midiNote % 12;
+  }
+
+  const chroma = new Array<number>(12).fill(0);
+  for (const magnitudes of magnitudeFrames(samples, FRAME_SIZE, FRAME_SIZE)) {
+    for (let k = 0; k < magnitudes.length; k++) {
+      const pitchClass = binPitchClass[k]!;
+      if (pitchClass >= 0) chroma[pitchClass]! += magnitudes[k]!;
+    }
+  }
+  if (chroma.every(value => value === 0)) return null;
+
+  let best: MusicalKey | null = null;
+  let bestCorrelation = -Infinity;
+  for (let tonic = 0; tonic < 12; tonic++) {
+    const rotated = chroma.map((_, degree) => chroma[(tonic + degree) % 12]!);
+    for (const minor of [false, true]) {
+      const correlation = pearson(rotated, minor ? MINOR_PROFILE : MAJOR_PROFILE);
+      if (correlation > bestCorrelation) {
+        bestCorrelation = correlation;
+        best = { tonic, minor };
+      }
+    }
+  }
+  return bestCorrelation > 0 ? best : null;
+}
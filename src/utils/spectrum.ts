@@ -0,0 +1,81 @@
+/**
+ * In-place radix-2 FFT. Both arrays must have the same power-of-two length
+ */
+export function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j]!, re[i]!];
+      [im[i], im[j]] = [im[j]!, im[i]!];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = -2 * Math.PI / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const even = start + k;
+        const odd = even + size / 2;
+        const oddRe = re[odd]! * cos - im[odd]! * sin;
+        const oddIm = re[odd]! * sin + im[odd]! * cos;
+        re[odd] = re[even]! - oddRe;
+        im[odd] = im[even]! - oddIm;
+        re[even] = re[even]! + oddRe;
+        im[even] = im[even]! + oddIm;
+      }
+    }
+  }
+}
+
+/**
+ * Mix channels down to mono and reduce the rate to around `targetRate`, averaging each run of
+ * samples so little aliases back in. Returns the samples and their actual rate
+ */
+export function downmix(channels: Float32Array[], sampleRate: number, targetRate: number): { samples: Float32Array; sampleRate: number } {
+  const factor = Math.max(1, Math.floor(sampleRate / targetRate));
+  const length = Math.floor((channels[0]?.length ?? 0) / factor);
+  const samples = new Float32Array(length);
+  for (const channel of channels) {
+    for (let i = 0; i < length; i++) {
+      let sum = 0;
+      for (let j = i * factor; j < (i + 1) * factor; j++) {
+        sum += channel[j]!;
+      }
+      samples[i]! += sum / (factor * channels.length);
+    }
+  }
+  return { samples, sampleRate: sampleRate / factor };
+}
+
+/**
+ * Magnitude spectra of Hann-windowed frames, `frameSize` long and `hop` apart, from `start` to `end`.
+ * The same array is reused for every frame
+ */
+export function* magnitudeFrames(samples: Float32Array, frameSize: number, hop: number, start = 0, end = samples.length): Generator<Float64Array> {
+  const window = new Float64Array(frameSize);
+  for (let i = 0; i < frameSize; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos(2 * Math.PI * i / frameSize);
+  }
+  const re = new Float64Array(frameSize);
+  const im = new Float64Array(frameSize);
+  const magnitudes = new Float64Array(frameSize / 2);
+
+  for (let offset = start; offset + frameSize <= end; offset += hop) {
+    for (let i = 0; i < frameSize; i++) {
+      re[i] = samples[offset + i]! * window[i]!;
+      im[i] = 0;
+    }
+    fft(re, im);
+    for (let k = 0; k < frameSize / 2; k++) {
+      magnitudes[k] = Math.hypot(re[k]!, im[k]!);
+    }
+    yield magnitudes;
+  }
+}
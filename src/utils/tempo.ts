@@ -0,0 +1,112 @@
+import { downmix, magnitudeFrames } from './spectrum';
+
+// Onsets show up well below 11 kHz, and the lower rate keeps the FFTs small
+const ANALYSIS_RATE = 11025;
+const FRAME_SIZE = 512;
+const HOP_SIZE = 128;
+// Tempo rarely changes much within a song, so two minutes from its middle are enough
+const MAX_ANALYSIS_SECONDS = 120;
+const MIN_BPM = 50;
+const MAX_BPM = 220;
+// Periodicity at half or double the tempo is nearly as strong as at the tempo itself; listeners
+// mostly hear tempos near this one, so lags are weighted towards it (one octave either side)
+const PREFERRED_BPM = 120;
+const PREFERENCE_OCTAVES = 1;
+
+/**
+ * Onset strength per frame: how much louder each frequency got since the previous frame, summed
+ */
+function onsetEnvelope(samples: Float32Array, start: number, end: number): Float64Array {
+  const frameCount = Math.max(0, Math.floor((end - start - FRAME_SIZE) / HOP_SIZE) + 1);
+  const envelope = new Float64Array(frameCount);
+  let previous: Float64Array | null = null;
+  let frame = 0;
+  for (const magnitudes of magnitudeFrames(samples, FRAME_SIZE, HOP_SIZE, start, end)) {
+    const compressed = magnitudes.map(magnitude => Math.log1p(100 * magnitude));
+    if (previous) {
+      let flux = 0;
+      for (let k = 0; k < compressed.length; k++) {
+        flux += Math.max(0, compressed[k]! - previous[k]!);
+      }
+      envelope[frame] = flux;
+    }
+    previous = compressed;
+    frame++;
+  }
+
+  // Keep only the peaks above the local average, which are the onsets
+  const radius = 8;
+  const detrended = new Float64Array(frameCount);
+  for (let i = 0; i < frameCount; i++) {
+    let sum = 0;
+    let count = 0;
+    for (let j = Math.max(0, i - radius); j <= Math.min(frameCount - 1, i + radius); j++) {
+      sum += envelope[j]!;
+      count++;
+    }
+    detrended[i] = Math.max(0, envelope[i]! - sum / count);
+  }
+  return detrended;
+}
+
+/**
+ * Estimate a track's tempo in beats per minute from the periodicity of its onsets.
+ * Returns null when there's no clear beat, e.g. for silence or ambient pieces
+ */
+export function estimateTempo(channels: Float32Array[], sampleRate: number): number | null {
+  const { samples, sampleRate: rate } = downmix(channels, sampleRate, ANALYSIS_RATE);
+  const length = Math.min(samples.length, Math.round(MAX_ANALYSIS_SECONDS * rate));
+  const start = Math.floor((samples.length - length) / 2);
+  const envelope = onsetEnvelope(samples, start, start + length);
+  const frameRate = rate / HOP_SIZE;
+
+  const minLag = Math.floor(frameRate * 60 / MAX_BPM);
+  const maxLag = Math.ceil(frameRate * 60 / MIN_BPM);
+  if (envelope.length < maxLag * 4) return null;
+
+  let energy = 0;
+  for (const value of envelope) {
+    energy += value * value;
+  }
+  if (energy === 0) return null;
+
+  const correlation = new Float64Array(maxLag + 2);
+  for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+    let sum = 0;
+    for (let i = lag; i < envelope.length; i++) {
+      sum += envelope[i]! * envelope[i - lag]!;
+    }
+    correlation[lag] = sum / energy;
+  }
+
+  let bestLag = -1;
+  let bestScore = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const octaves = Math.log2(frameRate * 60 / lag / PREFERRED_BPM) / PREFERENCE_OCTAVES;
+    const score = correlation[lag]! * Math.exp(-0.5 * octaves * octaves);
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+  if (bestLag < 0) return null;
+
+  // Fit a parabola through the peak and its neighbours to place it between frames
+  const before = correlation[bestLag - 1]!;
+  const peak = correlation[bestLag]!;
+  const after = correlation[bestLag + 1]!;
+  const curvature = before - 2 * peak + after;
+  const offset = curvature < 0 ? 0.5 * (before - after) / curvature : 0;
+  return Math.round(frameRate * 60 / (bestLag + offset));
+}
+
+/**
+ * Parse a BPM criterion: a range such as "120-130", or a single tempo
+ */
+export function parseBpmRange(value: string): [number, number] | null {
+  const numbers = value.split(/\s*[-–]\s*/).map(part => parseFloat(part));
+  if (numbers.length === 0 || numbers.length > 2 || numbers.some(number => isNaN(number) || number <= 0)) return null;
+  const low = Math.min(...numbers);
+  const high = Math.max(...numbers);
+  return [low, high];
+}
@@ -0,0 +1,40 @@
+import { LoudnessMeasurement, measureLoudness } from '../utils/loudness';
+import { estimateTempo } from '../utils/tempo';
+import { MusicalKey, estimateKey } from '../utils/musicalKey';
+
+export interface AudioAnalysisRequest {
+  channels: Float32Array[];
+  sampleRate: number;
+  // Which measurements the track still needs
+  loudness: boolean;
+  tempoKey: boolean;
+}
+
+export interface AudioAnalysisResult {
+  loudness: LoudnessMeasurement | null;
+  bpm: number | null;
+  musicalKey: MusicalKey | null;
+}
+
+export type AudioAnalysisResponse =
+  | { result: AudioAnalysisResult; error?: undefined }
+  | { error: string; result?: undefined };
+
+// Analyzes decoded audio off the main thread. Decoding itself needs an OfflineAudioContext,
+// which workers don't have, so the channels arrive already decoded
+self.onmessage = (event: MessageEvent<AudioAnalysisRequest>) => {
+  const { channels, sampleRate, loudness, tempoKey } = event.data;
+  let response: AudioAnalysisResponse;
+  try {
+    response = {
+      result: {
+        loudness: loudness ? measureLoudness(channels, sampleRate) : null,
+        bpm: tempoKey ? estimateTempo(channels, sampleRate) : null,
+        musicalKey: tempoKey ? estimateKey(channels, sampleRate) : null
+      }
+    };
+  } catch (error) {
+    response = { error: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(response);
+};
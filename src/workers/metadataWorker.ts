@@ -0,0 +1,28 @@
+import { extractTrackData } from '../services/metadataService';
+import type { MetadataWorkerRequest, MetadataWorkerResponse } from '../services/metadataWorkerPool';
+
+// Parses audio files off the main thread. Each request is answered with exactly one response.
+self.onmessage = async (event: MessageEvent<MetadataWorkerRequest>) => {
+  const { taskId, file } = event.data;
+  let response: MetadataWorkerResponse;
+  const transfer: Transferable[] = [];
+
+  try {
+    const data = await extractTrackData(file);
+    response = { taskId, data };
+    if (data.albumArt) {
+      // Copy the cover into its own buffer so it can be transferred instead of cloned
+      const cover = data.albumArt.data.slice();
+      data.albumArt.data = cover;
+      transfer.push(cover.buffer);
+    }
+  } catch (error) {
+    response = {
+      taskId,
+      error: error instanceof Error ? error.message : String(error),
+      errorName: error instanceof Error ? error.name : 'Error'
+    };
+  }
+
+  self.postMessage(response, { transfer });
+};
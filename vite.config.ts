@@ -7,6 +7,10 @@ export default defineConfig({
     ? `/${process.env.GITHUB_REPOSITORY.split('/')[1]}/` 
     : '/',
   plugins: [react()],
+  worker: {
+    // music-metadata loads its parsers with dynamic imports
+    format: 'es',
+  },
   server: {
     port: 3000,
   },